@@ -1,34 +1,141 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { QuotaConfig } from '../dto/quota.dto';
+import { PERMISSIONS, PermissionMatrix } from '../dto/rbac.dto';
+import { DEFAULT_PERMISSION_MATRIX } from './permissions';
+import { isOutputLanguage, OUTPUT_LANGUAGES, OutputLanguage } from '../utils/language';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
 interface EnvConfig {
   port: number;
-  supabaseJwtSecret: string;
+  supabaseJwtSecret: string; // HS256 secret, optional if a JWKS is configured
+  jwksUrl: string; // Endpoint publishing RS256/ES256 signing keys
+  jwksFile: string; // Local JWKS file used instead of jwksUrl, e.g. for tests
+  jwksCacheTtlSeconds: number;
+  jwtIssuers: string[]; // Accepted iss claims, empty = not checked
+  jwtAudiences: string[]; // Accepted aud claims, empty = not checked
+  jwtClockSkewSeconds: number;
   supabaseUrl: string;
   supabaseAnonKey: string;
+  supabaseServiceRoleKey: string; // Optional, enables background work without a user JWT
   googleCloudProject: string;
   googleCloudLocation: string;
   gcpServiceAccountKeyJsonB64: string;
   mistralApiKey: string; // Add Mistral API Key
+  ocrCacheStore: 'memory' | 'supabase';
+  ocrCacheMaxEntries: number;
+  ocrJobConcurrency: number;
+  retrievalEmbedder: 'mistral' | 'local';
+  retrievalStore: 'memory' | 'supabase';
+  retrievalMemoryMaxSessions: number;
+  retrievalTopK: number;
+  structuredOutputMaxRepairs: number;
+  quotaLimits: QuotaConfig | null; // null disables quota enforcement
+  permissionMatrix: PermissionMatrix;
+  auditLogStore: 'console' | 'supabase';
+  defaultLanguage: OutputLanguage; // Used when a request names no supported language
 }
 
+/**
+ * Parses a comma-separated list, ignoring empty entries
+ */
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+/**
+ * Parses the QUOTA_LIMITS JSON, exiting on invalid configuration
+ */
+const parseQuotaLimits = (value: string | undefined): QuotaConfig | null => {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || !parsed.roles || typeof parsed.roles !== 'object') {
+      throw new Error('QUOTA_LIMITS must be an object with a "roles" map');
+    }
+    return parsed as QuotaConfig;
+  } catch (error) {
+    console.error('QUOTA_LIMITS is not valid:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+/**
+ * Parses the RBAC_PERMISSIONS JSON, exiting on invalid configuration
+ */
+const parsePermissionMatrix = (value: string | undefined): PermissionMatrix => {
+  if (!value) {
+    return DEFAULT_PERMISSION_MATRIX;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || !parsed.roles || typeof parsed.roles !== 'object') {
+      throw new Error('RBAC_PERMISSIONS must be an object with a "roles" map');
+    }
+    Object.entries(parsed.roles).forEach(([role, permissions]) => {
+      if (!Array.isArray(permissions)) {
+        throw new Error(`Permissions of role '${role}' must be an array`);
+      }
+      const unknown = permissions.filter(permission => permission !== '*' && !(PERMISSIONS as readonly string[]).includes(permission));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown permissions for role '${role}': ${unknown.join(', ')}`);
+      }
+    });
+    return parsed as PermissionMatrix;
+  } catch (error) {
+    console.error('RBAC_PERMISSIONS is not valid:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
 const config: EnvConfig = {
   port: process.env.PORT ? parseInt(process.env.PORT) : 3000,
   supabaseJwtSecret: process.env.SUPABASE_JWT_SECRET || '',
+  jwksUrl: process.env.JWT_JWKS_URL || '',
+  jwksFile: process.env.JWT_JWKS_FILE || '',
+  jwksCacheTtlSeconds: process.env.JWT_JWKS_CACHE_TTL_SECONDS ? parseInt(process.env.JWT_JWKS_CACHE_TTL_SECONDS) : 600,
+  jwtIssuers: parseList(process.env.JWT_ISSUER),
+  jwtAudiences: parseList(process.env.JWT_AUDIENCE),
+  jwtClockSkewSeconds: process.env.JWT_CLOCK_SKEW_SECONDS ? parseInt(process.env.JWT_CLOCK_SKEW_SECONDS) : 30,
   supabaseUrl: process.env.SUPABASE_URL || '',
   supabaseAnonKey: process.env.SUPABASE_ANON_KEY || '',
+  supabaseServiceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
   googleCloudProject: process.env.GOOGLE_CLOUD_PROJECT || '',
   googleCloudLocation: process.env.GOOGLE_CLOUD_LOCATION || '',
   gcpServiceAccountKeyJsonB64: process.env.GCP_SERVICE_ACCOUNT_KEY_JSON_B64 || '',
   mistralApiKey: process.env.MISTRAL_API_KEY || '', // Add Mistral API Key
+  ocrCacheStore: process.env.OCR_CACHE_STORE === 'supabase' ? 'supabase' : 'memory',
+  ocrCacheMaxEntries: process.env.OCR_CACHE_MAX_ENTRIES ? parseInt(process.env.OCR_CACHE_MAX_ENTRIES) : 100,
+  ocrJobConcurrency: process.env.OCR_JOB_CONCURRENCY ? parseInt(process.env.OCR_JOB_CONCURRENCY) : 2,
+  retrievalEmbedder: process.env.RETRIEVAL_EMBEDDER === 'local' ? 'local' : 'mistral',
+  retrievalStore: process.env.RETRIEVAL_STORE === 'supabase' ? 'supabase' : 'memory',
+  retrievalMemoryMaxSessions: process.env.RETRIEVAL_MEMORY_MAX_SESSIONS ? parseInt(process.env.RETRIEVAL_MEMORY_MAX_SESSIONS) : 100,
+  retrievalTopK: process.env.RETRIEVAL_TOP_K ? parseInt(process.env.RETRIEVAL_TOP_K) : 8,
+  structuredOutputMaxRepairs: process.env.STRUCTURED_OUTPUT_MAX_REPAIRS ? parseInt(process.env.STRUCTURED_OUTPUT_MAX_REPAIRS) : 2,
+  quotaLimits: parseQuotaLimits(process.env.QUOTA_LIMITS),
+  permissionMatrix: parsePermissionMatrix(process.env.RBAC_PERMISSIONS),
+  auditLogStore: process.env.AUDIT_LOG_STORE === 'supabase' ? 'supabase' : 'console',
+  defaultLanguage: isOutputLanguage(process.env.DEFAULT_LANGUAGE) ? process.env.DEFAULT_LANGUAGE : 'de',
 };
 
 // Validate required environment variables
-if (!config.supabaseJwtSecret) {
-  console.error('SUPABASE_JWT_SECRET is required but not provided in environment variables');
+if (!config.supabaseJwtSecret && !config.jwksUrl && !config.jwksFile) {
+  console.error('SUPABASE_JWT_SECRET or JWT_JWKS_URL/JWT_JWKS_FILE is required but not provided in environment variables');
+  process.exit(1);
+}
+
+if (process.env.DEFAULT_LANGUAGE && !isOutputLanguage(process.env.DEFAULT_LANGUAGE)) {
+  console.error(`DEFAULT_LANGUAGE must be one of ${OUTPUT_LANGUAGES.join(', ')}`);
+  process.exit(1);
+}
+
+if (config.quotaLimits && !config.supabaseServiceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required when QUOTA_LIMITS is set, usage could not be recorded otherwise');
   process.exit(1);
 }
 
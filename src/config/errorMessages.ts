@@ -0,0 +1,147 @@
+import { OutputLanguage } from '../utils/language';
+
+/**
+ * Translations of the error messages sent by the middleware and controllers, keyed by the
+ * English message. `{name}` marks a variable part that is carried over into the translation.
+ * Messages without an entry are sent in English.
+ */
+export const ERROR_MESSAGES: Record<Exclude<OutputLanguage, 'en'>, Record<string, string>> = {
+  de: {
+    // Authentication and access control
+    'No token provided': 'Kein Token übermittelt',
+    'Invalid token': 'Ungültiges Token',
+    'Token expired': 'Token abgelaufen',
+    'Failed to authenticate token': 'Das Token konnte nicht geprüft werden',
+    'Signing keys unavailable': 'Signaturschlüssel nicht verfügbar',
+    'API keys are not enabled': 'API-Schlüssel sind nicht aktiviert',
+    'Failed to authenticate API key': 'Der API-Schlüssel konnte nicht geprüft werden',
+    'Authorization header with Bearer token is required': 'Ein Authorization-Header mit Bearer-Token ist erforderlich',
+    'Unauthorized: Missing or invalid JWT token': 'Nicht autorisiert: JWT-Token fehlt oder ist ungültig',
+    'User not authenticated': 'Benutzer nicht authentifiziert',
+    'Forbidden': 'Zugriff verweigert',
+    'Missing permission: {permissions}': 'Fehlende Berechtigung: {permissions}',
+    'Role \'{role}\' is not allowed to access this resource': 'Die Rolle \'{role}\' darf nicht auf diese Ressource zugreifen',
+    'Unauthorized: You do not have access to this chat session': 'Nicht autorisiert: Sie haben keinen Zugriff auf diese Chat-Sitzung',
+    'Unauthorized: You do not have access to this document': 'Nicht autorisiert: Sie haben keinen Zugriff auf dieses Dokument',
+    'Unauthorized: You do not have access to this OCR job': 'Nicht autorisiert: Sie haben keinen Zugriff auf diesen OCR-Auftrag',
+    'Token quota exceeded': 'Token-Kontingent überschritten',
+    'The chat session was changed by another request, the answer could not be saved': 'Der Chat wurde durch eine andere Anfrage geändert, die Antwort konnte nicht gespeichert werden',
+    'The chat session was changed by another request, please try again': 'Der Chat wurde durch eine andere Anfrage geändert, bitte versuchen Sie es erneut',
+    'The prompt is too long for the context window of the selected model': 'Der Prompt ist zu lang für das Kontextfenster des gewählten Modells',
+
+    // Request validation
+    'language must be one of {languages} if provided': 'language muss einer der Werte {languages} sein, falls angegeben',
+    'Prompt is required': 'Prompt ist erforderlich',
+    'Prompt is required and must be a string': 'Prompt ist erforderlich und muss ein String sein',
+    'Prompt must be a string if provided': 'Prompt muss ein String sein, falls angegeben',
+    'prompt and filePath are required': 'prompt und filePath sind erforderlich',
+    'FilePath is required and must be a string': 'FilePath ist erforderlich und muss ein String sein',
+    'filePath is required and must be a string': 'filePath ist erforderlich und muss ein String sein',
+    'filePath cannot be empty': 'filePath darf nicht leer sein',
+    '{property} must be a string': '{property} muss ein String sein',
+    '{property} must be a boolean value': '{property} muss ein Boolean sein',
+    'filePaths must be an array if provided': 'filePaths muss ein Array sein, falls angegeben',
+    'All filePaths must be strings': 'Alle filePaths müssen Strings sein',
+    'chatSessionId must be a string if provided': 'chatSessionId muss ein String sein, falls angegeben',
+    'userMessage is required and must be a string': 'userMessage ist erforderlich und muss ein String sein',
+    'provider must be a string if provided': 'provider muss ein String sein, falls angegeben',
+    'model must be a string if provided': 'model muss ein String sein, falls angegeben',
+    'Unknown provider \'{provider}\'. Available providers: {providers}': 'Unbekannter Anbieter \'{provider}\'. Verfügbare Anbieter: {providers}',
+    'Model \'{model}\' is not available for provider \'{provider}\'. Available models: {models}': 'Das Modell \'{model}\' ist für den Anbieter \'{provider}\' nicht verfügbar. Verfügbare Modelle: {models}',
+    'profileId must be a non-empty string if provided': 'profileId muss ein nicht leerer String sein, falls angegeben',
+    'Message ID is required as a path parameter': 'Die Nachrichten-ID ist als Pfadparameter erforderlich',
+    'messageId is required and must be a string': 'messageId ist erforderlich und muss ein String sein',
+    'Chat ID is required as a path parameter': 'Die Chat-ID ist als Pfadparameter erforderlich',
+    'Document ID is required as a path parameter': 'Die Dokument-ID ist als Pfadparameter erforderlich',
+    'Comparison ID is required as a path parameter': 'Die Vergleichs-ID ist als Pfadparameter erforderlich',
+    'API key ID is required as a path parameter': 'Die ID des API-Schlüssels ist als Pfadparameter erforderlich',
+    'Analysis profile ID is required as a path parameter': 'Die ID des Analyseprofils ist als Pfadparameter erforderlich',
+    'limit must be a positive integer if provided': 'limit muss eine positive ganze Zahl sein, falls angegeben',
+    'offset must be a non-negative integer if provided': 'offset muss eine nicht negative ganze Zahl sein, falls angegeben',
+    'Title is required and must be a non-empty string': 'Der Titel ist erforderlich und muss ein nicht leerer String sein',
+    'Title must not exceed 200 characters': 'Der Titel darf höchstens 200 Zeichen lang sein',
+    'includeOcr must be "true" or "false" if provided': 'includeOcr muss "true" oder "false" sein, falls angegeben',
+    'from must be a date in YYYY-MM-DD format if provided': 'from muss ein Datum im Format YYYY-MM-DD sein, falls angegeben',
+    'to must be a date in YYYY-MM-DD format if provided': 'to muss ein Datum im Format YYYY-MM-DD sein, falls angegeben',
+    'from must not be after to': 'from darf nicht nach to liegen',
+    'userId must be a non-empty string if provided': 'userId muss ein nicht leerer String sein, falls angegeben',
+    'format must be "json" or "csv" if provided': 'format muss "json" oder "csv" sein, falls angegeben',
+    'Name is required and must be a non-empty string': 'Der Name ist erforderlich und muss ein nicht leerer String sein',
+    'Name must not exceed 100 characters': 'Der Name darf höchstens 100 Zeichen lang sein',
+    'Scopes must be an array of permission names if provided': 'Scopes muss ein Array von Berechtigungsnamen sein, falls angegeben',
+    'Invalid scopes: {scopes}': 'Ungültige Scopes: {scopes}',
+    'expiresInDays must be an integer between 1 and 365 if provided': 'expiresInDays muss eine ganze Zahl zwischen 1 und 365 sein, falls angegeben',
+    'baseFilePath is required and must be a string': 'baseFilePath ist erforderlich und muss ein String sein',
+    'revisedFilePath is required and must be a string': 'revisedFilePath ist erforderlich und muss ein String sein',
+    'baseFilePath and revisedFilePath must refer to different files': 'baseFilePath und revisedFilePath müssen auf verschiedene Dateien verweisen',
+    'Either schemaId or schema is required': 'Entweder schemaId oder schema ist erforderlich',
+    'schemaId must be a non-empty string': 'schemaId muss ein nicht leerer String sein',
+    'Invalid extraction schema': 'Ungültiges Extraktionsschema',
+    'systemPrompt is required and must be a non-empty string': 'systemPrompt ist erforderlich und muss ein nicht leerer String sein',
+    'description must be a string if provided': 'description muss ein String sein, falls angegeben',
+    'severityGuidance must be a string if provided': 'severityGuidance muss ein String sein, falls angegeben',
+    'requiredChecks must be an array of non-empty strings if provided': 'requiredChecks muss ein Array nicht leerer Strings sein, falls angegeben',
+    'Invalid output schema': 'Ungültiges Ausgabeschema',
+    'isActive must be a boolean if provided': 'isActive muss ein Boolean sein, falls angegeben',
+
+    // Not found
+    'Chat session with ID {id} not found': 'Chat-Sitzung mit der ID {id} nicht gefunden',
+    'Document with ID {id} not found': 'Dokument mit der ID {id} nicht gefunden',
+    'OCR job with ID {id} not found': 'OCR-Auftrag mit der ID {id} nicht gefunden',
+    'Comparison with ID {id} not found': 'Vergleich mit der ID {id} nicht gefunden',
+    'Extraction schema {id} not found': 'Extraktionsschema {id} nicht gefunden',
+    'Analysis profile {id} not found': 'Analyseprofil {id} nicht gefunden',
+    'Message with ID {id} not found': 'Nachricht mit der ID {id} nicht gefunden',
+    'API key not found or already revoked': 'API-Schlüssel nicht gefunden oder bereits widerrufen',
+
+    // Request processing
+    'Only user messages can be edited': 'Nur Benutzernachrichten können bearbeitet werden',
+    'Only assistant messages can be regenerated': 'Nur Antworten des Assistenten können neu erzeugt werden',
+    'Only incomplete messages can be resumed': 'Nur unvollständige Antworten können fortgesetzt werden',
+    'The message does not answer a user message': 'Die Nachricht beantwortet keine Benutzernachricht',
+    'No documents available for analysis in this chat session': 'In dieser Chat-Sitzung sind keine Dokumente zur Analyse vorhanden',
+    'Failed to process any documents for analysis': 'Keines der Dokumente konnte für die Analyse verarbeitet werden',
+    'Analysis profile {id} has a custom output schema and cannot be streamed': 'Das Analyseprofil {id} hat ein eigenes Ausgabeschema und kann nicht gestreamt werden',
+    'Analysis profile {id} has a custom output schema, use /mistral/chat/:chatId/analyze instead': 'Das Analyseprofil {id} hat ein eigenes Ausgabeschema, verwenden Sie stattdessen /mistral/chat/:chatId/analyze',
+    'The model did not return a valid analysis': 'Das Modell hat keine gültige Analyse geliefert',
+    'The model did not return valid annotations': 'Das Modell hat keine gültigen Annotationen geliefert',
+    'The model did not return a valid assessment': 'Das Modell hat keine gültige Bewertung geliefert',
+    'The model did not return a valid extraction': 'Das Modell hat keine gültige Extraktion geliefert',
+    'API keys require SUPABASE_SERVICE_ROLE_KEY and SUPABASE_JWT_SECRET': 'API-Schlüssel erfordern SUPABASE_SERVICE_ROLE_KEY und SUPABASE_JWT_SECRET',
+    'Usage reports across users require SUPABASE_SERVICE_ROLE_KEY': 'Nutzungsberichte über alle Benutzer erfordern SUPABASE_SERVICE_ROLE_KEY',
+    'Managing analysis profiles requires SUPABASE_SERVICE_ROLE_KEY': 'Die Verwaltung von Analyseprofilen erfordert SUPABASE_SERVICE_ROLE_KEY',
+    'Failed to create the analysis profile, the name may already be taken': 'Das Analyseprofil konnte nicht erstellt werden, der Name ist möglicherweise bereits vergeben',
+
+    // Unexpected failures
+    'Failed to process the Mistral chat request': 'Die Chat-Anfrage konnte nicht verarbeitet werden',
+    'Failed to process the assistant chat request': 'Die Assistenten-Anfrage konnte nicht verarbeitet werden',
+    'Failed to process the Mistral OCR request': 'Die OCR-Anfrage konnte nicht verarbeitet werden',
+    'Failed to process the document': 'Das Dokument konnte nicht verarbeitet werden',
+    'Failed to queue the OCR job': 'Der OCR-Auftrag konnte nicht eingereiht werden',
+    'Failed to get the OCR job status': 'Der Status des OCR-Auftrags konnte nicht abgerufen werden',
+    'Failed to analyze the document': 'Das Dokument konnte nicht analysiert werden',
+    'Failed to analyze the chat documents': 'Die Dokumente des Chats konnten nicht analysiert werden',
+    'Failed to create document record': 'Der Dokumenteintrag konnte nicht erstellt werden',
+    'Failed to store document annotations': 'Die Annotationen konnten nicht gespeichert werden',
+    'Failed to compare the documents': 'Die Dokumente konnten nicht verglichen werden',
+    'Failed to get the comparison': 'Der Vergleich konnte nicht abgerufen werden',
+    'Failed to extract the document fields': 'Die Felder des Dokuments konnten nicht extrahiert werden',
+    'Failed to list chat sessions': 'Die Chat-Sitzungen konnten nicht abgerufen werden',
+    'Failed to get the chat session': 'Die Chat-Sitzung konnte nicht abgerufen werden',
+    'Failed to rename the chat session': 'Die Chat-Sitzung konnte nicht umbenannt werden',
+    'Failed to switch the chat branch': 'Der Gesprächszweig konnte nicht gewechselt werden',
+    'Failed to delete the chat session': 'Die Chat-Sitzung konnte nicht gelöscht werden',
+    'Failed to list documents': 'Die Dokumente konnten nicht abgerufen werden',
+    'Failed to get the document': 'Das Dokument konnte nicht abgerufen werden',
+    'Failed to get usage': 'Die Nutzung konnte nicht abgerufen werden',
+    'Failed to get usage report': 'Der Nutzungsbericht konnte nicht abgerufen werden',
+    'Failed to create API key': 'Der API-Schlüssel konnte nicht erstellt werden',
+    'Failed to list API keys': 'Die API-Schlüssel konnten nicht abgerufen werden',
+    'Failed to revoke API key': 'Der API-Schlüssel konnte nicht widerrufen werden',
+    'Failed to list analysis profiles': 'Die Analyseprofile konnten nicht abgerufen werden',
+    'Failed to get the analysis profile': 'Das Analyseprofil konnte nicht abgerufen werden',
+    'Failed to create the analysis profile': 'Das Analyseprofil konnte nicht erstellt werden',
+    'Failed to update the analysis profile': 'Das Analyseprofil konnte nicht aktualisiert werden',
+    'Failed to delete the analysis profile': 'Das Analyseprofil konnte nicht gelöscht werden'
+  }
+};
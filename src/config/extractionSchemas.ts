@@ -0,0 +1,55 @@
+import { ExtractionSchemaDefinition } from '../dto/extraction.dto';
+
+/**
+ * Built-in extraction schemas, selected by their ID in extraction requests
+ */
+export const BUILT_IN_EXTRACTION_SCHEMAS: ExtractionSchemaDefinition[] = [
+  {
+    id: 'german-commercial-contract',
+    name: 'Deutscher Handelsvertrag',
+    description: 'Stammdaten eines Vertrags zwischen Unternehmen nach deutschem Recht',
+    fields: [
+      {
+        name: 'parties',
+        type: 'object',
+        multiple: true,
+        description: 'Vertragsparteien',
+        fields: [
+          { name: 'name', type: 'string', description: 'Firma bzw. Name der Partei einschließlich Rechtsform' },
+          { name: 'role', type: 'string', description: 'Rolle im Vertrag, z.B. Auftraggeber, Auftragnehmer, Lieferant' },
+          { name: 'address', type: 'string', description: 'Anschrift bzw. Sitz' },
+          { name: 'representative', type: 'string', description: 'Vertretungsberechtigte Person, z.B. Geschäftsführer' },
+          { name: 'registerNumber', type: 'string', description: 'Handelsregisternummer mit Registergericht' }
+        ]
+      },
+      { name: 'contractType', type: 'string', description: 'Vertragsart, z.B. Dienstleistungsvertrag, Liefervertrag, Rahmenvertrag' },
+      { name: 'signingDate', type: 'date', description: 'Datum des Vertragsschlusses bzw. der Unterzeichnung' },
+      { name: 'effectiveDate', type: 'date', description: 'Beginn der Vertragslaufzeit bzw. Inkrafttreten' },
+      { name: 'endDate', type: 'date', description: 'Ende der Vertragslaufzeit bei befristeten Verträgen' },
+      { name: 'indefiniteTerm', type: 'boolean', description: 'Ob der Vertrag auf unbestimmte Zeit geschlossen ist' },
+      { name: 'minimumTerm', type: 'duration', description: 'Mindest- oder Festlaufzeit' },
+      { name: 'automaticRenewal', type: 'duration', description: 'Zeitraum, um den sich der Vertrag ohne Kündigung automatisch verlängert' },
+      { name: 'noticePeriod', type: 'duration', description: 'Frist der ordentlichen Kündigung' },
+      { name: 'noticeDetails', type: 'string', description: 'Kündigungstermin und Form der Kündigung, z.B. "zum Quartalsende, schriftlich"' },
+      {
+        name: 'terminationClauses',
+        type: 'object',
+        multiple: true,
+        description: 'Regelungen zur ordentlichen und außerordentlichen Kündigung',
+        fields: [
+          { name: 'kind', type: 'string', enum: ['ordinary', 'extraordinary'], description: 'ordinary = ordentliche, extraordinary = außerordentliche Kündigung' },
+          { name: 'summary', type: 'string', description: 'Kurze Zusammenfassung der Regelung mit Kündigungsgründen' },
+          { name: 'clause', type: 'string', description: 'Fundstelle, z.B. "§ 12 Abs. 2"' }
+        ]
+      },
+      { name: 'remuneration', type: 'money', description: 'Vergütung bzw. Vertragswert (netto)' },
+      { name: 'paymentTerms', type: 'string', description: 'Zahlungsbedingungen, z.B. "30 Tage netto nach Rechnungseingang"' },
+      { name: 'liabilityCap', type: 'money', description: 'Betragsmäßige Haftungshöchstgrenze' },
+      { name: 'liabilityLimitations', type: 'string', description: 'Haftungsbeschränkungen und -ausschlüsse' },
+      { name: 'governingLaw', type: 'string', description: 'Anwendbares Recht, z.B. "Recht der Bundesrepublik Deutschland unter Ausschluss des UN-Kaufrechts"' },
+      { name: 'jurisdiction', type: 'string', description: 'Gerichtsstand' },
+      { name: 'confidentiality', type: 'boolean', description: 'Ob eine Vertraulichkeitsvereinbarung enthalten ist' },
+      { name: 'writtenFormClause', type: 'boolean', description: 'Ob Änderungen der Schriftform bedürfen' }
+    ]
+  }
+];
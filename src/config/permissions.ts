@@ -0,0 +1,23 @@
+import { PermissionMatrix } from '../dto/rbac.dto';
+
+/**
+ * Permission matrix used when RBAC_PERMISSIONS is not set: every user may use the API,
+ * admins additionally see the usage of all users and manage analysis profiles
+ */
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  roles: {
+    default: [
+      'chat:send',
+      'assistant:chat',
+      'analysis:run',
+      'ocr:run',
+      'chats:read',
+      'chats:write',
+      'documents:read',
+      'providers:read',
+      'usage:read',
+      'api_keys:manage'
+    ],
+    admin: ['*']
+  }
+};
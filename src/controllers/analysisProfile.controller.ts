@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import config from '../config/env';
+import auditService from '../services/audit.service';
+import rbacService from '../services/rbac.service';
+import supabaseService from '../services/supabase.service';
+import { AnalysisProfileInputDto } from '../dto/analysisProfile.dto';
+
+/**
+ * Profile fields from a validated request body, with optional fields reset to their defaults
+ */
+const toProfileInput = (body: AnalysisProfileInputDto): AnalysisProfileInputDto => ({
+    name: body.name.trim(),
+    description: body.description ?? null,
+    systemPrompt: body.systemPrompt,
+    severityGuidance: body.severityGuidance ?? null,
+    requiredChecks: (body.requiredChecks ?? []).map(check => check.trim()),
+    outputSchema: body.outputSchema ?? null,
+    isActive: body.isActive ?? true
+});
+
+/**
+ * Records a change to an analysis profile in the audit log
+ */
+const auditProfileChange = (req: Request<any, any, any>, reason: string): void => {
+    auditService.record({
+        event: 'analysis_profile_changed',
+        userId: req.user!.id,
+        role: rbacService.getRole(req.user!),
+        method: req.method,
+        path: req.originalUrl,
+        reason,
+        required: [],
+        ip: req.ip
+    });
+};
+
+/**
+ * Lists the active analysis profiles that can be passed as profileId to the analysis routes
+ * @param req Request
+ * @param res Response with the profiles
+ */
+export const listAnalysisProfiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        const profiles = await supabaseService.getAnalysisProfiles(false, jwt);
+        res.status(200).json({ profiles });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error listing analysis profiles:`, error);
+        res.status(500).json({ error: 'Failed to list analysis profiles' });
+    }
+};
+
+/**
+ * Gets an active analysis profile
+ * @param req Request with profileId path parameter
+ * @param res Response with the profile
+ */
+export const getAnalysisProfile = async (req: Request<{ profileId: string }>, res: Response): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        const profile = await supabaseService.getAnalysisProfileById(req.params.profileId, jwt);
+        if (!profile || !profile.isActive) {
+            res.status(404).json({ error: `Analysis profile ${req.params.profileId} not found` });
+            return;
+        }
+
+        res.status(200).json(profile);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting analysis profile:`, error);
+        res.status(500).json({ error: 'Failed to get the analysis profile' });
+    }
+};
+
+/**
+ * Lists all analysis profiles including deactivated ones. Profiles are written with the
+ * service role key, the admin routes are restricted to admins.
+ * @param req Request
+ * @param res Response with the profiles
+ */
+export const listAllAnalysisProfiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+        if (!config.supabaseServiceRoleKey) {
+            res.status(503).json({ error: 'Managing analysis profiles requires SUPABASE_SERVICE_ROLE_KEY' });
+            return;
+        }
+
+        const profiles = await supabaseService.getAnalysisProfiles(true, config.supabaseServiceRoleKey);
+        res.status(200).json({ profiles });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error listing analysis profiles:`, error);
+        res.status(500).json({ error: 'Failed to list analysis profiles' });
+    }
+};
+
+/**
+ * Creates an analysis profile
+ * @param req Request with AnalysisProfileInputDto
+ * @param res Response with the created profile
+ */
+export const createAnalysisProfile = async (req: Request<{}, {}, AnalysisProfileInputDto>, res: Response): Promise<void> => {
+    try {
+        if (!config.supabaseServiceRoleKey) {
+            res.status(503).json({ error: 'Managing analysis profiles requires SUPABASE_SERVICE_ROLE_KEY' });
+            return;
+        }
+
+        const profile = await supabaseService.createAnalysisProfile(toProfileInput(req.body), config.supabaseServiceRoleKey);
+        if (!profile) {
+            res.status(500).json({ error: 'Failed to create the analysis profile, the name may already be taken' });
+            return;
+        }
+
+        auditProfileChange(req, `Created analysis profile ${profile.name} (${profile.id})`);
+        console.log(`[CONTROLLER] Created analysis profile ${profile.id}`);
+        res.status(201).json(profile);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error creating analysis profile:`, error);
+        res.status(500).json({ error: 'Failed to create the analysis profile' });
+    }
+};
+
+/**
+ * Replaces an analysis profile. Analyses already run keep their results.
+ * @param req Request with profileId path parameter and AnalysisProfileInputDto
+ * @param res Response with the updated profile
+ */
+export const updateAnalysisProfile = async (req: Request<{ profileId: string }, {}, AnalysisProfileInputDto>, res: Response): Promise<void> => {
+    try {
+        if (!config.supabaseServiceRoleKey) {
+            res.status(503).json({ error: 'Managing analysis profiles requires SUPABASE_SERVICE_ROLE_KEY' });
+            return;
+        }
+
+        const profile = await supabaseService.updateAnalysisProfile(req.params.profileId, toProfileInput(req.body), config.supabaseServiceRoleKey);
+        if (!profile) {
+            res.status(404).json({ error: `Analysis profile ${req.params.profileId} not found` });
+            return;
+        }
+
+        auditProfileChange(req, `Updated analysis profile ${profile.name} (${profile.id})`);
+        console.log(`[CONTROLLER] Updated analysis profile ${profile.id}`);
+        res.status(200).json(profile);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error updating analysis profile:`, error);
+        res.status(500).json({ error: 'Failed to update the analysis profile' });
+    }
+};
+
+/**
+ * Deletes an analysis profile. Stored analyses keep their results without the profile reference;
+ * set isActive to false instead to keep the reference.
+ * @param req Request with profileId path parameter
+ * @param res Empty response
+ */
+export const deleteAnalysisProfile = async (req: Request<{ profileId: string }>, res: Response): Promise<void> => {
+    try {
+        if (!config.supabaseServiceRoleKey) {
+            res.status(503).json({ error: 'Managing analysis profiles requires SUPABASE_SERVICE_ROLE_KEY' });
+            return;
+        }
+
+        const deleted = await supabaseService.deleteAnalysisProfile(req.params.profileId, config.supabaseServiceRoleKey);
+        if (!deleted) {
+            res.status(404).json({ error: `Analysis profile ${req.params.profileId} not found` });
+            return;
+        }
+
+        auditProfileChange(req, `Deleted analysis profile ${req.params.profileId}`);
+        console.log(`[CONTROLLER] Deleted analysis profile ${req.params.profileId}`);
+        res.status(204).send();
+    } catch (error) {
+        console.error(`[CONTROLLER] Error deleting analysis profile:`, error);
+        res.status(500).json({ error: 'Failed to delete the analysis profile' });
+    }
+};
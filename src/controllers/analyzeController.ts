@@ -1,14 +1,67 @@
 import { Request, Response } from 'express';
+import { GenerateContentResponse } from '@google/genai';
 import geminiService from '../services/gemini.service';
 import supabaseService from '../services/supabase.service';
 import { AnalyzeRequestDto } from '../dto/analyze.dto';
-import { Annotation, AnnotationLevel } from '../dto/document.dto';
-import path from 'path';
+import documentService from '../services/document.service';
+import { Annotation, AnnotationLevel, Document } from '../dto/document.dto';
+import { analysisResultSchema } from '../utils/schemas';
+import { requestStructuredOutput, streamStructuredArray, StructuredOutputError } from '../utils/structuredOutput';
+import geminiProvider from '../services/providers/gemini.provider';
+import providerRegistry from '../services/providers/provider.registry';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaReservation } from '../dto/quota.dto';
+import { sendQuotaExceeded, setQuotaHeaders } from '../middleware/quota.middleware';
+import { estimateTokens, EXPECTED_COMPLETION_TOKENS, INLINE_FILE_TOKENS } from '../utils/tokenEstimate';
+import analysisProfileService, { AnalysisProfileNotFoundError } from '../services/analysisProfile.service';
+import { AnalysisProfile } from '../dto/analysisProfile.dto';
+import { promptVersion } from '../utils/promptTemplate';
+import { getPrompts } from '../utils/promptSets';
+import { getAnalysisStreamFormat, initAnalysisStream, sendAnalysisEvent } from '../utils/analysisStream';
+import { ProviderStreamEvent, ProviderUsage } from '../services/providers/chatProvider';
+import { localizeError } from '../middleware/language.middleware';
 
+/**
+ * Converts Gemini response chunks to provider stream events. Gemini reports cumulative usage
+ * on every chunk, so only the final value is emitted.
+ */
+async function* toStreamEvents(chunks: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<ProviderStreamEvent> {
+  let lastUsage: ProviderUsage | undefined;
+  for await (const chunk of chunks) {
+    lastUsage = geminiProvider.toUsage(chunk.usageMetadata) ?? lastUsage;
+    if (chunk.text) {
+      yield { type: 'delta', content: chunk.text };
+    }
+  }
+  if (lastUsage) {
+    yield { type: 'usage', usage: lastUsage };
+  }
+}
 
+/**
+ * Keeps the fields of an annotation that /analyze returns and stores. The file is sent to the model
+ * inline without OCR, so there are no pages an anchor could be verified against and annotations
+ * of this route carry no anchor.
+ */
+const toInlineAnnotation = ({ level, description, metadata }: Annotation): Annotation => ({
+  level: level as AnnotationLevel,
+  description,
+  metadata
+});
+
+/**
+ * Analyzes a stored file with Gemini and stores the annotations on its document.
+ * Clients sending `Accept: text/event-stream` or `Accept: application/x-ndjson` receive each
+ * annotation as soon as the model has written it; the complete set is stored at the end.
+ * The route is Gemini-only because the file is sent to the model inline, so only the Gemini
+ * model can be chosen; /mistral/chat/:chatId/analyze works with every provider and returns anchored annotations.
+ * @param req Request with AnalyzeRequestDto (prompt, filePath, model?, profileId?)
+ * @param res Response with the stored analysis, or the annotation stream
+ */
 export const analyzeDocument = async (req: Request<{}, {}, AnalyzeRequestDto>, res: Response): Promise<void> => {
   try {
-    const { prompt, filePath } = req.body;
+    const { prompt, filePath, profileId } = req.body;
+    const { provider, model } = providerRegistry.resolve(geminiProvider.name, req.body.model);
 
     if (!prompt || !filePath) {
       res.status(400).json({ error: 'prompt and filePath are required' });
@@ -31,73 +84,191 @@ export const analyzeDocument = async (req: Request<{}, {}, AnalyzeRequestDto>, r
     const userId = req.user.id;
     console.log(`User ${userId} is analyzing document: ${filePath}`);
 
-    const file = await supabaseService.getFileData(filePath, jwt);
+    let profile: AnalysisProfile | undefined;
+    if (profileId) {
+      try {
+        profile = await analysisProfileService.getActiveProfile(profileId, jwt);
+      } catch (profileError) {
+        if (profileError instanceof AnalysisProfileNotFoundError) {
+          res.status(404).json({ error: profileError.message });
+          return;
+        }
+        throw profileError;
+      }
 
-    const response = await geminiService.generateAnnotations(prompt, file.data, file.mimeType);
+      // Results of this route are stored as document annotations
+      if (!analysisProfileService.producesAnnotations(profile)) {
+        res.status(400).json({ error: `Analysis profile ${profileId} has a custom output schema, use /mistral/chat/:chatId/analyze instead` });
+        return;
+      }
+    }
 
-    if (response.candidates &&
-      response.candidates[0]?.content?.parts &&
-      response.candidates[0].content.parts[0]?.text) {
-      const text = response.candidates[0].content.parts[0].text;
+    // Insert the user's input into the profile's or the default instructions, in the requested language
+    const prompts = getPrompts(req.language);
+    const profilePrompt = profile ? analysisProfileService.buildSystemPrompt(profile, req.language) : undefined;
+    const analysisPrompt = `${profilePrompt
+      ? prompts.analysisProfileRequestPrompt.render({ instructions: profilePrompt.text, userPrompt: prompt })
+      : prompts.inlineAnalysisPrompt.render({ userPrompt: prompt })}\n\n${prompts.responseLanguagePrompt.render({})}`;
+    const analysisPromptVersion = profilePrompt
+      ? `${promptVersion(prompts.analysisProfileRequestPrompt)},${profilePrompt.promptVersion},${promptVersion(prompts.responseLanguagePrompt)}`
+      : promptVersion(prompts.inlineAnalysisPrompt, prompts.responseLanguagePrompt);
 
-      let annotations: Annotation[] = [];
-      try {
-        const jsonMatch = text.match(/```(?:json)?([\s\S]*?)```/);
-        const jsonString = jsonMatch ? jsonMatch[1].trim() : text.trim();
-        annotations = JSON.parse(jsonString);
+    const file = await supabaseService.getFileData(filePath, jwt);
 
-        if (!Array.isArray(annotations)) {
-          throw new Error('Annotations must be an array');
-        }
+    let document: Document;
+    try {
+      document = await documentService.ensureDocument(userId, filePath, jwt);
+    } catch (documentError) {
+      console.error('Error registering document:', documentError);
+      res.status(500).json({ error: 'Failed to create document record' });
+      return;
+    }
+
+    const usageDetails = { provider: provider.name, model, documentIds: [document.id!] };
 
-        annotations = annotations.map(annotation => ({
-          level: annotation.level as AnnotationLevel,
-          description: annotation.description,
-          metadata: annotation.metadata
-        }));
-      } catch (parseError) {
-        console.error('Error parsing annotations:', parseError);
-        res.status(400).json({ error: 'Failed to parse annotations from response' });
+    // Reserve the estimated cost against the user's token budget
+    let reservation: QuotaReservation;
+    try {
+      const estimatedTokens = estimateTokens(analysisPrompt) + INLINE_FILE_TOKENS + EXPECTED_COMPLETION_TOKENS.analysis;
+      const quota = await quotaService.reserve(req.user, 'analysis', estimatedTokens, jwt);
+      reservation = quota.reservation;
+      setQuotaHeaders(res, quota.status);
+    } catch (quotaError) {
+      if (quotaError instanceof QuotaExceededError) {
+        sendQuotaExceeded(res, quotaError);
         return;
       }
+      throw quotaError;
+    }
 
-      const fileName = path.basename(filePath);
-      const document = await supabaseService.createDocument(
-        {
-          userId,
-          filePath,
-          fileName
-        },
-        jwt
-      );
+    // Streamed analysis: annotations are sent as soon as the model has written them
+    const streamFormat = getAnalysisStreamFormat(req);
+    if (streamFormat) {
+      initAnalysisStream(res, streamFormat);
 
-      if (!document) {
-        res.status(500).json({ error: 'Failed to create document record' });
-        return;
+      let annotationCount = 0;
+      try {
+        const chunks = await geminiService.generateAnnotationsStream(analysisPrompt, file.data, file.mimeType, model);
+        const { items, skipped, usage } = await streamStructuredArray<Annotation>(
+          toStreamEvents(chunks),
+          analysisResultSchema,
+          (annotation, index) => {
+            annotationCount++;
+            sendAnalysisEvent(res, streamFormat, 'annotation', {
+              index,
+              annotation: toInlineAnnotation(annotation)
+            });
+          },
+          { label: `${provider.name}/${model} document annotations` }
+        );
+
+        await quotaService.settle(reservation, usage, usageDetails);
+        if (usage) {
+          sendAnalysisEvent(res, streamFormat, 'usage', usage);
+        }
+
+        const documentAnnotations = await supabaseService.createDocumentAnnotations(
+          {
+            documentId: document.id!,
+            annotations: items.map(toInlineAnnotation),
+            profileId: profile?.id ?? null,
+            promptVersion: analysisPromptVersion
+          },
+          jwt
+        );
+        if (!documentAnnotations) {
+          sendAnalysisEvent(res, streamFormat, 'error', { message: localizeError('Failed to store document annotations', req.language) });
+        } else {
+          sendAnalysisEvent(res, streamFormat, 'done', {
+            recordId: documentAnnotations.id ?? null,
+            count: items.length,
+            skipped,
+            documentId: document.id,
+            profileId: profile?.id ?? null,
+            promptVersion: analysisPromptVersion
+          });
+        }
+      } catch (error) {
+        if (error instanceof StructuredOutputError) {
+          console.error(`Streamed annotations invalid after ${annotationCount} annotation(s):`, error.errors);
+          await quotaService.settle(reservation, error.usage, usageDetails);
+          sendAnalysisEvent(res, streamFormat, 'error', {
+            message: localizeError('The model did not return valid annotations', req.language),
+            details: error.errors
+          });
+        } else {
+          console.error('Error streaming annotations:', error);
+          quotaService.release(reservation);
+          sendAnalysisEvent(res, streamFormat, 'error', { message: localizeError('Failed to analyze the document', req.language) });
+        }
       }
+      res.end();
+      return;
+    }
 
-      const documentAnnotations = await supabaseService.createDocumentAnnotations(
-        {
-          documentId: document.id!,
-          annotations
+    let response: GenerateContentResponse | undefined;
+    let annotations: Annotation[];
+    try {
+      const { data, usage } = await requestStructuredOutput<Annotation[]>(
+        async followUp => {
+          response = await geminiService.generateAnnotations(
+            analysisPrompt,
+            file.data,
+            file.mimeType,
+            followUp.map(message => ({
+              role: message.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: typeof message.content === 'string' ? message.content : '' }]
+            })),
+            model
+          );
+          return { content: response.text ?? '', usage: geminiProvider.toUsage(response.usageMetadata) };
         },
-        jwt
+        analysisResultSchema,
+        { label: `${provider.name}/${model} document annotations`, language: req.language }
       );
 
-      if (!documentAnnotations) {
-        res.status(500).json({ error: 'Failed to store document annotations' });
-        return;
+      await quotaService.settle(reservation, usage, usageDetails);
+
+      annotations = data.map(toInlineAnnotation);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        quotaService.release(reservation);
+        throw error;
       }
 
-      res.json({
-        modelVersion: response.modelVersion,
-        promptFeedback: response.promptFeedback,
-        documentId: document.id,
-        document: document
+      console.error('Invalid annotations after all repair attempts:', error.errors);
+      await quotaService.settle(reservation, error.usage, usageDetails);
+      res.status(502).json({
+        error: 'The model did not return valid annotations',
+        details: error.errors,
+        attempts: error.attempts
       });
-    } else {
-      res.status(404).json({ error: 'No valid response generated' });
+      return;
     }
+
+    const documentAnnotations = await supabaseService.createDocumentAnnotations(
+      {
+        documentId: document.id!,
+        annotations,
+        profileId: profile?.id ?? null,
+        promptVersion: analysisPromptVersion
+      },
+      jwt
+    );
+
+    if (!documentAnnotations) {
+      res.status(500).json({ error: 'Failed to store document annotations' });
+      return;
+    }
+
+    res.json({
+      modelVersion: response?.modelVersion,
+      promptFeedback: response?.promptFeedback,
+      documentId: document.id,
+      document: document,
+      profileId: profile?.id ?? null,
+      promptVersion: analysisPromptVersion
+    });
   } catch (error) {
     console.error('Error analyzing document:', error);
     res.status(500).json({ error: 'Failed to analyze the document' });
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import apiKeyService from '../services/apiKey.service';
+import auditService from '../services/audit.service';
+import rbacService from '../services/rbac.service';
+import supabaseService from '../services/supabase.service';
+import { CreateApiKeyRequestDto } from '../dto/apiKey.dto';
+
+/**
+ * Resolves the JWT and user ID from the request, responding with 401 if either is missing.
+ */
+const getAuthContext = (req: Request<any, any, any, any>, res: Response): { jwt: string, userId: string } | null => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+        return null;
+    }
+    const jwt = authHeader.split(' ')[1];
+
+    if (!req.user || !req.user.id) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return null;
+    }
+
+    return { jwt, userId: req.user.id };
+};
+
+/**
+ * Creates an API key for the authenticated user. The key is only returned in this response.
+ * @param req Request with name, optional scopes and optional expiresInDays
+ * @param res Response with the key metadata and the key
+ */
+export const createApiKey = async (req: Request<{}, {}, CreateApiKeyRequestDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        if (!apiKeyService.enabled) {
+            res.status(503).json({ error: 'API keys require SUPABASE_SERVICE_ROLE_KEY and SUPABASE_JWT_SECRET' });
+            return;
+        }
+
+        const { name, scopes, expiresInDays } = req.body;
+        const { apiKey, key } = await apiKeyService.create(
+            auth.userId,
+            name.trim(),
+            scopes && scopes.length > 0 ? scopes : ['*'],
+            expiresInDays
+        );
+
+        auditService.record({
+            event: 'api_key_created',
+            userId: auth.userId,
+            role: rbacService.getRole(req.user!),
+            method: req.method,
+            path: req.originalUrl,
+            reason: `Created API key ${apiKey.prefix} with scopes ${apiKey.scopes.join(', ')}`,
+            required: [],
+            ip: req.ip
+        });
+
+        res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error creating API key:`, error);
+        res.status(500).json({ error: 'Failed to create API key' });
+    }
+};
+
+/**
+ * Lists the API keys of the authenticated user, including revoked and expired keys
+ * @param req Request
+ * @param res Response with key metadata
+ */
+export const listApiKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const apiKeys = await supabaseService.getApiKeysByUserId(auth.userId, auth.jwt);
+        res.status(200).json({ apiKeys });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error listing API keys:`, error);
+        res.status(500).json({ error: 'Failed to list API keys' });
+    }
+};
+
+/**
+ * Revokes an API key of the authenticated user. Requests with the key are rejected immediately.
+ * @param req Request with keyId path parameter
+ * @param res Empty response
+ */
+export const revokeApiKey = async (req: Request<{ keyId: string }>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        if (!apiKeyService.enabled) {
+            res.status(503).json({ error: 'API keys require SUPABASE_SERVICE_ROLE_KEY and SUPABASE_JWT_SECRET' });
+            return;
+        }
+
+        const apiKey = await apiKeyService.revoke(req.params.keyId, auth.userId);
+        if (!apiKey) {
+            res.status(404).json({ error: 'API key not found or already revoked' });
+            return;
+        }
+
+        auditService.record({
+            event: 'api_key_revoked',
+            userId: auth.userId,
+            role: rbacService.getRole(req.user!),
+            method: req.method,
+            path: req.originalUrl,
+            reason: `Revoked API key ${apiKey.prefix}`,
+            required: [],
+            ip: req.ip
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        console.error(`[CONTROLLER] Error revoking API key:`, error);
+        res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+};
@@ -1,22 +1,40 @@
 import { Request, Response } from 'express';
 import geminiService from '../services/gemini.service';
+import providerRegistry from '../services/providers/provider.registry';
 import supabaseService from '../services/supabase.service';
 import { AssistantChatRequestDto, Content } from '../dto/chat.dto';
 import { randomUUID } from 'crypto';
+import { wantsEventStream, initEventStream, sendEvent, StreamUsage } from '../utils/sse';
+import geminiProvider from '../services/providers/gemini.provider';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaReservation } from '../dto/quota.dto';
+import { sendQuotaExceeded, setQuotaHeaders } from '../middleware/quota.middleware';
+import { estimateTokens, EXPECTED_COMPLETION_TOKENS, INLINE_FILE_TOKENS } from '../utils/tokenEstimate';
+import { exposeHeaders } from '../utils/http';
+import { localizeError } from '../middleware/language.middleware';
 
 /**
- * Stream a chat session with the assistant, using Supabase for chat history persistence
+ * Stream a chat session with the assistant, using Supabase for chat history persistence.
+ * Clients sending `Accept: text/event-stream` receive typed SSE events instead of plain text.
+ * The assistant is Gemini-only: its history is stored in Gemini's format and files are sent
+ * inline, so only the Gemini model can be chosen.
  * @param req Request with AssistantChatRequestDto
  * @param res Response to stream content back to the client
  */
 export const streamAssistantChat = async (req: Request<{}, {}, AssistantChatRequestDto>, res: Response): Promise<void> => {
+    const useEventStream = wantsEventStream(req);
+    let reservation: QuotaReservation | undefined; // Budget held until the actual usage is known
+
     try {
         const { userMessage, chatSessionId, filePaths } = req.body;
+        const { provider, model } = providerRegistry.resolve(geminiProvider.name, req.body.model);
 
         // Setup response headers
-        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-        res.setHeader('Transfer-Encoding', 'chunked');
-        res.setHeader('Access-Control-Expose-Headers', 'X-Chat-Id');
+        if (!useEventStream) {
+            res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+            res.setHeader('Transfer-Encoding', 'chunked');
+        }
+        exposeHeaders(res, 'X-Chat-Id');
 
         const authHeader = req.headers.authorization;
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -71,12 +89,34 @@ export const streamAssistantChat = async (req: Request<{}, {}, AssistantChatRequ
 
 
 
+        // Reserve the estimated cost of this turn against the user's token budget
+        try {
+            const historyText = history
+                .flatMap(content => content.parts ?? [])
+                .map(part => part.text ?? '')
+                .join('');
+            const estimatedTokens = estimateTokens(historyText + userMessage)
+                + INLINE_FILE_TOKENS * (filePaths?.length ?? 0)
+                + EXPECTED_COMPLETION_TOKENS.chat;
+            const quota = await quotaService.reserve(req.user, 'chat', estimatedTokens, jwt);
+            reservation = quota.reservation;
+            setQuotaHeaders(res, quota.status);
+        } catch (quotaError) {
+            if (quotaError instanceof QuotaExceededError) {
+                sendQuotaExceeded(res, quotaError);
+                return;
+            }
+            throw quotaError;
+        }
+
         const newChatId = randomUUID()
-        if (chatSessionId) {
-            // Send the chat ID back via a custom header
-            res.setHeader('X-Chat-Id', chatSessionId);
-        } else {
-            res.setHeader('X-Chat-Id', newChatId);
+        const responseChatId = chatSessionId || newChatId;
+        // Send the chat ID back via a custom header
+        res.setHeader('X-Chat-Id', responseChatId);
+
+        if (useEventStream) {
+            initEventStream(res);
+            sendEvent(res, 'session', { chatId: responseChatId });
         }
 
         // Send the message to Gemini
@@ -84,21 +124,38 @@ export const streamAssistantChat = async (req: Request<{}, {}, AssistantChatRequ
             userMessage,
             history,
             filePaths,
-            jwt
+            jwt,
+            req.language,
+            model
         );
 
         // Variable to collect the model's response for saving to history
         let modelResponseText = '';
+        let tokenUsage: StreamUsage | undefined;
 
         // Stream the response back to the client
         for await (const chunk of stream) {
+            // Gemini reports cumulative usage metadata, the last chunk holds the final counts
+            tokenUsage = geminiProvider.toUsage(chunk.usageMetadata) ?? tokenUsage;
+
             if (chunk.candidates &&
                 chunk.candidates[0]?.content?.parts &&
                 chunk.candidates[0].content.parts[0]?.text) {
                 const text = chunk.candidates[0].content.parts[0].text;
                 modelResponseText += text;
-                res.write(text);
+                if (useEventStream) {
+                    sendEvent(res, 'delta', { content: text });
+                } else {
+                    res.write(text);
+                }
+            }
+        }
+
+        if (useEventStream) {
+            if (tokenUsage) {
+                sendEvent(res, 'usage', tokenUsage);
             }
+            sendEvent(res, 'done', { chatId: responseChatId });
         }
 
 
@@ -116,13 +173,27 @@ export const streamAssistantChat = async (req: Request<{}, {}, AssistantChatRequ
         }
 
         res.end();
+
+        // Settle the reservation against the actual usage
+        await quotaService.settle(reservation, tokenUsage, {
+            provider: provider.name,
+            model,
+            sessionId: responseChatId
+        });
+        reservation = undefined;
     } catch (error) {
         console.error('Error processing assistant chat stream:', error);
+        if (reservation) {
+            quotaService.release(reservation);
+        }
         if (!res.headersSent) {
             res.status(500).json({ error: 'Failed to process the assistant chat request' });
             return;
         }
         if (!res.writableEnded) {
+            if (useEventStream) {
+                sendEvent(res, 'error', { message: localizeError('Failed to process the assistant chat request', req.language) });
+            }
             res.end();
         }
     }
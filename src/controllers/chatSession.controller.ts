@@ -0,0 +1,287 @@
+import { Request, Response } from 'express';
+import supabaseService, { ChatSessionConflictError } from '../services/supabase.service';
+import documentService from '../services/document.service';
+import {
+    ChatBranchMessageDto,
+    ChatDocumentMetadataDto,
+    ChatSessionDetailDto,
+    ChatSessionDto,
+    ListChatSessionsQueryDto,
+    SwitchChatBranchRequestDto,
+    UpdateChatSessionRequestDto
+} from '../dto/chat.dto';
+import { OCRResponse } from '../dto/ocr.dto';
+import { DocumentWithOcrSummary } from '../dto/document.dto';
+import { findLatestLeaf, getActiveLeafId, getBranch, getBranchInfo, normalizeMessages } from '../utils/messageTree';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Resolves the JWT and user ID from the request, responding with 401 if either is missing.
+ */
+const getAuthContext = (req: Request<any, any, any, any>, res: Response): { jwt: string, userId: string } | null => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+        return null;
+    }
+    const jwt = authHeader.split(' ')[1];
+
+    if (!req.user || !req.user.id) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return null;
+    }
+
+    return { jwt, userId: req.user.id };
+};
+
+/**
+ * Loads a chat session and ensures it belongs to the user, responding with 404/403 otherwise.
+ */
+const getOwnedChatSession = async (
+    chatId: string,
+    userId: string,
+    jwt: string,
+    res: Response
+): Promise<ChatSessionDto | null> => {
+    const chatSession = await supabaseService.getChatSessionById(chatId, jwt);
+    if (!chatSession) {
+        console.log(`[CONTROLLER] Chat session ${chatId} not found`);
+        res.status(404).json({ error: `Chat session with ID ${chatId} not found` });
+        return null;
+    }
+
+    if (chatSession.userId !== userId) {
+        console.log(`[CONTROLLER] Access denied: User ${userId} does not own chat ${chatId}`);
+        res.status(403).json({ error: 'Unauthorized: You do not have access to this chat session' });
+        return null;
+    }
+
+    return chatSession;
+};
+
+/**
+ * Gets the messages of the session's active branch, each with the alternatives sharing its parent.
+ */
+const getActiveBranch = (session: ChatSessionDto): { activeMessageId: string | null, messages: ChatBranchMessageDto[] } => {
+    const messages = normalizeMessages(session.messages);
+    const activeMessageId = getActiveLeafId(messages, session.activeMessageId);
+    const branch = getBranch(messages, activeMessageId).map(message => {
+        const { siblingIds, index } = getBranchInfo(messages, message);
+        return { ...message, siblingIds, siblingIndex: index };
+    });
+    return { activeMessageId, messages: branch };
+};
+
+/**
+ * Strips pages and images from a legacy embedded OCR result, keeping only what the client needs to list documents.
+ */
+const toDocumentMetadata = (document: OCRResponse): ChatDocumentMetadataDto => ({
+    documentId: null,
+    fileName: document.fileName ?? null,
+    mimeType: null,
+    ocrStatus: 'completed',
+    model: document.model,
+    pageCount: Array.isArray(document.pages) ? document.pages.length : 0,
+    pagesProcessed: document.usageInfo?.pagesProcessed ?? 0,
+    docSizeBytes: document.usageInfo?.docSizeBytes ?? null
+});
+
+/**
+ * Builds the metadata of a registry document linked to the session.
+ */
+const toRegistryDocumentMetadata = (document: DocumentWithOcrSummary): ChatDocumentMetadataDto => ({
+    documentId: document.id ?? null,
+    fileName: document.fileName,
+    mimeType: document.mimeType ?? null,
+    ocrStatus: document.ocrStatus ?? 'pending',
+    model: document.ocrModel,
+    pageCount: document.pageCount ?? 0,
+    pagesProcessed: document.ocrPagesProcessed,
+    docSizeBytes: document.ocrDocSizeBytes
+});
+
+/**
+ * Lists the user's chat sessions, most recently updated first.
+ * @param req Request with optional limit/offset query parameters
+ * @param res Response with session summaries and pagination info
+ */
+export const listChatSessions = async (req: Request<{}, {}, {}, ListChatSessionsQueryDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit, 10), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+        const offset = req.query.offset ? parseInt(req.query.offset, 10) : 0;
+
+        const { sessions, total } = await supabaseService.getChatSessionsByUserId(auth.userId, limit, offset, auth.jwt);
+
+        res.status(200).json({
+            chats: sessions,
+            pagination: {
+                limit,
+                offset,
+                total
+            }
+        });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error listing chat sessions:`, error);
+        res.status(500).json({ error: 'Failed to list chat sessions' });
+    }
+};
+
+/**
+ * Gets a single chat session with the messages of its active branch and document metadata (without OCR pages).
+ * @param req Request with chatId path parameter
+ * @param res Response with the chat session
+ */
+export const getChatSession = async (req: Request<{ chatId: string }>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const chatSession = await getOwnedChatSession(req.params.chatId, auth.userId, auth.jwt, res);
+        if (!chatSession) {
+            return;
+        }
+
+        const { documents, legacyDocuments } = await documentService.getSessionDocumentSummaries(chatSession, auth.jwt);
+        const { activeMessageId, messages } = getActiveBranch(chatSession);
+
+        const detail: ChatSessionDetailDto = {
+            id: chatSession.id,
+            title: chatSession.title ?? null,
+            activeMessageId,
+            messages,
+            documents: [
+                ...legacyDocuments.map(toDocumentMetadata),
+                ...documents.map(toRegistryDocumentMetadata)
+            ],
+            createdAt: chatSession.createdAt,
+            updatedAt: chatSession.updatedAt
+        };
+
+        res.status(200).json(detail);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting chat session:`, error);
+        res.status(500).json({ error: 'Failed to get the chat session' });
+    }
+};
+
+/**
+ * Renames a chat session.
+ * @param req Request with chatId path parameter and UpdateChatSessionRequestDto body
+ * @param res Response with the updated session summary
+ */
+export const renameChatSession = async (req: Request<{ chatId: string }, {}, UpdateChatSessionRequestDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const chatSession = await getOwnedChatSession(req.params.chatId, auth.userId, auth.jwt, res);
+        if (!chatSession) {
+            return;
+        }
+
+        const updatedSession = await supabaseService.updateChatSessionTitle(chatSession.id, req.body.title.trim(), auth.jwt);
+        if (!updatedSession) {
+            res.status(500).json({ error: 'Failed to rename the chat session' });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Renamed chat session ${updatedSession.id}`);
+        res.status(200).json({
+            id: updatedSession.id,
+            title: updatedSession.title ?? null,
+            updatedAt: updatedSession.updatedAt
+        });
+    } catch (error) {
+        if (error instanceof ChatSessionConflictError) {
+            res.status(409).json({ error: 'The chat session was changed by another request, please try again' });
+            return;
+        }
+        console.error(`[CONTROLLER] Error renaming chat session:`, error);
+        res.status(500).json({ error: 'Failed to rename the chat session' });
+    }
+};
+
+/**
+ * Switches the active branch of a chat session. The branch runs through the given message and
+ * continues with its most recent descendants.
+ * @param req Request with chatId path parameter and SwitchChatBranchRequestDto body
+ * @param res Response with the messages of the new active branch
+ */
+export const switchChatBranch = async (req: Request<{ chatId: string }, {}, SwitchChatBranchRequestDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const chatSession = await getOwnedChatSession(req.params.chatId, auth.userId, auth.jwt, res);
+        if (!chatSession) {
+            return;
+        }
+
+        const { messageId } = req.body;
+        const messages = normalizeMessages(chatSession.messages);
+        if (!messages.some(message => message.id === messageId)) {
+            res.status(404).json({ error: `Message with ID ${messageId} not found` });
+            return;
+        }
+
+        const updatedSession = await supabaseService.updateChatSessionActiveMessage(chatSession.id, findLatestLeaf(messages, messageId), auth.jwt);
+        if (!updatedSession) {
+            res.status(500).json({ error: 'Failed to switch the chat branch' });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Switched chat session ${updatedSession.id} to message ${updatedSession.activeMessageId}`);
+        res.status(200).json({ id: updatedSession.id, ...getActiveBranch(updatedSession), updatedAt: updatedSession.updatedAt });
+    } catch (error) {
+        if (error instanceof ChatSessionConflictError) {
+            res.status(409).json({ error: 'The chat session was changed by another request, please try again' });
+            return;
+        }
+        console.error(`[CONTROLLER] Error switching chat branch:`, error);
+        res.status(500).json({ error: 'Failed to switch the chat branch' });
+    }
+};
+
+/**
+ * Deletes a chat session together with its analyses.
+ * @param req Request with chatId path parameter
+ * @param res Empty 204 response on success
+ */
+export const deleteChatSession = async (req: Request<{ chatId: string }>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const chatSession = await getOwnedChatSession(req.params.chatId, auth.userId, auth.jwt, res);
+        if (!chatSession) {
+            return;
+        }
+
+        const deleted = await supabaseService.deleteChatSession(chatSession.id, auth.jwt);
+        if (!deleted) {
+            res.status(500).json({ error: 'Failed to delete the chat session' });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Deleted chat session ${chatSession.id}`);
+        res.status(204).end();
+    } catch (error) {
+        console.error(`[CONTROLLER] Error deleting chat session:`, error);
+        res.status(500).json({ error: 'Failed to delete the chat session' });
+    }
+};
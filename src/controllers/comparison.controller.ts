@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import documentService from '../services/document.service';
+import supabaseService from '../services/supabase.service';
+import providerRegistry from '../services/providers/provider.registry';
+import { ModelLimits, ProviderJsonCompletion, ProviderUsage } from '../services/providers/chatProvider';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaReservation } from '../dto/quota.dto';
+import { MistralMessage } from '../dto/chat.dto';
+import { ClauseChange, CompareRequestDto } from '../dto/comparison.dto';
+import { sendQuotaExceeded, setQuotaHeaders } from '../middleware/quota.middleware';
+import { getPrompts, PromptSet, renderLanguageInstructions } from '../utils/promptSets';
+import { promptVersion } from '../utils/promptTemplate';
+import { clauseAssessmentsSchema } from '../utils/schemas';
+import { alignSections, splitSections } from '../utils/sectionDiff';
+import { StructuredOutputError } from '../utils/structuredOutput';
+import { AnnotationLevel } from '../utils/types';
+import { estimatePromptTokens, EXPECTED_COMPLETION_TOKENS } from '../utils/tokenEstimate';
+import { ContextBudgetError, contextRoom, fitTexts } from '../utils/contextBudget';
+
+/**
+ * Legal assessment of one change as returned by the model
+ */
+interface ClauseAssessment {
+    changeId: string;
+    level: AnnotationLevel;
+    description: string;
+    metadata: string;
+}
+
+/**
+ * Formats the changes for the model, each with its ID, headings and both versions of the text
+ * @param changes Changed clauses
+ * @param labels Labels in the language of the prompts
+ */
+const formatChanges = (changes: ClauseChange[], labels: PromptSet['comparisonLabels']): string => changes.map(change => {
+    const heading = change.revisedHeading || change.baseHeading || labels.introduction;
+    const parts = [`[${change.id}] ${labels[change.type]}: ${heading}`];
+    if (change.baseText !== null) {
+        parts.push(`${labels.baseVersion}${change.baseHeading && change.baseHeading !== heading ? ` (${change.baseHeading})` : ''}:\n${change.baseText}`);
+    }
+    if (change.revisedText !== null) {
+        parts.push(`${labels.revisedVersion}:\n${change.revisedText}`);
+    }
+    return parts.join('\n');
+}).join('\n\n');
+
+/**
+ * Shortens the clause texts of the changes so they fit into the model's context window together
+ * with the instructions and the change headings. The stored changes keep their full texts.
+ * @param changes Changed clauses
+ * @param labels Labels in the language of the prompts
+ * @param fixedParts Instructions sent in full
+ * @param limits The model's limits
+ * @returns Copies of the changes with the texts to send
+ * @throws ContextBudgetError if the instructions and headings do not fit on their own
+ */
+const fitChanges = (changes: ClauseChange[], labels: PromptSet['comparisonLabels'], fixedParts: string[], limits: ModelLimits): ClauseChange[] => {
+    const withTexts = (texts: string[]): ClauseChange[] => changes.map((change, index) => ({
+        ...change,
+        baseText: change.baseText === null ? null : texts[2 * index],
+        revisedText: change.revisedText === null ? null : texts[2 * index + 1]
+    }));
+
+    const headings = formatChanges(withTexts(changes.flatMap(() => ['', ''])), labels);
+    const room = contextRoom(limits, EXPECTED_COMPLETION_TOKENS.analysis, [...fixedParts, headings]);
+    return withTexts(fitTexts(changes.flatMap(change => [change.baseText ?? '', change.revisedText ?? '']), room, limits.charsPerToken));
+};
+
+/**
+ * Compares two versions of a contract. Both files are registered and OCR'd, their sections are
+ * aligned clause by clause, and the added, removed and changed clauses are assessed by the model.
+ * The result is stored and can be retrieved with getComparison.
+ * @param req Request with CompareRequestDto (baseFilePath, revisedFilePath, prompt?, provider?, model?)
+ * @param res Response with the changes and their assessments
+ */
+export const compareDocuments = async (req: Request<{}, {}, CompareRequestDto>, res: Response): Promise<void> => {
+    try {
+        const { baseFilePath, revisedFilePath, prompt } = req.body;
+        const { provider, model } = providerRegistry.resolve(req.body.provider, req.body.model);
+
+        // --- Authentication & User ID ---
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+        const userId = req.user.id;
+        // --- End Authentication ---
+
+        console.log(`[CONTROLLER] Comparing ${baseFilePath} with ${revisedFilePath}`);
+
+        const base = await documentService.registerStoredFile(userId, baseFilePath, false, jwt);
+        const revised = await documentService.registerStoredFile(userId, revisedFilePath, false, jwt);
+
+        const alignments = alignSections(splitSections(base.ocr), splitSections(revised.ocr));
+        const changes: ClauseChange[] = alignments
+            .filter(alignment => alignment.type !== 'unchanged')
+            .map((alignment, index) => ({
+                id: `c${index + 1}`,
+                type: alignment.type as ClauseChange['type'],
+                baseHeading: alignment.base?.heading ?? null,
+                revisedHeading: alignment.revised?.heading ?? null,
+                baseText: alignment.base?.text ?? null,
+                revisedText: alignment.revised?.text ?? null,
+                basePageIndex: alignment.base?.pageIndex ?? null,
+                revisedPageIndex: alignment.revised?.pageIndex ?? null,
+                similarity: Math.round(alignment.similarity * 100) / 100,
+                assessment: null
+            }));
+        const unchangedCount = alignments.length - changes.length;
+
+        console.log(`[CONTROLLER] Found ${changes.length} changed and ${unchangedCount} unchanged sections`);
+
+        let tokenUsage: ProviderUsage | undefined;
+        let comparisonPromptVersion: string | null = null;
+        if (changes.length > 0) {
+            const { comparisonLabels, comparisonUserInstructionsPrompt, contractComparisonPrompt } = getPrompts(req.language);
+            const languageInstructions = renderLanguageInstructions(req.language, [base.document.language, revised.document.language]);
+            const systemContent = `${contractComparisonPrompt.render({})}\n\n${languageInstructions.text}`;
+            const userInstructions = prompt ? `\n\n${comparisonUserInstructionsPrompt.render({ prompt })}` : '';
+
+            // Clause texts share what the instructions leave of the context window, long clauses are shortened
+            const limits = provider.modelLimits[model];
+            let promptChanges: ClauseChange[];
+            try {
+                promptChanges = fitChanges(changes, comparisonLabels, [systemContent, userInstructions], limits);
+            } catch (budgetError) {
+                if (!(budgetError instanceof ContextBudgetError)) {
+                    throw budgetError;
+                }
+                res.status(400).json({ error: budgetError.message });
+                return;
+            }
+            if (promptChanges.some((change, index) => change.baseText !== changes[index].baseText || change.revisedText !== changes[index].revisedText)) {
+                console.log(`[CONTROLLER] Clause texts exceed the budget of ${model} and were shortened`);
+            }
+
+            const userContent = `${formatChanges(promptChanges, comparisonLabels)}${userInstructions}`;
+            comparisonPromptVersion = [
+                promptVersion(contractComparisonPrompt),
+                languageInstructions.promptVersion,
+                ...(prompt ? [promptVersion(comparisonUserInstructionsPrompt)] : [])
+            ].join(',');
+            const messages: MistralMessage[] = [
+                { role: 'system', content: systemContent },
+                { role: 'user', content: userContent }
+            ];
+            const usageDetails = { provider: provider.name, model, documentIds: [base.document.id!, revised.document.id!] };
+
+            // Reserve the estimated cost of the assessment against the user's token budget
+            let reservation: QuotaReservation;
+            try {
+                const estimatedTokens = estimatePromptTokens(messages, [], limits.charsPerToken) + EXPECTED_COMPLETION_TOKENS.analysis;
+                const quota = await quotaService.reserve(req.user, 'analysis', estimatedTokens, jwt);
+                reservation = quota.reservation;
+                setQuotaHeaders(res, quota.status);
+            } catch (quotaError) {
+                if (quotaError instanceof QuotaExceededError) {
+                    sendQuotaExceeded(res, quotaError);
+                    return;
+                }
+                throw quotaError;
+            }
+
+            let response: ProviderJsonCompletion<ClauseAssessment[]>;
+            try {
+                console.log(`[CONTROLLER] Requesting ${provider.name}/${model} assessment of ${changes.length} changes`);
+                response = await provider.completeJson<ClauseAssessment[]>(messages, clauseAssessmentsSchema, { model, language: req.language });
+            } catch (error) {
+                if (!(error instanceof StructuredOutputError)) {
+                    quotaService.release(reservation);
+                    throw error;
+                }
+
+                console.error(`[CONTROLLER] Invalid change assessment after ${error.attempts} attempt(s):`, error.errors);
+                await quotaService.settle(reservation, error.usage, usageDetails);
+                res.status(502).json({
+                    error: 'The model did not return a valid assessment',
+                    details: error.errors,
+                    attempts: error.attempts
+                });
+                return;
+            }
+
+            tokenUsage = response.usage;
+            await quotaService.settle(reservation, tokenUsage, usageDetails);
+
+            const assessments = new Map(response.result.map(assessment => [assessment.changeId, assessment]));
+            changes.forEach(change => {
+                const assessment = assessments.get(change.id);
+                if (assessment) {
+                    change.assessment = { level: assessment.level, description: assessment.description, metadata: assessment.metadata };
+                }
+            });
+
+            const missing = changes.filter(change => !change.assessment).length;
+            if (missing > 0) {
+                console.warn(`[CONTROLLER] ${missing} change(s) were not assessed by the model`);
+            }
+        }
+
+        const comparison = await supabaseService.createDocumentComparison({
+            userId,
+            baseDocumentId: base.document.id!,
+            revisedDocumentId: revised.document.id!,
+            prompt: prompt || 'Standard contract comparison',
+            changes,
+            unchangedCount,
+            provider: provider.name,
+            model,
+            tokenUsage,
+            promptVersion: comparisonPromptVersion
+        }, jwt);
+
+        if (!comparison) {
+            // Even if DB storage fails, still return the comparison to the user
+            console.error(`[CONTROLLER] Failed to store comparison in database`);
+        } else {
+            console.log(`[CONTROLLER] Comparison saved with ID: ${comparison.id}`);
+        }
+
+        res.status(200).json({
+            recordId: comparison?.id || null,
+            timestamp: new Date().toISOString(),
+            baseDocumentId: base.document.id,
+            revisedDocumentId: revised.document.id,
+            summary: {
+                added: changes.filter(change => change.type === 'added').length,
+                removed: changes.filter(change => change.type === 'removed').length,
+                changed: changes.filter(change => change.type === 'changed').length,
+                unchanged: unchangedCount
+            },
+            changes,
+            tokenUsage,
+            promptVersion: comparisonPromptVersion
+        });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error comparing documents:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to compare the documents' });
+        }
+    }
+};
+
+/**
+ * Gets a stored comparison of the authenticated user
+ * @param req Request with comparisonId path parameter
+ * @param res Response with the comparison
+ */
+export const getComparison = async (req: Request<{ comparisonId: string }>, res: Response): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+
+        const comparison = await supabaseService.getDocumentComparisonById(req.params.comparisonId, jwt);
+        if (!comparison || comparison.userId !== req.user.id) {
+            res.status(404).json({ error: `Comparison with ID ${req.params.comparisonId} not found` });
+            return;
+        }
+
+        res.status(200).json(comparison);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting comparison:`, error);
+        res.status(500).json({ error: 'Failed to get the comparison' });
+    }
+};
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import supabaseService from '../services/supabase.service';
+import { GetDocumentQueryDto, ListDocumentsQueryDto } from '../dto/document.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Resolves the JWT and user ID from the request, responding with 401 if either is missing.
+ */
+const getAuthContext = (req: Request<any, any, any, any>, res: Response): { jwt: string, userId: string } | null => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+        return null;
+    }
+    const jwt = authHeader.split(' ')[1];
+
+    if (!req.user || !req.user.id) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return null;
+    }
+
+    return { jwt, userId: req.user.id };
+};
+
+/**
+ * Lists the user's documents, most recently updated first.
+ * @param req Request with optional limit/offset query parameters
+ * @param res Response with document metadata and pagination info
+ */
+export const listDocuments = async (req: Request<{}, {}, {}, ListDocumentsQueryDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit, 10), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+        const offset = req.query.offset ? parseInt(req.query.offset, 10) : 0;
+
+        const { documents, total } = await supabaseService.getDocumentsPageByUserId(auth.userId, limit, offset, auth.jwt);
+
+        res.status(200).json({
+            documents,
+            pagination: {
+                limit,
+                offset,
+                total
+            }
+        });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error listing documents:`, error);
+        res.status(500).json({ error: 'Failed to list documents' });
+    }
+};
+
+/**
+ * Gets a document with the chat sessions, analyses and annotations that reference it.
+ * The OCR result is only included with `includeOcr=true`.
+ * @param req Request with documentId path parameter and optional includeOcr query parameter
+ * @param res Response with the document
+ */
+export const getDocument = async (req: Request<{ documentId: string }, {}, {}, GetDocumentQueryDto>, res: Response): Promise<void> => {
+    try {
+        const auth = getAuthContext(req, res);
+        if (!auth) {
+            return;
+        }
+
+        const documentId = req.params.documentId;
+        const document = await supabaseService.getDocumentById(documentId, auth.jwt);
+        if (!document) {
+            res.status(404).json({ error: `Document with ID ${documentId} not found` });
+            return;
+        }
+
+        if (document.userId !== auth.userId) {
+            console.log(`[CONTROLLER] Access denied: User ${auth.userId} does not own document ${documentId}`);
+            res.status(403).json({ error: 'Unauthorized: You do not have access to this document' });
+            return;
+        }
+
+        const [chatSessionIds, analyses, annotations] = await Promise.all([
+            supabaseService.getDocumentChatSessionIds(documentId, auth.jwt),
+            supabaseService.getDocumentAnalysesByDocumentId(documentId, auth.jwt),
+            supabaseService.getDocumentAnnotations(documentId, auth.jwt)
+        ]);
+
+        const { ocrResult, ocrIncludesImages, ...metadata } = document;
+
+        res.status(200).json({
+            ...metadata,
+            chatSessionIds,
+            analyses,
+            annotations: annotations?.annotations ?? [],
+            ...(req.query.includeOcr === 'true' ? { ocrResult, ocrIncludesImages } : {})
+        });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting document:`, error);
+        res.status(500).json({ error: 'Failed to get the document' });
+    }
+};
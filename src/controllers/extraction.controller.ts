@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import documentService from '../services/document.service';
+import providerRegistry from '../services/providers/provider.registry';
+import { ProviderJsonCompletion } from '../services/providers/chatProvider';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaReservation } from '../dto/quota.dto';
+import { MistralMessage } from '../dto/chat.dto';
+import { ExtractedField, ExtractionResultDto, ExtractionSchemaDefinition, ExtractRequestDto } from '../dto/extraction.dto';
+import { BUILT_IN_EXTRACTION_SCHEMAS } from '../config/extractionSchemas';
+import { sendQuotaExceeded, setQuotaHeaders } from '../middleware/quota.middleware';
+import { resolveAnchor } from '../utils/annotationAnchors';
+import { buildExtractionResponseSchema, describeExtractionFields, findExtractionSchema } from '../utils/extraction';
+import { getPrompts, renderLanguageInstructions } from '../utils/promptSets';
+import { promptVersion } from '../utils/promptTemplate';
+import { StructuredOutputError } from '../utils/structuredOutput';
+import { estimatePromptTokens, EXPECTED_COMPLETION_TOKENS } from '../utils/tokenEstimate';
+
+/**
+ * A field as returned by the model, before its source is verified
+ */
+interface RawExtractedField {
+    value: unknown;
+    confidence: number;
+    pageIndex: number | null;
+    quote: string | null;
+}
+
+/**
+ * Lists the built-in extraction schemas
+ * @param req Request
+ * @param res Response with the schemas and their fields
+ */
+export const listExtractionSchemas = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({ schemas: BUILT_IN_EXTRACTION_SCHEMAS });
+};
+
+/**
+ * Extracts structured contract data (parties, dates, term, notice periods, liability, ...) from a document.
+ * Each field is returned with a confidence and the page and quote it was taken from; quotes are
+ * verified against the OCR result.
+ * @param req Request with ExtractRequestDto (filePath, schemaId or schema, provider?, model?)
+ * @param res Response with the extracted fields
+ */
+export const extractDocumentFields = async (req: Request<{}, {}, ExtractRequestDto>, res: Response): Promise<void> => {
+    try {
+        const { filePath } = req.body;
+        const { provider, model } = providerRegistry.resolve(req.body.provider, req.body.model);
+
+        // --- Authentication & User ID ---
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+        const userId = req.user.id;
+        // --- End Authentication ---
+
+        const definition: ExtractionSchemaDefinition | undefined = req.body.schemaId
+            ? findExtractionSchema(req.body.schemaId)
+            : req.body.schema;
+        if (!definition) {
+            res.status(404).json({ error: `Extraction schema ${req.body.schemaId} not found` });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Extracting ${definition.fields.length} fields (${definition.id}) from ${filePath}`);
+
+        const { document, ocr } = await documentService.registerStoredFile(userId, filePath, false, jwt);
+
+        const { clauseExtractionPrompt, extractionRequestPrompt } = getPrompts(req.language);
+        const languageInstructions = renderLanguageInstructions(req.language, [document.language]);
+        const extractionPromptVersion = `${promptVersion(clauseExtractionPrompt)},${languageInstructions.promptVersion},${promptVersion(extractionRequestPrompt)}`;
+        const messages: MistralMessage[] = [
+            {
+                role: 'system',
+                content: `${clauseExtractionPrompt.render({ fields: describeExtractionFields(definition.fields) })}\n\n${languageInstructions.text}`
+            },
+            { role: 'user', content: extractionRequestPrompt.render({ schemaName: definition.name }) }
+        ];
+        const usageDetails = { provider: provider.name, model, documentIds: [document.id!] };
+
+        // Reserve the estimated cost of the extraction against the user's token budget
+        let reservation: QuotaReservation;
+        try {
+            const estimatedTokens = estimatePromptTokens(messages, [ocr]) + EXPECTED_COMPLETION_TOKENS.analysis;
+            const quota = await quotaService.reserve(req.user, 'analysis', estimatedTokens, jwt);
+            reservation = quota.reservation;
+            setQuotaHeaders(res, quota.status);
+        } catch (quotaError) {
+            if (quotaError instanceof QuotaExceededError) {
+                sendQuotaExceeded(res, quotaError);
+                return;
+            }
+            throw quotaError;
+        }
+
+        let response: ProviderJsonCompletion<Record<string, RawExtractedField>>;
+        try {
+            console.log(`[CONTROLLER] Requesting ${provider.name}/${model} extraction`);
+            response = await provider.completeJson<Record<string, RawExtractedField>>(
+                messages,
+                buildExtractionResponseSchema(definition),
+                { model, documents: [ocr], language: req.language }
+            );
+        } catch (error) {
+            if (!(error instanceof StructuredOutputError)) {
+                quotaService.release(reservation);
+                throw error;
+            }
+
+            console.error(`[CONTROLLER] Invalid extraction after ${error.attempts} attempt(s):`, error.errors);
+            await quotaService.settle(reservation, error.usage, usageDetails);
+            res.status(502).json({
+                error: 'The model did not return a valid extraction',
+                details: error.errors,
+                attempts: error.attempts
+            });
+            return;
+        }
+
+        await quotaService.settle(reservation, response.usage, usageDetails);
+
+        // Keep only the schema's fields and verify that each quote appears on the stated page
+        const fields: Record<string, ExtractedField> = {};
+        definition.fields.forEach(field => {
+            const raw = response.result[field.name];
+            if (raw.pageIndex === null || !raw.quote) {
+                fields[field.name] = { value: raw.value, confidence: raw.confidence, source: null, sourceStatus: null };
+                return;
+            }
+
+            const { anchor, anchorStatus, anchorError } = resolveAnchor({ document: ocr.fileName, pageIndex: raw.pageIndex, quote: raw.quote }, [ocr]);
+            fields[field.name] = {
+                value: raw.value,
+                confidence: raw.confidence,
+                source: anchor ?? null,
+                sourceStatus: anchorStatus,
+                ...(anchorError ? { sourceError: anchorError } : {})
+            };
+        });
+
+        const found = Object.values(fields).filter(field => field.value !== null).length;
+        console.log(`[CONTROLLER] Extracted ${found}/${definition.fields.length} fields after ${response.attempts} attempt(s)`);
+
+        const result: ExtractionResultDto = {
+            schemaId: definition.id,
+            documentId: document.id!,
+            fields,
+            tokenUsage: response.usage,
+            promptVersion: extractionPromptVersion
+        };
+        res.status(200).json(result);
+    } catch (error) {
+        console.error(`[CONTROLLER] Error extracting document fields:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to extract the document fields' });
+        }
+    }
+};
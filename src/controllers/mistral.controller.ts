@@ -1,27 +1,109 @@
 import { Request, Response } from 'express';
-import fs from 'fs';
 import path from 'path';
-import mistralService from '../services/mistral.service';
-import supabaseService from '../services/supabase.service';
-import { ChatRequestDto, MistralMessage } from '../dto/chat.dto'; // Import ChatSessionDto
+import { randomUUID } from 'crypto';
+import documentService from '../services/document.service';
+import ocrJobService from '../services/ocrJob.service';
+import retrievalService from '../services/retrieval/retrieval.service';
+import { buildRetrievedContextMessage, insertDocumentContext } from '../utils/documentContext';
+import { CitationSource, citationSourcesFromChunks, citationSourcesFromDocuments, extractCitations } from '../utils/citations';
+import supabaseService, { ChatSessionConflictError } from '../services/supabase.service';
+import {
+    ChatContextSummary,
+    ChatRequestDto,
+    ChatSessionDto,
+    EditChatMessageRequestDto,
+    MistralMessage,
+    RegenerateChatMessageRequestDto,
+    ResumeChatMessageRequestDto
+} from '../dto/chat.dto';
 import { OcrRequestDto, OCRResponse } from '../dto/ocr.dto';
 import { ChatAnalyzeRequestDto } from '../dto/analyze.dto';
-import { legaltrainPrompt, documentAnalysisPrompt } from '../utils/prompts'; // Import the system prompts
-import { AnalysisResult } from '../utils/types';
-import { UsageInfo } from '@mistralai/mistralai/models/components/usageinfo';
+import { getPrompts, renderLanguageInstructions } from '../utils/promptSets'; // Localized system prompts
+import { promptVersion, RenderedPrompt } from '../utils/promptTemplate';
+import { detectDocumentLanguage, DocumentLanguage, OutputLanguage } from '../utils/language';
+import { AnalysisResult, Annotation } from '../utils/types';
+import { resolveAnnotationAnchor, resolveAnnotationAnchors } from '../utils/annotationAnchors';
+import { analysisResultSchema } from '../utils/schemas';
+import { addUsage, streamStructuredArray, StructuredOutputError } from '../utils/structuredOutput';
+import { wantsEventStream, initEventStream, sendEvent } from '../utils/sse';
+import { getAnalysisStreamFormat, initAnalysisStream, sendAnalysisEvent } from '../utils/analysisStream';
+import providerRegistry from '../services/providers/provider.registry';
+import { ChatProvider, ProviderJsonCompletion, ProviderUsage } from '../services/providers/chatProvider';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaReservation } from '../dto/quota.dto';
+import { sendQuotaExceeded, setQuotaHeaders } from '../middleware/quota.middleware';
+import { estimatePromptTokens, estimateTokens, EXPECTED_COMPLETION_TOKENS } from '../utils/tokenEstimate';
+import analysisProfileService, { AnalysisProfileNotFoundError } from '../services/analysisProfile.service';
+import { AnalysisProfile } from '../dto/analysisProfile.dto';
+import { exposeHeaders } from '../utils/http';
+import { getActiveLeafId, getBranch, normalizeMessages, TreeMessage } from '../utils/messageTree';
+import { localizeError } from '../middleware/language.middleware';
+import { ContextBudgetError, ContextPlan, planContext, SUMMARY_TOKENS } from '../utils/contextBudget';
+import { RetrievedChunk } from '../dto/retrieval.dto';
+
+/**
+ * A chat turn: the prompt to answer and its place in the session's message tree
+ */
+interface ChatTurn {
+    chatId?: string; // Session to continue, a new session is created if unset or not found
+    session?: ChatSessionDto; // Session already loaded by the caller, takes precedence over chatId
+    prompt: string;
+    filePaths?: string[];
+    parentId?: string | null; // Message the new user message follows, defaults to the end of the active branch
+    userMessage?: TreeMessage; // Existing user message to answer again, no new user message is stored
+    resumeMessage?: TreeMessage; // Incomplete answer to userMessage to continue, replaced by the completed answer
+}
+
+/**
+ * Requests that start a chat turn. Regenerating and resuming need no body, so theirs may be missing.
+ */
+type ChatTurnRequest =
+    | Request<{}, {}, ChatRequestDto>
+    | Request<{ chatId: string, messageId: string }, {}, EditChatMessageRequestDto>
+    | Request<{ chatId: string, messageId: string }, {}, RegenerateChatMessageRequestDto | ResumeChatMessageRequestDto | undefined>;
 
 /**
  * Stream a chat session with Mistral AI, handling history and document processing.
  * Ensures the correct database session ID is used in the response header.
+ * Clients sending `Accept: text/event-stream` receive typed SSE events instead of plain text.
  * @param req Request with ChatRequestDto (prompt, chatId?, filePaths?)
  * @param res Response to stream content back to the client
  */
 export const streamMistralChat = async (req: Request<{}, {}, ChatRequestDto>, res: Response): Promise<void> => {
+    const { chatId, prompt, filePaths } = req.body;
+    await runChatTurn(req, res, { chatId, prompt, filePaths });
+};
+
+/**
+ * Answers a chat turn: loads the active branch as history, streams the provider response and
+ * stores the new messages as the end of the active branch.
+ * @param req Request carrying the provider selection
+ * @param res Response to stream content back to the client
+ * @param turn Prompt and its place in the message tree
+ */
+const runChatTurn = async (req: ChatTurnRequest, res: Response, turn: ChatTurn): Promise<void> => {
     let assistantResponseContent = '';
-    let currentSessionIdFromRequest: string | undefined = req.body.chatId;
-    const { prompt, filePaths } = req.body;
+    let currentSessionIdFromRequest: string | undefined = turn.session?.id ?? turn.chatId;
+    const { prompt, filePaths } = turn;
     let finalSessionId: string; // This will hold the definitive DB session ID
-    let tokenUsage: UsageInfo | undefined;
+    let parentId: string | null = null; // Message the new user message follows
+    const userMessageId = turn.userMessage?.id ?? randomUUID();
+    const assistantMessageId = turn.resumeMessage?.id ?? randomUUID();
+    const previousContent = turn.resumeMessage ? messageText(turn.resumeMessage) : ''; // Part of the answer generated before
+    let tokenUsage: ProviderUsage | undefined;
+    let reservation: QuotaReservation | undefined; // Budget held until the actual usage is known
+    const useEventStream = wantsEventStream(req);
+
+    // Stop working on the turn when the client goes away, also while documents are processed or the
+    // history is summarized. The response's close event is used because the request emits close as soon
+    // as its body has been read.
+    const upstream = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            console.log(`[CONTROLLER] Client disconnected from chat turn, aborting provider requests`);
+            upstream.abort();
+        }
+    });
 
     try {
         console.log(`[CONTROLLER] Starting chat stream request ${currentSessionIdFromRequest ? `for session ${currentSessionIdFromRequest}` : '(new session)'}`);
@@ -50,17 +132,34 @@ export const streamMistralChat = async (req: Request<{}, {}, ChatRequestDto>, re
         }
 
         let historyMessages: MistralMessage[] = [];
-        let existingDocuments: OCRResponse[] = []; // Store documents from the existing session
-        let newlyProcessedDocuments: OCRResponse[] = []; // Store ONLY newly processed documents for saving
+        let existingDocuments: OCRResponse[] = []; // Documents already attached to the session
+        const existingDocumentIds = new Set<string>();
+        let newlyProcessedDocuments: OCRResponse[] = []; // Documents attached with this request
+        const newDocumentIds: string[] = [];
+        let contextSummary: ChatContextSummary | null = null; // Rolling summary of older messages
         let isNewSession = false;
 
         // 1. Determine/Establish Definitive Session ID & Fetch History/Documents
         if (currentSessionIdFromRequest) {
-            const session = await supabaseService.getChatSessionById(currentSessionIdFromRequest, jwt);
+            const session = turn.session ?? await supabaseService.getChatSessionById(currentSessionIdFromRequest, jwt);
             if (session) {
                 finalSessionId = session.id; // Use the confirmed ID from DB
-                historyMessages = Array.isArray(session.messages) ? session.messages : [];
-                existingDocuments = Array.isArray(session.documents) ? session.documents : []; // Load existing documents
+                // Only the branch leading to the new message is sent as history
+                const messages = normalizeMessages(Array.isArray(session.messages) ? session.messages : []);
+                parentId = turn.userMessage
+                    ? turn.userMessage.parentId
+                    : turn.parentId !== undefined ? turn.parentId : getActiveLeafId(messages, session.activeMessageId);
+                historyMessages = getBranch(messages, parentId);
+                contextSummary = session.contextSummary;
+                // Load linked registry documents and documents embedded in older sessions
+                const { documents, legacyDocuments } = await documentService.getSessionDocuments(session, jwt);
+                documents.forEach(document => existingDocumentIds.add(document.id!));
+                existingDocuments = [
+                    ...legacyDocuments,
+                    ...documents
+                        .filter(document => document.ocrResult)
+                        .map(document => ({ ...document.ocrResult!, fileName: document.fileName }))
+                ];
                 console.log(`[CONTROLLER] Using existing session ${finalSessionId} with ${historyMessages.length} messages and ${existingDocuments.length} documents`);
             } else {
                 console.log(`[CONTROLLER] Session ${currentSessionIdFromRequest} not found, creating new session`);
@@ -85,106 +184,337 @@ export const streamMistralChat = async (req: Request<{}, {}, ChatRequestDto>, re
             console.log(`[CONTROLLER] Created new session with ID: ${finalSessionId}`);
         }
 
-        // 2. Set Header with Definitive Session ID
-        res.setHeader('Access-Control-Expose-Headers', 'X-Chat-Id');
+        // 2. Set Header with Definitive Session ID and the IDs the new messages will be stored under
+        exposeHeaders(res, 'X-Chat-Id', 'X-User-Message-Id', 'X-Assistant-Message-Id');
         res.setHeader('X-Chat-Id', finalSessionId);
+        res.setHeader('X-User-Message-Id', userMessageId);
+        res.setHeader('X-Assistant-Message-Id', assistantMessageId);
+
+        // In SSE mode, open the stream now so document processing progress can be reported
+        if (useEventStream) {
+            initEventStream(res);
+            sendEvent(res, 'session', { chatId: finalSessionId, userMessageId, assistantMessageId });
+        }
 
         // 3. Process New Files if filePaths are provided (same logic as before)
         if (filePaths && filePaths.length > 0) {
             console.log(`[CONTROLLER] Processing ${filePaths.length} files for session ${finalSessionId}`);
             for (const filePath of filePaths) {
-                let tempFilePath: string | null = null;
+                if (upstream.signal.aborted) {
+                    break;
+                }
                 try {
-                    tempFilePath = await supabaseService.downloadFile(filePath, jwt);
-                    const fileContent = fs.readFileSync(tempFilePath);
-                    const fileName = path.basename(filePath);
-                    const ocrResult = await mistralService.processDocumentOcr(fileContent, fileName, true);
-                    newlyProcessedDocuments.push(ocrResult);
+                    const { document, ocr: ocrResult, cacheHit } = await documentService.registerStoredFile(
+                        userId,
+                        filePath,
+                        true,
+                        jwt,
+                        undefined,
+                        upstream.signal
+                    );
+                    // Documents already linked to the session are part of the context anyway
+                    if (!existingDocumentIds.has(document.id!)) {
+                        newlyProcessedDocuments.push(ocrResult);
+                        newDocumentIds.push(document.id!);
+                    }
+                    if (useEventStream) {
+                        sendEvent(res, 'document_processed', {
+                            filePath,
+                            fileName: path.basename(filePath),
+                            documentId: document.id,
+                            success: true,
+                            pageCount: ocrResult.pages?.length || 0,
+                            cacheHit
+                        });
+                    }
                 } catch (fileError) {
                     console.error(`[CONTROLLER] Error processing file ${filePath}:`, fileError);
-                } finally {
-                    if (tempFilePath) {
-                        try { 
-                            fs.unlinkSync(tempFilePath);
-                        } catch (e) { 
-                            console.error(`[CONTROLLER] Error cleaning temp file ${tempFilePath}:`, e);
-                        }
+                    if (useEventStream) {
+                        sendEvent(res, 'document_processed', {
+                            filePath,
+                            fileName: path.basename(filePath),
+                            success: false,
+                            error: 'Failed to process the document'
+                        });
                     }
                 }
             }
             console.log(`[CONTROLLER] Processed ${newlyProcessedDocuments.length} files successfully`);
+
+            try {
+                await documentService.linkToSession(finalSessionId, newDocumentIds, jwt);
+            } catch (linkError) {
+                console.error(`[CONTROLLER] Error linking documents to session ${finalSessionId}:`, linkError);
+            }
         }
 
         // 4. Combine existing and new documents for context
         const allDocumentsForContext = [...existingDocuments, ...newlyProcessedDocuments];
 
-        // 5. Prepare messages for Mistral API (Document context handled by service)
-        const messagesToMistral: MistralMessage[] = [
-            { role: 'system', content: legaltrainPrompt },
-            ...historyMessages,
-            { role: 'user', content: prompt } // Use the original prompt here
-        ];
+        // 5. Retrieve only the document excerpts relevant to the prompt
+        let relevantChunks: RetrievedChunk[] = [];
+        let fullContextDocuments: OCRResponse[] = [];
+        if (allDocumentsForContext.length > 0) {
+            try {
+                relevantChunks = await retrievalService.retrieve(finalSessionId, req.user, allDocumentsForContext, prompt, jwt, upstream.signal);
+                console.log(`[CONTROLLER] Retrieved ${relevantChunks.length} relevant chunks from ${allDocumentsForContext.length} documents`);
+            } catch (retrievalError) {
+                if (retrievalError instanceof QuotaExceededError) {
+                    if (!res.headersSent) {
+                        sendQuotaExceeded(res, retrievalError);
+                    } else {
+                        sendEvent(res, 'error', { message: localizeError('Token quota exceeded', req.language) });
+                        res.end();
+                    }
+                    return;
+                }
+                // Fall back to injecting the full documents so the turn still has context
+                console.error(`[CONTROLLER] Retrieval failed, falling back to full document context:`, retrievalError);
+                fullContextDocuments = allDocumentsForContext;
+            }
+        }
 
-        // Setup response headers for streaming (Content-Type, Transfer-Encoding)
-        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-        res.setHeader('Transfer-Encoding', 'chunked');
+        // Ask the model to cite pages whenever document context is provided
+        const { legaltrainPrompt, citationInstructionPrompt, conversationSummaryPrompt, resumeAnswerPrompt } = getPrompts(req.language);
+        const systemPrompt = relevantChunks.length > 0 || fullContextDocuments.length > 0
+            ? `${legaltrainPrompt.render({})}\n\n${citationInstructionPrompt.render({})}`
+            : legaltrainPrompt.render({});
 
-        // 6. Call the Mistral service, passing combined documents for context
-        console.log(`[CONTROLLER] Requesting Mistral chat stream with ${messagesToMistral.length} messages and ${allDocumentsForContext.length} documents`);
-        const stream = await mistralService.sendMessageStream(
-            messagesToMistral,
-            allDocumentsForContext // Pass the combined list for context
-        );
+        // 6. Fit history and document context into the context window of the selected model
+        const { provider, model } = providerRegistry.resolve(req.body?.provider, req.body?.model);
+        // The stored summary only replaces history if it covers the start of this branch
+        const summaryIndex = contextSummary
+            ? historyMessages.findIndex(message => message.id === contextSummary!.throughMessageId)
+            : -1;
+        let summary = summaryIndex >= 0 ? contextSummary!.content : null;
+        let plan: ContextPlan;
+        try {
+            plan = planContext({
+                limits: provider.modelLimits[model],
+                completionTokens: EXPECTED_COMPLETION_TOKENS.chat,
+                systemPrompt,
+                summary,
+                history: historyMessages.slice(summaryIndex + 1),
+                prompt: turn.resumeMessage ? `${prompt}\n\n${previousContent}\n\n${resumeAnswerPrompt.render({})}` : prompt,
+                chunks: relevantChunks,
+                documents: fullContextDocuments
+            });
+        } catch (budgetError) {
+            if (!(budgetError instanceof ContextBudgetError)) {
+                throw budgetError;
+            }
+            if (!res.headersSent) {
+                res.status(400).json({ error: budgetError.message });
+            } else {
+                sendEvent(res, 'error', { message: localizeError(budgetError.message, req.language) });
+                res.end();
+            }
+            return;
+        }
+        if (plan.summarize.length > 0 || plan.documentsTrimmed) {
+            console.log(`[CONTROLLER] Context exceeds the budget of ${model}: summarizing ${plan.summarize.length} messages, document context trimmed: ${plan.documentsTrimmed}`);
+        }
+
+        const citationSources: CitationSource[] = plan.chunks.length > 0 // Pages the answer may cite
+            ? citationSourcesFromChunks(plan.chunks)
+            : citationSourcesFromDocuments(plan.documents);
+        const documentContextMessages: MistralMessage[] = plan.chunks.length > 0 ? [buildRetrievedContextMessage(plan.chunks)] : [];
+        const contextDocuments = plan.documents.length > 0 ? plan.documents : undefined; // Only set if retrieval failed
 
-        // 7. Stream the response back to the client
-        for await (const chunk of stream) {
-            // Check for token usage in the chunk and update our variable
-            if (chunk?.data?.usage) {
-                tokenUsage = chunk.data.usage;
+        // Reserve the estimated cost of this turn, including summarizing, against the user's token budget
+        try {
+            const summarizingTokens = plan.summarize.length > 0
+                ? estimatePromptTokens(plan.summarize, [], provider.modelLimits[model].charsPerToken) + SUMMARY_TOKENS
+                : 0;
+            const estimatedTokens = plan.estimatedTokens + summarizingTokens + EXPECTED_COMPLETION_TOKENS.chat;
+            const quota = await quotaService.reserve(req.user, 'chat', estimatedTokens, jwt);
+            reservation = quota.reservation;
+            setQuotaHeaders(res, quota.status);
+        } catch (quotaError) {
+            if (!(quotaError instanceof QuotaExceededError)) {
+                throw quotaError;
             }
-            
-            if (chunk?.data?.choices?.[0]?.delta?.content) {
-                const content = chunk.data.choices[0].delta.content;
-                res.write(content);
-                assistantResponseContent += content;
+            if (!res.headersSent) {
+                sendQuotaExceeded(res, quotaError);
+            } else {
+                sendEvent(res, 'error', { message: localizeError('Token quota exceeded', req.language) });
+                res.end();
             }
+            return;
         }
 
-        res.end(); // End the HTTP response stream
-        console.log(`[CONTROLLER] Chat stream completed successfully`);
+        // Fold the messages that no longer fit into the rolling summary
+        if (plan.summarize.length > 0) {
+            try {
+                const summarized = await summarizeHistory(provider, model, summary, plan.summarize, req.language, upstream.signal);
+                summary = summarized.content;
+                tokenUsage = summarized.usage;
+                await supabaseService.updateChatSessionSummary(finalSessionId, {
+                    content: summary,
+                    throughMessageId: plan.summarize[plan.summarize.length - 1].id!,
+                    updatedAt: new Date().toISOString()
+                }, jwt);
+            } catch (summaryError) {
+                // The turn still fits, only without the content of the older messages
+                console.error(`[CONTROLLER] Error summarizing chat history of session ${finalSessionId}:`, summaryError);
+            }
+        }
 
-        // Track usage in the database if we have token information
-        if (tokenUsage) {
-            await supabaseService.trackUserUsage(
-                userId,
-                'chat',
-                tokenUsage.totalTokens,
-                jwt
+        // Prepare messages for the provider, with retrieved excerpts before the user prompt
+        const messagesToMistral: MistralMessage[] = insertDocumentContext([
+            { role: 'system', content: summary ? `${systemPrompt}\n\n${conversationSummaryPrompt.render({ summary })}` : systemPrompt },
+            ...plan.history,
+            { role: 'user', content: prompt } // Use the original prompt here
+        ], documentContextMessages);
+        if (turn.resumeMessage) {
+            // Let the model continue its interrupted answer
+            messagesToMistral.push(
+                { role: 'assistant', content: previousContent },
+                { role: 'user', content: resumeAnswerPrompt.render({}) }
             );
-            console.log(`[CONTROLLER] Tracked usage of ${tokenUsage.totalTokens} tokens for chat`);
         }
 
-        // 8. Persist Final Session Update (Messages and Documents)
+        // Setup response headers for plain-text streaming (Content-Type, Transfer-Encoding)
+        if (!useEventStream) {
+            res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+            res.setHeader('Transfer-Encoding', 'chunked');
+        }
+
+        // The client left while the turn was prepared, no answer is requested or stored
+        if (upstream.signal.aborted) {
+            console.log(`[CONTROLLER] Client left session ${finalSessionId} before the answer was requested`);
+            if (tokenUsage) {
+                await quotaService.settle(reservation, tokenUsage, { provider: provider.name, model, sessionId: finalSessionId });
+            } else {
+                quotaService.release(reservation);
+            }
+            reservation = undefined;
+            return;
+        }
+
+        // 7. Call the selected chat provider
+        console.log(`[CONTROLLER] Requesting ${provider.name}/${model} chat stream with ${messagesToMistral.length} messages`);
+        const stream = provider.stream(messagesToMistral, {
+            model,
+            documents: contextDocuments,
+            signal: upstream.signal
+        });
+
+        // 8. Stream the response back to the client
+        let streamUsage: ProviderUsage | undefined;
+        let streamError: unknown; // Set if the provider failed after the stream was opened
+        try {
+            for await (const event of stream) {
+                if (upstream.signal.aborted) {
+                    break;
+                }
+
+                // Keep the latest token usage reported by the provider
+                if (event.type === 'usage') {
+                    streamUsage = event.usage;
+                    continue;
+                }
+
+                if (useEventStream) {
+                    sendEvent(res, 'delta', { content: event.content });
+                } else {
+                    res.write(event.content);
+                }
+                assistantResponseContent += event.content;
+            }
+        } catch (error) {
+            streamError = error;
+        }
+        const interrupted = upstream.signal.aborted || streamError !== undefined;
+        if (interrupted) {
+            console.error(`[CONTROLLER] Chat stream of session ${finalSessionId} interrupted after ${assistantResponseContent.length} characters:`, streamError ?? 'client disconnected');
+        }
+
+        // Without a usage report from the provider, count the prompt and the text generated so far
+        if (!streamUsage && interrupted) {
+            const completionTokens = estimateTokens(assistantResponseContent, provider.modelLimits[model].charsPerToken);
+            streamUsage = { promptTokens: plan.estimatedTokens, completionTokens, totalTokens: plan.estimatedTokens + completionTokens };
+        }
+        tokenUsage = addUsage(tokenUsage, streamUsage);
+
+        // Resolve the page references cited in the answer
+        const answerContent = previousContent + assistantResponseContent;
+        const citations = extractCitations(answerContent, citationSources);
+
+        // 9. Persist Final Session Update (documents are linked through the registry)
         // The session (ID: finalSessionId) is guaranteed to exist at this point.
+        // Interrupted answers are stored as incomplete so they can be resumed or regenerated.
+        let saveConflict = false; // Whether concurrent writes kept the answer from being stored
         try {
             // Save the ORIGINAL user prompt, not the one potentially modified with context
-            const newUserMessage: MistralMessage = { role: 'user', content: prompt };
-            const newAssistantMessage: MistralMessage = { role: 'assistant', content: assistantResponseContent };
-
-            await supabaseService.updateChatSession(
-                finalSessionId,
-                [newUserMessage, newAssistantMessage], // Append the latest exchange
-                newlyProcessedDocuments, // Append ONLY newly processed documents
-                jwt
-            );
-            console.log(`[CONTROLLER] Session ${finalSessionId} updated with new messages and ${newlyProcessedDocuments.length} documents`);
+            const createdAt = new Date().toISOString();
+            const newUserMessage: MistralMessage = { id: userMessageId, parentId, role: 'user', content: prompt, createdAt };
+            const newAssistantMessage: MistralMessage = {
+                id: assistantMessageId,
+                parentId: userMessageId,
+                role: 'assistant',
+                content: answerContent,
+                ...(citations.length > 0 ? { citations } : {}),
+                createdAt: turn.resumeMessage?.createdAt ?? createdAt,
+                ...(interrupted ? { status: 'incomplete' as const } : {})
+            };
+
+            if (turn.resumeMessage) {
+                // Replace the resumed answer and make it the active branch
+                await supabaseService.replaceChatMessage(finalSessionId, newAssistantMessage, jwt, assistantMessageId);
+            } else {
+                // Append the latest exchange (only the answer when regenerating) and make it the active branch
+                await supabaseService.updateChatSession(
+                    finalSessionId,
+                    turn.userMessage ? [newAssistantMessage] : [newUserMessage, newAssistantMessage],
+                    [],
+                    jwt,
+                    assistantMessageId
+                );
+            }
+            console.log(`[CONTROLLER] Session ${finalSessionId} updated with ${interrupted ? 'incomplete' : 'new'} messages`);
 
         } catch (dbError) {
+            saveConflict = dbError instanceof ChatSessionConflictError;
             console.error(`[CONTROLLER] Error saving chat session ${finalSessionId} to database:`, dbError);
         }
 
+        if (useEventStream && !upstream.signal.aborted) {
+            sendEvent(res, 'citations', { citations });
+            if (tokenUsage) {
+                sendEvent(res, 'usage', tokenUsage);
+            }
+            if (streamError !== undefined) {
+                sendEvent(res, 'error', { message: localizeError('Failed to process the Mistral chat request', req.language), incomplete: true });
+            } else if (saveConflict) {
+                sendEvent(res, 'error', { message: localizeError('The chat session was changed by another request, the answer could not be saved', req.language) });
+            } else {
+                sendEvent(res, 'done', { chatId: finalSessionId });
+            }
+        }
+
+        if (streamError !== undefined && !res.headersSent) {
+            // Nothing was streamed yet, the failure can still be reported as a status
+            res.status(500).json({ error: 'Failed to process the Mistral chat request' });
+        } else {
+            res.end(); // End the HTTP response stream
+        }
+        console.log(`[CONTROLLER] Chat stream ${interrupted ? 'ended early' : 'completed successfully'}`);
+
+        // Settle the reservation against the actual usage
+        await quotaService.settle(reservation, tokenUsage, {
+            provider: provider.name,
+            model,
+            sessionId: finalSessionId,
+            documentIds: [...existingDocumentIds, ...newDocumentIds]
+        });
+        reservation = undefined;
+
     } catch (error) {
         console.error(`[CONTROLLER] Error processing chat stream:`, error);
+        if (reservation) {
+            quotaService.release(reservation);
+        }
         // Ensure we don't try to set headers again if they were already sent
         if (!res.headersSent) {
             // If the error happened before setting the session ID header, we might not have it.
@@ -192,15 +522,208 @@ export const streamMistralChat = async (req: Request<{}, {}, ChatRequestDto>, re
             res.status(500).json({ error: 'Failed to process the Mistral chat request' });
         } else if (!res.writableEnded) {
             // If headers were sent but the stream didn't finish, end it.
+            if (useEventStream) {
+                sendEvent(res, 'error', { message: localizeError('Failed to process the Mistral chat request', req.language) });
+            }
             res.end();
         }
     }
 };
 
-// --- processOcr function remains largely the same ---
+/**
+ * Gets the text of a message, leaving out images
+ */
+const messageText = (message: MistralMessage): string =>
+    typeof message.content === 'string'
+        ? message.content
+        : message.content.map(chunk => chunk.type === 'text' ? chunk.text : '').join('');
+
+/**
+ * Folds messages into the rolling summary of a chat session
+ * @param provider Provider of the chat turn
+ * @param model Model of the chat turn
+ * @param previousSummary Summary of the messages before the given ones, if any
+ * @param messages Messages to add to the summary, in conversation order
+ * @param language Language of the summary
+ * @param signal Aborts the request when the client disconnected
+ * @returns New summary and the tokens used
+ */
+const summarizeHistory = async (
+    provider: ChatProvider,
+    model: string,
+    previousSummary: string | null,
+    messages: MistralMessage[],
+    language: OutputLanguage,
+    signal?: AbortSignal
+): Promise<{ content: string, usage?: ProviderUsage }> => {
+    const { historySummaryPrompt, historySummaryLabels } = getPrompts(language);
+    const conversation = messages
+        .map(message => `${message.role === 'assistant' ? historySummaryLabels.assistant : historySummaryLabels.user}: ${messageText(message)}`)
+        .join('\n\n');
+
+    const completion = await provider.complete([
+        { role: 'user', content: historySummaryPrompt.render({ previousSummary: previousSummary ?? '', conversation }) }
+    ], { model, signal });
+    console.log(`[CONTROLLER] Summarized ${messages.length} messages into ${completion.content.length} characters`);
+    return { content: completion.content.trim(), usage: completion.usage };
+};
+
+/**
+ * Loads an owned chat session and one of its messages for editing or regenerating,
+ * responding with 401/403/404/400 if the session or message cannot be used.
+ * @param req Request with chatId and messageId path parameters
+ * @param res Response
+ * @param role Role the message must have
+ * @returns Session, its normalized messages and the message, or null if a response was sent
+ */
+const getBranchTarget = async (
+    req: Request<{ chatId: string, messageId: string }, any, any>,
+    res: Response,
+    role: 'user' | 'assistant'
+): Promise<{ session: ChatSessionDto, messages: TreeMessage[], message: TreeMessage } | null> => {
+    const { chatId, messageId } = req.params;
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+        return null;
+    }
+    const jwt = authHeader.split(' ')[1];
+
+    if (!req.user || !req.user.id) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return null;
+    }
+
+    const session = await supabaseService.getChatSessionById(chatId, jwt);
+    if (!session) {
+        res.status(404).json({ error: `Chat session with ID ${chatId} not found` });
+        return null;
+    }
+    if (session.userId !== req.user.id) {
+        console.log(`[CONTROLLER] Access denied: User ${req.user.id} does not own chat ${chatId}`);
+        res.status(403).json({ error: 'Unauthorized: You do not have access to this chat session' });
+        return null;
+    }
+
+    const messages = normalizeMessages(session.messages);
+    const message = messages.find(candidate => candidate.id === messageId);
+    if (!message) {
+        res.status(404).json({ error: `Message with ID ${messageId} not found` });
+        return null;
+    }
+    if (message.role !== role) {
+        res.status(400).json({ error: role === 'user' ? 'Only user messages can be edited' : 'Only assistant messages can be regenerated' });
+        return null;
+    }
+
+    return { session, messages, message };
+};
+
+/**
+ * Edits a user message. The edited prompt is stored as a new message next to the original,
+ * starting a new branch that becomes active, and is answered like a regular chat turn.
+ * @param req Request with chatId and messageId path parameters and EditChatMessageRequestDto
+ * @param res Response streaming the answer, as for streamMistralChat
+ */
+export const editChatMessage = async (
+    req: Request<{ chatId: string, messageId: string }, {}, EditChatMessageRequestDto>,
+    res: Response
+): Promise<void> => {
+    try {
+        const target = await getBranchTarget(req, res, 'user');
+        if (!target) {
+            return;
+        }
+
+        console.log(`[CONTROLLER] Editing message ${target.message.id} of chat ${target.session.id}`);
+        await runChatTurn(req, res, { session: target.session, prompt: req.body.prompt, parentId: target.message.parentId });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error editing chat message:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to process the Mistral chat request' });
+        }
+    }
+};
+
+/**
+ * Regenerates an assistant message. The new answer to the same user message is stored next to
+ * the original, starting a new branch that becomes active.
+ * @param req Request with chatId and messageId path parameters and RegenerateChatMessageRequestDto
+ * @param res Response streaming the answer, as for streamMistralChat
+ */
+export const regenerateChatMessage = async (
+    req: Request<{ chatId: string, messageId: string }, {}, RegenerateChatMessageRequestDto | undefined>,
+    res: Response
+): Promise<void> => {
+    try {
+        const target = await getBranchTarget(req, res, 'assistant');
+        if (!target) {
+            return;
+        }
+
+        const userMessage = target.messages.find(message => message.id === target.message.parentId && message.role === 'user');
+        if (!userMessage) {
+            res.status(400).json({ error: 'The message does not answer a user message' });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Regenerating message ${target.message.id} of chat ${target.session.id}`);
+        await runChatTurn(req, res, { session: target.session, prompt: messageText(userMessage), userMessage });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error regenerating chat message:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to process the Mistral chat request' });
+        }
+    }
+};
+
+/**
+ * Resumes an incomplete assistant message, e.g. after the client disconnected while it was generated.
+ * The model continues the stored text, the continuation is streamed and the message is replaced by the
+ * combined answer, which becomes the active branch. To start over, regenerate the message instead.
+ * @param req Request with chatId and messageId path parameters and ResumeChatMessageRequestDto
+ * @param res Response streaming the continuation, as for streamMistralChat
+ */
+export const resumeChatMessage = async (
+    req: Request<{ chatId: string, messageId: string }, {}, ResumeChatMessageRequestDto | undefined>,
+    res: Response
+): Promise<void> => {
+    try {
+        const target = await getBranchTarget(req, res, 'assistant');
+        if (!target) {
+            return;
+        }
+
+        if (target.message.status !== 'incomplete') {
+            res.status(400).json({ error: 'Only incomplete messages can be resumed' });
+            return;
+        }
+
+        const userMessage = target.messages.find(message => message.id === target.message.parentId && message.role === 'user');
+        if (!userMessage) {
+            res.status(400).json({ error: 'The message does not answer a user message' });
+            return;
+        }
+
+        console.log(`[CONTROLLER] Resuming message ${target.message.id} of chat ${target.session.id}`);
+        await runChatTurn(req, res, { session: target.session, prompt: messageText(userMessage), userMessage, resumeMessage: target.message });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error resuming chat message:`, error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to process the Mistral chat request' });
+        }
+    }
+};
+
+/**
+ * Processes a stored file with Mistral OCR. With `async: true` the request is queued as a
+ * background job and answered with 202 and a job ID that can be polled.
+ * @param req Request with OcrRequestDto (filePath, includeImageBase64?, async?)
+ * @param res Response with the OCR result, or the queued job
+ */
 export const processOcr = async (req: Request<{}, {}, OcrRequestDto>, res: Response): Promise<void> => {
     const { filePath, includeImageBase64 } = req.body;
-    let tempFilePath: string | null = null;
 
     try {
         console.log(`[CONTROLLER] Starting OCR processing for file: ${filePath}`);
@@ -217,18 +740,33 @@ export const processOcr = async (req: Request<{}, {}, OcrRequestDto>, res: Respo
             return;
         }
 
-        tempFilePath = await supabaseService.downloadFile(filePath, jwt);
-        const fileContent = fs.readFileSync(tempFilePath);
-        const fileName = path.basename(filePath);
-        
-        const ocrResult = await mistralService.processDocumentOcr(
-            fileContent,
-            fileName,
-            includeImageBase64
+        if (req.body.async) {
+            const job = await ocrJobService.enqueue(req.user.id, filePath, includeImageBase64 ?? false, jwt);
+            if (!job) {
+                res.status(500).json({ error: 'Failed to queue the OCR job' });
+                return;
+            }
+
+            res.setHeader('Location', `/api/mistral/ocr/jobs/${job.id}`);
+            res.status(202).json({
+                jobId: job.id,
+                status: job.status,
+                statusUrl: `/api/mistral/ocr/jobs/${job.id}`
+            });
+            return;
+        }
+
+        const { document, ocr: ocrResult, cacheHit } = await documentService.registerStoredFile(
+            req.user.id,
+            filePath,
+            includeImageBase64 ?? false,
+            jwt
         );
         
-        console.log(`[CONTROLLER] OCR processing complete for ${fileName}`);
-        res.status(200).json(ocrResult);
+        console.log(`[CONTROLLER] OCR processing complete for ${filePath}${cacheHit ? ' (cache hit)' : ''}`);
+        exposeHeaders(res, 'X-OCR-Cache');
+        res.setHeader('X-OCR-Cache', cacheHit ? 'HIT' : 'MISS');
+        res.status(200).json({ ...ocrResult, cacheHit, documentId: document.id });
 
     } catch (error) {
         console.error(`[CONTROLLER] Error processing OCR request:`, error);
@@ -237,28 +775,74 @@ export const processOcr = async (req: Request<{}, {}, OcrRequestDto>, res: Respo
         } else if (!res.writableEnded) {
             res.end();
         }
-    } finally {
-        if (tempFilePath) {
-            try {
-                fs.unlinkSync(tempFilePath);
-            } catch (cleanupError) {
-                console.error(`[CONTROLLER] Error cleaning up temporary file ${tempFilePath}:`, cleanupError);
-            }
+    }
+};
+
+/**
+ * Gets the status of a background OCR job, including the result once completed
+ * @param req Request with jobId path parameter
+ * @param res Response with job status, progress, result or error
+ */
+export const getOcrJobStatus = async (req: Request<{ jobId: string }>, res: Response): Promise<void> => {
+    try {
+        const jobId = req.params.jobId;
+
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+
+        const job = await ocrJobService.getJob(jobId, jwt);
+        if (!job) {
+            res.status(404).json({ error: `OCR job with ID ${jobId} not found` });
+            return;
+        }
+
+        // Ensure this user owns this job
+        if (job.userId !== req.user.id) {
+            console.log(`[CONTROLLER] Access denied: User ${req.user.id} does not own OCR job ${jobId}`);
+            res.status(403).json({ error: 'Unauthorized: You do not have access to this OCR job' });
+            return;
         }
+
+        res.status(200).json({
+            jobId: job.id,
+            filePath: job.filePath,
+            status: job.status,
+            progress: job.progress,
+            stage: job.stage,
+            ...(job.status === 'completed' ? { result: job.result, cacheHit: job.cacheHit } : {}),
+            ...(job.status === 'failed' ? { error: job.error } : {}),
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt
+        });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting OCR job status:`, error);
+        res.status(500).json({ error: 'Failed to get the OCR job status' });
     }
 };
 
 /**
- * Analyzes documents associated with a chat session and returns structured analysis
+ * Analyzes documents associated with a chat session and returns structured analysis.
+ * Clients sending `Accept: text/event-stream` or `Accept: application/x-ndjson` receive each
+ * annotation as soon as the model has written it; the complete set is stored at the end.
  * @param req Request with chatId path parameter and optional prompt
- * @param res Response with structured analysis results
+ * @param res Response with structured analysis results, or the annotation stream
  */
 export const analyzeChatDocuments = async (req: Request<{ chatId: string }, {}, ChatAnalyzeRequestDto>, res: Response): Promise<void> => {
     try {
         const chatId = req.params.chatId;
-        const { prompt } = req.body;
+        const { prompt, profileId } = req.body;
+        const { provider, model } = providerRegistry.resolve(req.body.provider, req.body.model);
 
-        console.log(`[CONTROLLER] Starting document analysis for chat ${chatId}`);
+        console.log(`[CONTROLLER] Starting document analysis for chat ${chatId}${profileId ? ` with profile ${profileId}` : ''}`);
 
         // --- Authentication & User ID ---
         const authHeader = req.headers.authorization;
@@ -290,56 +874,61 @@ export const analyzeChatDocuments = async (req: Request<{ chatId: string }, {},
             return;
         }
 
-        // Initialize documents array
-        let documentsList: OCRResponse[] = [];
-        
-        // Check if there are documents in the session
-        if (chatSession.documents && chatSession.documents.length > 0) {
-            documentsList = chatSession.documents;
-            console.log(`[CONTROLLER] Found ${documentsList.length} documents in chat session ${chatId}`);
-        } else {
-            // If no documents in session, check for files in chat_documents table
-            console.log(`[CONTROLLER] No documents in chat session, checking chat_documents table`);
-            const chatDocuments = await supabaseService.getChatDocumentsBySessionId(chatId, jwt);
-            
-            if (!chatDocuments || chatDocuments.length === 0) {
-                console.log(`[CONTROLLER] No documents found in chat_documents for chat ${chatId}`);
-                res.status(400).json({ error: 'No documents available for analysis in this chat session' });
-                return;
-            }
-            
-            console.log(`[CONTROLLER] Found ${chatDocuments.length} document records in chat_documents table`);
-            
-            // Process each document with OCR similar to the chat endpoint
-            for (const document of chatDocuments) {
-                let tempFilePath: string | null = null;
-                try {
-                    tempFilePath = await supabaseService.downloadFile(document.file_path, jwt);
-                    const fileContent = fs.readFileSync(tempFilePath);
-                    const fileName = path.basename(document.file_path);
-                    const ocrResult = await mistralService.processDocumentOcr(fileContent, fileName, true);
-                    documentsList.push(ocrResult);
-                } catch (fileError) {
-                    console.error(`[CONTROLLER] Error processing file ${document.file_path}:`, fileError);
-                } finally {
-                    if (tempFilePath) {
-                        try { 
-                            fs.unlinkSync(tempFilePath);
-                        } catch (e) { 
-                            console.error(`[CONTROLLER] Error cleaning temp file ${tempFilePath}:`, e);
-                        }
-                    }
+        let profile: AnalysisProfile | undefined;
+        if (profileId) {
+            try {
+                profile = await analysisProfileService.getActiveProfile(profileId, jwt);
+            } catch (profileError) {
+                if (profileError instanceof AnalysisProfileNotFoundError) {
+                    res.status(404).json({ error: profileError.message });
+                    return;
                 }
+                throw profileError;
             }
-            
-            // Update the session with the newly processed documents
-            if (documentsList.length > 0) {
-                await supabaseService.updateChatSessionDocuments(
-                    chatId,
-                    documentsList,
-                    jwt
-                );
-                console.log(`[CONTROLLER] Updated chat session with ${documentsList.length} processed documents`);
+        }
+
+        // Only annotation arrays can be streamed item by item
+        const streamFormat = getAnalysisStreamFormat(req);
+        if (streamFormat && profile && !analysisProfileService.producesAnnotations(profile)) {
+            res.status(400).json({ error: `Analysis profile ${profile.id} has a custom output schema and cannot be streamed` });
+            return;
+        }
+
+        // Collect the session's documents from the registry, plus documents embedded in older sessions
+        const { documents, legacyDocuments } = await documentService.getSessionDocuments(chatSession, jwt);
+        if (documents.length === 0 && legacyDocuments.length === 0) {
+            console.log(`[CONTROLLER] No documents linked to chat ${chatId}`);
+            res.status(400).json({ error: 'No documents available for analysis in this chat session' });
+            return;
+        }
+
+        const documentsList: OCRResponse[] = [...legacyDocuments];
+        const documentLanguages: Array<DocumentLanguage | null> = legacyDocuments.map(detectDocumentLanguage);
+        const documentIds: string[] = [];
+        let ocrCacheStats: { hits: number, misses: number } | undefined;
+
+        for (const document of documents) {
+            if (document.ocrStatus === 'completed' && document.ocrResult) {
+                documentsList.push({ ...document.ocrResult, fileName: document.fileName });
+                documentLanguages.push(document.language ?? detectDocumentLanguage(document.ocrResult));
+                documentIds.push(document.id!);
+                continue;
+            }
+
+            // Documents linked without a usable OCR result are processed now
+            ocrCacheStats = ocrCacheStats ?? { hits: 0, misses: 0 };
+            try {
+                const { document: registered, ocr, cacheHit } = await documentService.registerStoredFile(userId, document.filePath, true, jwt);
+                documentsList.push(ocr);
+                documentLanguages.push(registered.language ?? null);
+                documentIds.push(document.id!);
+                if (cacheHit) {
+                    ocrCacheStats.hits++;
+                } else {
+                    ocrCacheStats.misses++;
+                }
+            } catch (fileError) {
+                console.error(`[CONTROLLER] Error processing file ${document.filePath}:`, fileError);
             }
         }
 
@@ -353,49 +942,161 @@ export const analyzeChatDocuments = async (req: Request<{ chatId: string }, {},
         console.log(`[CONTROLLER] Analyzing ${documentsList.length} documents from chat ${chatId}`);
 
         // Create a user message that includes any additional prompt from the user
-        const userContent = prompt 
-            ? `${prompt}\n\nDies sind zusätzliche vom Nutzer geforderte Instruktionen, inkludiere sie wenn sie zur Dokumentenanalyse passen.` 
-            : `Bitte analysiere die bereitgestellten Dokumente und erstelle eine strukturierte Analyse.`;
-        
+        const { analysisUserInstructionsPrompt, defaultAnalysisRequestPrompt, documentAnalysisPrompt } = getPrompts(req.language);
+        const userTemplate = prompt ? analysisUserInstructionsPrompt : defaultAnalysisRequestPrompt;
+        const userContent = prompt
+            ? analysisUserInstructionsPrompt.render({ prompt })
+            : defaultAnalysisRequestPrompt.render({});
+
+        // Use the profile or documentAnalysisPrompt as system message, followed by the language instructions
+        const systemPrompt: RenderedPrompt = profile
+            ? analysisProfileService.buildSystemPrompt(profile, req.language)
+            : { text: documentAnalysisPrompt.render({}), promptVersion: promptVersion(documentAnalysisPrompt) };
+        const languageInstructions = renderLanguageInstructions(req.language, documentLanguages);
+        const analysisPromptVersion = `${systemPrompt.promptVersion},${languageInstructions.promptVersion},${userTemplate.ref}`;
+
         const messagesToMistral: MistralMessage[] = [
-            { role: 'system', content: documentAnalysisPrompt }, // Use documentAnalysisPrompt as system message
+            { role: 'system', content: `${systemPrompt.text}\n\n${languageInstructions.text}` },
             { role: 'user', content: userContent } // Put the user's additional instructions in the user message
         ];
 
-        // Get the analysis result and usage information
-        let analysisResult: AnalysisResult;
-        let tokenUsage: UsageInfo | undefined;
-        
+        const usageDetails = { provider: provider.name, model, sessionId: chatId, documentIds };
+
+        // Reserve the estimated cost of the analysis against the user's token budget
+        let reservation: QuotaReservation;
         try {
-            // Use the JSON structured response method
-            const response = await mistralService.getStructuredJsonResponse(messagesToMistral, documentsList);
-            analysisResult = response.result;
-            tokenUsage = response.usage;
-            console.log(`[CONTROLLER] Successfully received analysis result`);
-            
-            // Track usage if available
-            if (tokenUsage) {
-                await supabaseService.trackUserUsage(
+            const estimatedTokens = estimatePromptTokens(messagesToMistral, documentsList) + EXPECTED_COMPLETION_TOKENS.analysis;
+            const quota = await quotaService.reserve(req.user, 'analysis', estimatedTokens, jwt);
+            reservation = quota.reservation;
+            setQuotaHeaders(res, quota.status);
+        } catch (quotaError) {
+            if (quotaError instanceof QuotaExceededError) {
+                sendQuotaExceeded(res, quotaError);
+                return;
+            }
+            throw quotaError;
+        }
+
+        // Streamed analysis: each annotation is anchored and sent as soon as the model has written it
+        if (streamFormat) {
+            initAnalysisStream(res, streamFormat);
+
+            let annotationCount = 0;
+            try {
+                console.log(`[CONTROLLER] Requesting ${provider.name}/${model} streamed analysis`);
+                const stream = provider.stream(messagesToMistral, { model, documents: documentsList, jsonMode: true });
+                const { items, skipped, usage } = await streamStructuredArray<Annotation>(
+                    stream,
+                    analysisResultSchema,
+                    (annotation, index) => {
+                        annotationCount++;
+                        sendAnalysisEvent(res, streamFormat, 'annotation', { index, annotation: resolveAnnotationAnchor(annotation, documentsList) });
+                    },
+                    { label: `${provider.name}/${model}` }
+                );
+
+                await quotaService.settle(reservation, usage, usageDetails);
+                if (usage) {
+                    sendAnalysisEvent(res, streamFormat, 'usage', usage);
+                }
+
+                // Store the complete set, anchored the same way as the streamed annotations
+                const annotations = resolveAnnotationAnchors(items, documentsList);
+                const analysisRecord = await supabaseService.createDocumentAnalysis(
+                    chatId,
                     userId,
-                    'analysis',
-                    tokenUsage.totalTokens,
-                    jwt
+                    prompt || 'Standard document analysis',
+                    annotations,
+                    documentIds,
+                    jwt,
+                    { profileId: profile?.id ?? null, promptVersion: analysisPromptVersion }
                 );
-                console.log(`[CONTROLLER] Tracked usage of ${tokenUsage.totalTokens} tokens for analysis`);
+                if (!analysisRecord) {
+                    console.error(`[CONTROLLER] Failed to store streamed analysis record in database`);
+                }
+
+                console.log(`[CONTROLLER] Streamed ${items.length} annotations (${skipped.length} dropped)`);
+                sendAnalysisEvent(res, streamFormat, 'done', {
+                    recordId: analysisRecord?.id || null,
+                    count: items.length,
+                    skipped,
+                    chatId,
+                    documentIds,
+                    documentLanguages,
+                    language: req.language,
+                    profileId: profile?.id ?? null,
+                    promptVersion: analysisPromptVersion,
+                    ...(ocrCacheStats ? { ocrCache: ocrCacheStats } : {})
+                });
+            } catch (error) {
+                if (error instanceof StructuredOutputError) {
+                    console.error(`[CONTROLLER] Invalid streamed analysis after ${annotationCount} annotation(s):`, error.errors);
+                    await quotaService.settle(reservation, error.usage, usageDetails);
+                    sendAnalysisEvent(res, streamFormat, 'error', {
+                        message: localizeError('The model did not return a valid analysis', req.language),
+                        details: error.errors
+                    });
+                } else {
+                    console.error(`[CONTROLLER] Error streaming analysis:`, error);
+                    quotaService.release(reservation);
+                    sendAnalysisEvent(res, streamFormat, 'error', { message: localizeError('Failed to analyze the chat documents', req.language) });
+                }
             }
+            res.end();
+            return;
+        }
+
+        // Get the schema-validated analysis result and usage information
+        let response: ProviderJsonCompletion<unknown>;
+        try {
+            console.log(`[CONTROLLER] Requesting ${provider.name}/${model} structured analysis`);
+            const outputSchema = profile ? analysisProfileService.getOutputSchema(profile) : analysisResultSchema;
+            response = await provider.completeJson<unknown>(messagesToMistral, outputSchema, {
+                model,
+                documents: documentsList,
+                language: req.language
+            });
         } catch (error) {
-            console.error(`[CONTROLLER] Error getting structured response:`, error);
-            // Default to empty array if there's an error
-            analysisResult = [];
+            if (!(error instanceof StructuredOutputError)) {
+                quotaService.release(reservation);
+                throw error;
+            }
+
+            console.error(`[CONTROLLER] Invalid structured analysis after ${error.attempts} attempt(s):`, error.errors);
+            await quotaService.settle(reservation, error.usage, usageDetails);
+            res.status(502).json({
+                error: 'The model did not return a valid analysis',
+                details: error.errors,
+                attempts: error.attempts
+            });
+            return;
+        }
+
+        const tokenUsage: ProviderUsage | undefined = response.usage;
+
+        // Verify that quoted passages really appear on the stated pages; results of custom profile schemas are kept as returned
+        let analysisResult: unknown = response.result;
+        if (!profile || analysisProfileService.producesAnnotations(profile)) {
+            const annotations = resolveAnnotationAnchors(response.result as AnalysisResult, documentsList);
+            const anchoredCount = annotations.filter(annotation => annotation.anchorStatus === 'anchored').length;
+            console.log(`[CONTROLLER] Successfully received analysis result after ${response.attempts} attempt(s) (${anchoredCount}/${annotations.length} annotations anchored)`);
+            analysisResult = annotations;
+        } else {
+            console.log(`[CONTROLLER] Successfully received ${profile.name} analysis result after ${response.attempts} attempt(s)`);
         }
 
+        // Settle the reservation against the actual usage
+        await quotaService.settle(reservation, tokenUsage, usageDetails);
+
         // Store analysis in the database
         const analysisRecord = await supabaseService.createDocumentAnalysis(
             chatId,
             userId,
             prompt || 'Standard document analysis',
             analysisResult,
-            jwt
+            documentIds,
+            jwt,
+            { profileId: profile?.id ?? null, promptVersion: analysisPromptVersion }
         );
 
         if (!analysisRecord) {
@@ -410,8 +1111,14 @@ export const analyzeChatDocuments = async (req: Request<{ chatId: string }, {},
             chatId,
             timestamp: new Date().toISOString(),
             analysis: analysisResult,
+            documentIds,
+            documentLanguages,
+            language: req.language,
+            profileId: profile?.id ?? null,
+            promptVersion: analysisPromptVersion,
             recordId: analysisRecord?.id || null,
-            tokenUsage: tokenUsage // Include token usage in response
+            tokenUsage: tokenUsage, // Include token usage in response
+            ...(ocrCacheStats ? { ocrCache: ocrCacheStats } : {}) // Only present when documents were OCR'd for this request
         });
 
     } catch (error) {
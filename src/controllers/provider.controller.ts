@@ -0,0 +1,11 @@
+import { Request, Response } from 'express';
+import providerRegistry from '../services/providers/provider.registry';
+
+/**
+ * Lists the chat providers and models that can be selected on chat and analysis routes
+ * @param req Request
+ * @param res Response with the available providers
+ */
+export const listProviders = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({ providers: providerRegistry.list() });
+};
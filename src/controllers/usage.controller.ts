@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import config from '../config/env';
+import usageService from '../services/usage.service';
+import { UsageQueryDto } from '../dto/usage.dto';
+
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Resolves the requested date range, defaulting to the current UTC month up to today
+ */
+const getDateRange = (query: UsageQueryDto): { from: string, to: string } => {
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return {
+        from: query.from || formatDay(monthStart),
+        to: query.to || formatDay(now)
+    };
+};
+
+/**
+ * Gets the usage of the authenticated user, summed and broken down by model, operation and day.
+ * @param req Request with optional from/to query parameters (YYYY-MM-DD, inclusive)
+ * @param res Response with the usage summary
+ */
+export const getMyUsage = async (req: Request<{}, {}, {}, UsageQueryDto>, res: Response): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ error: 'Unauthorized: Missing or invalid JWT token' });
+            return;
+        }
+        const jwt = authHeader.split(' ')[1];
+
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+
+        const { from, to } = getDateRange(req.query);
+        const rows = await usageService.getReport(new Date(from), new Date(to), req.user.id, jwt);
+
+        res.status(200).json(usageService.summarize(rows, from, to));
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting usage:`, error);
+        res.status(500).json({ error: 'Failed to get usage' });
+    }
+};
+
+/**
+ * Gets the usage of all users aggregated per user, day, provider, model and operation.
+ * Reads across users with the service role key, the route is restricted to admins.
+ * @param req Request with optional from/to, userId and format (json or csv) query parameters
+ * @param res Response with the report rows as JSON or as a CSV download
+ */
+export const getAdminUsage = async (req: Request<{}, {}, {}, UsageQueryDto>, res: Response): Promise<void> => {
+    try {
+        if (!req.user || !req.user.id) {
+            res.status(401).json({ error: 'User not authenticated' });
+            return;
+        }
+
+        if (!config.supabaseServiceRoleKey) {
+            res.status(503).json({ error: 'Usage reports across users require SUPABASE_SERVICE_ROLE_KEY' });
+            return;
+        }
+
+        const { from, to } = getDateRange(req.query);
+        const rows = await usageService.getReport(new Date(from), new Date(to), req.query.userId || null, config.supabaseServiceRoleKey);
+
+        if (req.query.format === 'csv') {
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="usage-${from}-${to}.csv"`);
+            res.status(200).send(usageService.toCsv(rows));
+            return;
+        }
+
+        res.status(200).json({ from, to, rows });
+    } catch (error) {
+        console.error(`[CONTROLLER] Error getting usage report:`, error);
+        res.status(500).json({ error: 'Failed to get usage report' });
+    }
+};
@@ -0,0 +1,30 @@
+import { JsonSchema } from '../utils/jsonSchema';
+
+/**
+ * Named analysis configuration, e.g. GDPR review or NDA review
+ */
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  systemPrompt: string; // Role and task of the model
+  severityGuidance: string | null; // When to use info, warning and error; the default guidance applies if null
+  requiredChecks: string[]; // Points the analysis must cover
+  outputSchema: JsonSchema | null; // Schema of the result; the annotation schema applies if null
+  isActive: boolean; // Inactive profiles cannot be used for new analyses
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data to create or replace an analysis profile
+ */
+export interface AnalysisProfileInputDto {
+  name: string;
+  description?: string | null;
+  systemPrompt: string;
+  severityGuidance?: string | null;
+  requiredChecks?: string[];
+  outputSchema?: JsonSchema | null;
+  isActive?: boolean;
+}
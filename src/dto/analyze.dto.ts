@@ -11,6 +11,21 @@ export interface AnalyzeRequestDto {
    * The path to the file in Supabase storage
    */
   filePath: string;
+
+  /**
+   * Optional chat provider, only 'gemini' because the file is sent to the model inline
+   */
+  provider?: string;
+
+  /**
+   * Optional Gemini model, defaults to the provider's default model
+   */
+  model?: string;
+
+  /**
+   * Optional analysis profile providing the system prompt, required checks and output schema
+   */
+  profileId?: string;
 }
 
 /**
@@ -21,6 +36,21 @@ export interface ChatAnalyzeRequestDto {
    * Additional prompt to guide the analysis
    */
   prompt: string;
+
+  /**
+   * Optional chat provider (e.g. 'mistral', 'gemini'), defaults to mistral
+   */
+  provider?: string;
+
+  /**
+   * Optional model offered by the provider, defaults to the provider's default model
+   */
+  model?: string;
+
+  /**
+   * Optional analysis profile providing the system prompt, required checks and output schema
+   */
+  profileId?: string;
 }
 
 /**
@@ -46,6 +76,21 @@ export interface DocumentAnalysisResult {
    * Prompt used for the analysis
    */
   prompt: string;
+
+  /**
+   * IDs of the registered documents that were analyzed
+   */
+  documentIds: string[];
+
+  /**
+   * ID of the analysis profile used, null for the standard analysis
+   */
+  profileId: string | null;
+
+  /**
+   * Prompt template versions that produced the analysis, e.g. "document-analysis@1,analysis-user-instructions@1"
+   */
+  promptVersion: string | null;
   
   /**
    * Structured analysis result as an array of annotations
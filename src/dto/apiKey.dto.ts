@@ -0,0 +1,37 @@
+import { Permission } from './rbac.dto';
+
+/**
+ * API key metadata returned to its owner. The secret is never stored, only its hash.
+ */
+export interface ApiKeyDto {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart
+  scopes: Array<Permission | '*'>; // '*' grants all permissions of the owner's role
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Data required to store a new API key
+ */
+export interface CreateApiKeyDto {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: Array<Permission | '*'>;
+  expiresAt: Date | null;
+}
+
+/**
+ * Body of the create API key request
+ */
+export interface CreateApiKeyRequestDto {
+  name: string;
+  scopes?: Array<Permission | '*'>;
+  expiresInDays?: number;
+}
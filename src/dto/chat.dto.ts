@@ -1,4 +1,5 @@
 import { OCRResponse } from './ocr.dto';
+import { DocumentOcrStatus } from './document.dto';
 
 /**
  * Data Transfer Object for chat requests
@@ -18,6 +19,16 @@ export interface ChatRequestDto {
    * Optional list of file paths in the Supabase bucket, used to add a file to the chat that gets processed by mistral OCR
    */
   filePaths?: string[];
+
+  /**
+   * Optional chat provider (e.g. 'mistral', 'gemini'), defaults to mistral
+   */
+  provider?: string;
+
+  /**
+   * Optional model offered by the provider, defaults to the provider's default model
+   */
+  model?: string;
 }
 
 /**
@@ -38,6 +49,16 @@ export interface AssistantChatRequestDto {
    * Optional list of file paths in the Supabase bucket
    */
   filePaths?: string[];
+
+  /**
+   * Optional chat provider, only 'gemini' because the history is stored in Gemini's format and files are sent inline
+   */
+  provider?: string;
+
+  /**
+   * Optional Gemini model, defaults to the provider's default model
+   */
+  model?: string;
 }
 
 /**
@@ -81,7 +102,30 @@ export interface ChatHistoryDto {
 export interface MistralMessage {
   role: 'user' | 'assistant' | 'system'; // System role might be useful for initial prompts
   content: string | ContentChunk[]; // String for text-only or ContentChunk array for multimodal
-  // Potentially add other fields if needed, like timestamps per message
+  citations?: Citation[]; // Document pages cited in an assistant message
+  id?: string; // Stable message id, set on stored messages
+  parentId?: string | null; // Previous message of the branch, null for the first message
+  createdAt?: string; // ISO timestamp, set on stored messages
+  status?: 'incomplete'; // Set on assistant messages whose generation was interrupted, unset when complete
+}
+
+/**
+ * A reference from an assistant answer to a page of a chat document
+ */
+export interface Citation {
+  /**
+   * The reference as it appears in the answer, e.g. [doc:vertrag.pdf#p3]
+   */
+  reference: string;
+  document: string;
+  /**
+   * Page index starting from 0 (OCRPageObject.index)
+   */
+  pageIndex: number;
+  /**
+   * Excerpt of the cited page
+   */
+  snippet: string;
 }
 
 /**
@@ -111,8 +155,138 @@ export type ContentChunk = TextChunk | ImageURLChunk;
 export interface ChatSessionDto {
   id: string;
   userId: string;
-  messages: MistralMessage[]; // Array of user/assistant messages
+  title?: string | null; // Optional user-defined title
+  messages: MistralMessage[]; // All user/assistant messages of all branches, in creation order
   documents: OCRResponse[]; // Array of OCR results associated with the session
+  activeMessageId: string | null; // Last message of the active branch, null means the last stored message
+  contextSummary: ChatContextSummary | null; // Rolling summary of older messages, see ChatContextSummary
+  version: number; // Raised by every update, used to detect concurrent writes
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Summary of the older messages of a branch that no longer fit into the model's context window.
+ * It replaces the messages from the root up to throughMessageId and only applies to branches containing that message.
+ */
+export interface ChatContextSummary {
+  content: string;
+  throughMessageId: string; // Last message covered by the summary
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Query parameters for listing chat sessions
+ */
+export interface ListChatSessionsQueryDto {
+  /**
+   * Maximum number of sessions to return (default 20, max 100)
+   */
+  limit?: string;
+
+  /**
+   * Number of sessions to skip for pagination
+   */
+  offset?: string;
+}
+
+/**
+ * Data Transfer Object for editing a user message, which creates a new branch
+ */
+export interface EditChatMessageRequestDto {
+  /**
+   * The new prompt replacing the edited message
+   */
+  prompt: string;
+
+  /**
+   * Optional chat provider and model, as for chat requests
+   */
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Data Transfer Object for regenerating an assistant message
+ */
+export interface RegenerateChatMessageRequestDto {
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Data Transfer Object for resuming an incomplete assistant message
+ */
+export interface ResumeChatMessageRequestDto {
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Data Transfer Object for switching the active branch
+ */
+export interface SwitchChatBranchRequestDto {
+  /**
+   * Message to show; the branch continues with its most recent descendants
+   */
+  messageId: string;
+}
+
+/**
+ * Data Transfer Object for renaming a chat session
+ */
+export interface UpdateChatSessionRequestDto {
+  /**
+   * The new title for the chat session
+   */
+  title: string;
+}
+
+/**
+ * Summary of a chat session, used to build the chat list in the client sidebar.
+ */
+export interface ChatSessionSummaryDto {
+  id: string;
+  title: string | null;
+  lastMessagePreview: string | null;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Document metadata returned with a chat session, without the full OCR payload.
+ */
+export interface ChatDocumentMetadataDto {
+  documentId: string | null; // null for documents embedded in legacy sessions
+  fileName: string | null;
+  mimeType: string | null;
+  ocrStatus: DocumentOcrStatus;
+  model: string | null;
+  pageCount: number;
+  pagesProcessed: number;
+  docSizeBytes: number | null;
+}
+
+/**
+ * Message of the active branch, with the alternatives sharing its parent
+ */
+export interface ChatBranchMessageDto extends MistralMessage {
+  id: string;
+  parentId: string | null;
+  siblingIds: string[]; // Alternatives created by editing or regenerating, including this message
+  siblingIndex: number;
+}
+
+/**
+ * Chat session with the messages of its active branch and document metadata.
+ */
+export interface ChatSessionDetailDto {
+  id: string;
+  title: string | null;
+  activeMessageId: string | null;
+  messages: ChatBranchMessageDto[];
+  documents: ChatDocumentMetadataDto[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,66 @@
+import { Annotation } from '../utils/types';
+import { ProviderUsage } from '../services/providers/chatProvider';
+
+/**
+ * Data Transfer Object for contract comparison requests
+ */
+export interface CompareRequestDto {
+  /**
+   * Path of the original version in Supabase storage
+   */
+  baseFilePath: string;
+
+  /**
+   * Path of the revised version in Supabase storage
+   */
+  revisedFilePath: string;
+
+  /**
+   * Optional additional instructions for the legal assessment
+   */
+  prompt?: string;
+
+  /**
+   * Optional chat provider (e.g. 'mistral', 'gemini'), defaults to mistral
+   */
+  provider?: string;
+
+  /**
+   * Optional model offered by the provider, defaults to the provider's default model
+   */
+  model?: string;
+}
+
+/**
+ * A clause that was added, removed or changed between two contract versions
+ */
+export interface ClauseChange {
+  id: string; // e.g. "c1", referenced by the model's assessment
+  type: 'added' | 'removed' | 'changed';
+  baseHeading: string | null;
+  revisedHeading: string | null;
+  baseText: string | null;
+  revisedText: string | null;
+  basePageIndex: number | null;
+  revisedPageIndex: number | null;
+  similarity: number; // Word overlap of both versions from 0 to 1
+  assessment: Annotation | null; // Legal assessment of the change, null if the model skipped it
+}
+
+/**
+ * Stored comparison of two contract versions
+ */
+export interface DocumentComparison {
+  id?: string;
+  userId: string;
+  baseDocumentId: string;
+  revisedDocumentId: string;
+  prompt: string;
+  changes: ClauseChange[];
+  unchangedCount: number; // Sections identical in both versions
+  provider: string;
+  model: string;
+  tokenUsage?: ProviderUsage | null;
+  promptVersion?: string | null; // Prompt template versions that produced the assessments
+  createdAt?: Date;
+}
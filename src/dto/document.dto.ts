@@ -1,3 +1,6 @@
+import { OCRResponse } from './ocr.dto';
+import { DocumentLanguage } from '../utils/language';
+
 /**
  * Annotation levels enum
  */
@@ -17,17 +20,76 @@ export interface Annotation {
 }
 
 /**
- * Document data structure
+ * OCR processing state of a document
+ */
+export type DocumentOcrStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Document data structure. Documents are the single registry entry for an uploaded file,
+ * referenced by chat sessions and analyses through their ID.
  */
 export interface Document {
   id?: string;
   userId: string;
   filePath: string;
   fileName: string;
+  contentHash?: string | null; // SHA-256 of the file bytes
+  mimeType?: string | null;
+  pageCount?: number | null;
+  ocrStatus?: DocumentOcrStatus;
+  language?: DocumentLanguage | null; // Detected from the OCR result, null if unknown
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * Document including its stored OCR result
+ */
+export interface DocumentWithOcr extends Document {
+  ocrResult: OCRResponse | null;
+  ocrIncludesImages: boolean;
+}
+
+/**
+ * Document with the model and usage of its stored OCR result, loaded without the pages
+ */
+export interface DocumentWithOcrSummary extends Document {
+  ocrModel: string | null;
+  ocrPagesProcessed: number;
+  ocrDocSizeBytes: number | null;
+}
+
+/**
+ * Fields that can be updated on a document record
+ */
+export interface UpdateDocumentDto {
+  contentHash?: string | null;
+  mimeType?: string | null;
+  pageCount?: number | null;
+  ocrStatus?: DocumentOcrStatus;
+  ocrResult?: OCRResponse | null;
+  ocrIncludesImages?: boolean;
+  language?: DocumentLanguage | null;
+}
+
+/**
+ * Query parameters for listing documents
+ */
+export interface ListDocumentsQueryDto {
+  limit?: string;
+  offset?: string;
+}
+
+/**
+ * Query parameters for fetching a single document
+ */
+export interface GetDocumentQueryDto {
+  /**
+   * Set to 'true' to include the full OCR result
+   */
+  includeOcr?: string;
+}
+
 /**
  * Document annotations data structure
  */
@@ -45,6 +107,8 @@ export interface CreateDocumentDto {
   userId: string;
   filePath: string;
   fileName: string;
+  mimeType?: string | null;
+  contentHash?: string | null;
 }
 
 /**
@@ -53,4 +117,6 @@ export interface CreateDocumentDto {
 export interface CreateDocumentAnnotationsDto {
   documentId: string;
   annotations: Annotation[];
+  profileId?: string | null; // Analysis profile the annotations were generated with
+  promptVersion?: string | null; // Prompt template versions the annotations were generated with
 } 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { AnnotationAnchor, AnnotationAnchorStatus } from '../utils/types';
+import { ProviderUsage } from '../services/providers/chatProvider';
+
+/**
+ * Value types of extraction fields. Dates are YYYY-MM-DD, durations ISO 8601 (e.g. "P3M"),
+ * money is { amount, currency } with an ISO 4217 currency code.
+ */
+export type ExtractionFieldType = 'string' | 'number' | 'boolean' | 'date' | 'duration' | 'money' | 'object';
+
+/**
+ * A field to extract from a document
+ */
+export interface ExtractionFieldDefinition {
+  name: string; // Key in the result, letters, digits and underscores
+  type: ExtractionFieldType;
+  description: string; // Tells the model what to look for
+  multiple?: boolean; // Extract a list of values
+  enum?: string[]; // Allowed values of string fields
+  fields?: ExtractionFieldDefinition[]; // Nested fields of object fields
+}
+
+/**
+ * A set of fields extracted together, built in or defined by the user per request
+ */
+export interface ExtractionSchemaDefinition {
+  id: string;
+  name: string;
+  description: string;
+  fields: ExtractionFieldDefinition[];
+}
+
+/**
+ * Data Transfer Object for extraction requests. Either schemaId or schema is required.
+ */
+export interface ExtractRequestDto {
+  filePath: string;
+  schemaId?: string; // ID of a built-in schema
+  schema?: ExtractionSchemaDefinition; // User-defined schema
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * An extracted field with the model's confidence and the page it was found on
+ */
+export interface ExtractedField {
+  value: unknown; // Typed according to the field definition, null if not found
+  confidence: number; // 0 to 1
+  source: AnnotationAnchor | null; // Page and verbatim quote the value was taken from
+  sourceStatus: AnnotationAnchorStatus | null; // 'anchored' if the quote was found on the stated page
+  sourceError?: string;
+}
+
+/**
+ * Result of an extraction request
+ */
+export interface ExtractionResultDto {
+  schemaId: string;
+  documentId: string;
+  fields: Record<string, ExtractedField>;
+  tokenUsage?: ProviderUsage;
+  promptVersion: string; // Prompt template version that produced the extraction
+}
@@ -8,6 +8,10 @@ export class OcrRequestDto {
     @IsOptional()
     @IsBoolean()
     includeImageBase64?: boolean; // Optional properties don't need the assertion
+
+    @IsOptional()
+    @IsBoolean()
+    async?: boolean; // Run as a background job and respond with 202 and a job ID
 }
 
 // Types based on Mistral AI OCR Response structure
@@ -89,3 +93,37 @@ export type OCRResponse = {
    */
   fileName?: string;
 };
+
+// Types for asynchronous OCR jobs
+
+export type OcrJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export type OcrJobDto = {
+  id: string;
+  userId: string;
+  filePath: string;
+  includeImageBase64: boolean;
+  status: OcrJobStatus;
+  /**
+   * Progress in percent (0-100)
+   */
+  progress: number;
+  /**
+   * Current processing stage, e.g. 'downloading', 'uploading', 'ocr'
+   */
+  stage: string | null;
+  result?: OCRResponse | null;
+  cacheHit?: boolean | null;
+  error?: string | null;
+  /**
+   * Number of times a worker claimed the job
+   */
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Callback reporting OCR processing progress (stage name and percent complete)
+ */
+export type OcrProgressCallback = (stage: string, progress: number) => void;
@@ -0,0 +1,53 @@
+/**
+ * Time windows over which token budgets are enforced (UTC calendar day and month)
+ */
+export type QuotaWindow = 'daily' | 'monthly';
+
+/**
+ * Token limits per window. A missing or null limit means unlimited.
+ */
+export interface QuotaLimits {
+  daily?: number | null;
+  monthly?: number | null;
+}
+
+/**
+ * Budget configuration loaded from QUOTA_LIMITS. User entries override role entries,
+ * users without a matching role fall back to the 'default' role.
+ */
+export interface QuotaConfig {
+  roles: Record<string, QuotaLimits>;
+  users?: Record<string, QuotaLimits>;
+}
+
+/**
+ * Usage and remaining budget of one window
+ */
+export interface QuotaWindowStatus {
+  window: QuotaWindow;
+  limit: number | null;
+  used: number;
+  reserved: number; // Tokens reserved by requests still running
+  remaining: number | null;
+  resetsAt: Date;
+}
+
+/**
+ * Budget state of a user
+ */
+export interface QuotaStatus {
+  userId: string;
+  role: string;
+  windows: QuotaWindowStatus[];
+}
+
+/**
+ * Tokens held for a running request until its actual usage is known
+ */
+export interface QuotaReservation {
+  id: string;
+  userId: string;
+  usageType: 'chat' | 'analysis' | 'embedding';
+  estimatedTokens: number;
+  jwt: string; // Records the usage when no service role key is set
+}
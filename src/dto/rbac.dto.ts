@@ -0,0 +1,47 @@
+/**
+ * Permissions checked by the routes. '*' in a role's permission list grants all of them.
+ */
+export const PERMISSIONS = [
+  'chat:send',
+  'assistant:chat',
+  'analysis:run',
+  'ocr:run',
+  'chats:read',
+  'chats:write',
+  'documents:read',
+  'providers:read',
+  'usage:read',
+  'usage:admin',
+  'api_keys:manage',
+  'profiles:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Permissions API keys can never hold, even with the '*' scope: keys cannot create further keys
+ */
+export const NON_DELEGABLE_PERMISSIONS: Permission[] = ['api_keys:manage'];
+
+/**
+ * Permissions per role loaded from RBAC_PERMISSIONS. Users whose role is not listed
+ * fall back to the 'default' role.
+ */
+export interface PermissionMatrix {
+  roles: Record<string, Array<Permission | '*'>>;
+}
+
+/**
+ * Entry of the audit log
+ */
+export interface AuditEventDto {
+  event: 'access_denied' | 'api_key_created' | 'api_key_revoked' | 'analysis_profile_changed';
+  userId: string | null;
+  role: string | null;
+  method: string;
+  path: string;
+  reason: string;
+  required: string[]; // Roles or permissions the route requires, empty for other events
+  ip?: string;
+  createdAt: Date;
+}
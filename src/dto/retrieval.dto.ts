@@ -0,0 +1,35 @@
+/**
+ * A chunk of OCR'd page markdown with its embedding, stored per chat session
+ */
+export interface DocumentChunk {
+  sessionId: string;
+  userId: string;
+  /**
+   * Stable key of the source document (SHA-256 of its page markdown)
+   */
+  documentKey: string;
+  documentName: string;
+  /**
+   * Index of the source page, starting from 0 (OCRPageObject.index)
+   */
+  pageIndex: number;
+  chunkIndex: number;
+  content: string;
+  /**
+   * Name of the embedder that produced the vector, vectors of different embedders are not comparable
+   */
+  embedder: string;
+  embedding: number[];
+}
+
+/**
+ * A chunk selected for a query, with its cosine similarity score
+ */
+export interface RetrievedChunk {
+  documentKey: string;
+  documentName: string;
+  pageIndex: number;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
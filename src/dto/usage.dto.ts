@@ -0,0 +1,69 @@
+/**
+ * Operation a usage record belongs to
+ */
+export type UsageType = 'chat' | 'analysis' | 'ocr' | 'embedding';
+
+/**
+ * A single model call recorded in user_usage
+ */
+export interface UsageRecordDto {
+  userId: string;
+  usageType: UsageType;
+  provider: string; // e.g. 'mistral', 'gemini'
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  ocrPages?: number;
+  sessionId?: string | null; // Chat session or assistant chat history
+  documentIds?: string[];
+}
+
+/**
+ * Usage aggregated per user, day, provider, model and operation
+ */
+export interface UsageReportRow {
+  userId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  provider: string;
+  model: string;
+  usageType: string;
+  requestCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  ocrPages: number;
+}
+
+/**
+ * Summed counters of a usage breakdown entry
+ */
+export interface UsageTotals {
+  requestCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  ocrPages: number;
+}
+
+/**
+ * Usage of a single user with per-model, per-operation and per-day breakdowns
+ */
+export interface UsageSummaryDto {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byModel: Array<UsageTotals & { provider: string, model: string }>;
+  byOperation: Array<UsageTotals & { usageType: string }>;
+  byDay: Array<UsageTotals & { day: string }>;
+}
+
+/**
+ * Query parameters of the usage endpoints. Dates are YYYY-MM-DD (UTC), `to` is inclusive.
+ */
+export interface UsageQueryDto {
+  from?: string;
+  to?: string;
+  userId?: string; // Admin report only
+  format?: 'json' | 'csv'; // Admin report only
+}
@@ -2,7 +2,9 @@ import express from 'express';
 import config from './config/env';
 import chatRoutes from './routes/routes';
 import { authenticateToken } from './middleware/auth.middleware';
+import { negotiateLanguage } from './middleware/language.middleware';
 import cors from 'cors';
+import ocrJobService from './services/ocrJob.service';
 
 const app = express();
 
@@ -11,6 +13,9 @@ app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Output language, also used to localize error messages
+app.use(negotiateLanguage);
+
 // Authentication middleware (skips for health endpoint)
 app.use((req, res, next) => {
   if (req.path === '/health') {
@@ -30,4 +35,9 @@ app.get('/health', (req, res) => {
 // Start server
 app.listen(config.port, () => {
   console.log(`Server running on port ${config.port}`);
+
+  // Resume OCR jobs interrupted by a restart
+  ocrJobService.recoverJobs().catch(error => {
+    console.error('Failed to recover OCR jobs:', error);
+  });
 }); 
\ No newline at end of file
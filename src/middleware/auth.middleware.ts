@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import config from '../config/env';
+import apiKeyService, { InvalidApiKeyError } from '../services/apiKey.service';
+import jwksKeyStore, { JwksError } from '../services/jwks.service';
+import { ApiKeyDto } from '../dto/apiKey.dto';
 
 declare global {
     namespace Express {
@@ -12,29 +15,120 @@ declare global {
                 user_role?: string;
                 app_metadata?: any;
                 user_metadata?: any;
+                authMethod?: 'jwt' | 'api_key';
+                apiKeyId?: string;
+                scopes?: string[]; // Only set for API keys, limits the role's permissions
             };
         }
     }
 }
 
-export const authenticateToken = (
+/**
+ * Authenticates a request made with an API key. The request then acts as the key's owner, with the
+ * owner's current role:
+ * the Authorization header is replaced with a short-lived JWT for the owner, so controllers
+ * and RLS-scoped Supabase calls work the same as for JWT-authenticated requests.
+ */
+const authenticateApiKey = async (key: string, req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!apiKeyService.enabled) {
+        res.status(401).json({ error: 'API keys are not enabled' });
+        return;
+    }
+
+    let apiKey: ApiKeyDto;
+    let role: string;
+    try {
+        apiKey = await apiKeyService.verify(key);
+        role = await apiKeyService.getOwnerRole(apiKey);
+    } catch (error) {
+        if (error instanceof InvalidApiKeyError) {
+            res.status(401).json({ error: error.message });
+            return;
+        }
+        console.error('[AUTH] Error verifying API key:', error);
+        res.status(500).json({ error: 'Failed to authenticate API key' });
+        return;
+    }
+
+    req.headers.authorization = `Bearer ${apiKeyService.createUserToken(apiKey, role)}`;
+    req.user = {
+        id: apiKey.userId,
+        email: '',
+        role: 'authenticated',
+        user_role: role,
+        authMethod: 'api_key',
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes
+    };
+
+    next();
+};
+
+/**
+ * Algorithms verified against the JWKS, HS256 is verified with SUPABASE_JWT_SECRET
+ */
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+/**
+ * Verifies a JWT with the key matching its algorithm and checks iss, aud and expiry
+ * (with the configured clock skew)
+ * @param token JWT from the request
+ * @returns Decoded payload
+ */
+const verifyJwt = async (token: string): Promise<any> => {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+        throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+    let key: jwt.Secret;
+    if (algorithm === 'HS256') {
+        if (!config.supabaseJwtSecret) {
+            throw new jwt.JsonWebTokenError('HS256 tokens are not accepted');
+        }
+        key = config.supabaseJwtSecret;
+    } else if (ASYMMETRIC_ALGORITHMS.includes(algorithm)) {
+        if (!jwksKeyStore) {
+            throw new jwt.JsonWebTokenError(`${algorithm} tokens are not accepted without a JWKS`);
+        }
+        key = await jwksKeyStore.getKey(decoded.header.kid);
+    } else {
+        throw new jwt.JsonWebTokenError(`Unsupported algorithm ${algorithm}`);
+    }
+
+    return jwt.verify(token, key, {
+        algorithms: [algorithm],
+        issuer: config.jwtIssuers.length > 0 ? config.jwtIssuers as [string, ...string[]] : undefined,
+        audience: config.jwtAudiences.length > 0 ? config.jwtAudiences as [string, ...string[]] : undefined,
+        clockTolerance: config.jwtClockSkewSeconds
+    });
+};
+
+export const authenticateToken = async (
     req: Request,
     res: Response,
     next: NextFunction
-): void => {
+): Promise<void> => {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const apiKeyHeader = req.headers['x-api-key'];
+
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+        return authenticateApiKey(apiKeyHeader, req, res, next);
+    }
 
     if (!token) {
         res.status(401).json({ error: 'No token provided' });
         return;
     }
 
+    if (apiKeyService.isApiKey(token)) {
+        return authenticateApiKey(token, req, res, next);
+    }
+
     try {
-        const decoded = jwt.verify(
-            token,
-            config.supabaseJwtSecret
-        ) as any;
+        const decoded = await verifyJwt(token);
 
         // Add user information to the request object
         req.user = {
@@ -43,7 +137,8 @@ export const authenticateToken = (
             role: decoded.role,
             user_role: decoded.user_role, // Custom claim from Supabase hook
             app_metadata: decoded.app_metadata,
-            user_metadata: decoded.user_metadata
+            user_metadata: decoded.user_metadata,
+            authMethod: 'jwt'
         };
 
         next();
@@ -56,6 +151,15 @@ export const authenticateToken = (
             res.status(401).json({ error: 'Invalid token' });
             return;
         }
+        if (error instanceof JwksError) {
+            if (error.keyNotFound) {
+                res.status(401).json({ error: 'Invalid token' });
+                return;
+            }
+            console.error('[AUTH] Error loading signing keys:', error);
+            res.status(503).json({ error: 'Signing keys unavailable' });
+            return;
+        }
         res.status(500).json({ error: 'Failed to authenticate token' });
         return;
     }
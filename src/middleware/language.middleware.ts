@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config/env';
+import { ERROR_MESSAGES } from '../config/errorMessages';
+import { exposeHeaders } from '../utils/http';
+import { isOutputLanguage, OUTPUT_LANGUAGES, OutputLanguage, resolveOutputLanguage } from '../utils/language';
+
+declare global {
+    namespace Express {
+        interface Request {
+            language: OutputLanguage; // Language of prompts, model output and error messages
+        }
+    }
+}
+
+/**
+ * A catalog entry with its variable parts turned into a pattern
+ */
+interface CompiledMessage {
+    pattern: RegExp;
+    names: string[];
+    translation: string;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles the messages with {name} placeholders once, messages without placeholders are looked up directly
+ */
+const COMPILED_MESSAGES = Object.fromEntries(
+    Object.entries(ERROR_MESSAGES).map(([language, messages]) => [
+        language,
+        Object.entries(messages)
+            .filter(([message]) => /\{\w+\}/.test(message))
+            .map(([message, translation]): CompiledMessage => {
+                const names = (message.match(/\{\w+\}/g) ?? []).map(placeholder => placeholder.slice(1, -1));
+                const source = message.split(/\{\w+\}/).map(escapeRegExp).join('(.+?)');
+                return { pattern: new RegExp(`^${source}$`), names, translation };
+            })
+    ])
+) as Record<keyof typeof ERROR_MESSAGES, CompiledMessage[]>;
+
+/**
+ * Translates an English error message
+ * @param message Message as written in the middleware and controllers
+ * @param language Target language
+ * @returns Translated message, or the message itself if it is not in the catalog
+ */
+export const localizeError = (message: string, language: OutputLanguage): string => {
+    if (language === 'en') {
+        return message;
+    }
+
+    const exact = ERROR_MESSAGES[language][message];
+    if (exact) {
+        return exact;
+    }
+
+    for (const { pattern, names, translation } of COMPILED_MESSAGES[language]) {
+        const match = message.match(pattern);
+        if (match) {
+            return names.reduce((text, name, index) => text.replace(`{${name}}`, match[index + 1]), translation);
+        }
+    }
+
+    return message;
+};
+
+/**
+ * Translates the messages of an error body: error, reason (403) and errors (validation lists)
+ */
+const localizeErrorBody = (body: any, language: OutputLanguage): any => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return body;
+    }
+
+    const localized = { ...body };
+    if (typeof body.error === 'string') {
+        localized.error = localizeError(body.error, language);
+    }
+    if (typeof body.reason === 'string') {
+        localized.reason = localizeError(body.reason, language);
+    }
+    if (Array.isArray(body.errors) && body.errors.every((error: unknown) => typeof error === 'string')) {
+        localized.errors = body.errors.map((error: string) => localizeError(error, language));
+    }
+    return localized;
+};
+
+/**
+ * Determines the language of the request and localizes its error responses.
+ * An explicit `language` in the body or query wins over Accept-Language; without either
+ * DEFAULT_LANGUAGE is used. The chosen language is returned in Content-Language.
+ */
+export const negotiateLanguage = (req: Request, res: Response, next: NextFunction): void => {
+    const explicit = req.body?.language ?? req.query.language;
+
+    if (explicit !== undefined && !isOutputLanguage(explicit)) {
+        req.language = resolveOutputLanguage(undefined, req.headers['accept-language'], config.defaultLanguage);
+        res.status(400).json({ error: localizeError(`language must be one of ${OUTPUT_LANGUAGES.join(', ')} if provided`, req.language) });
+        return;
+    }
+
+    req.language = resolveOutputLanguage(explicit, req.headers['accept-language'], config.defaultLanguage);
+    res.setHeader('Content-Language', req.language);
+    exposeHeaders(res, 'Content-Language');
+
+    // Error bodies are written in English throughout, translate them on the way out
+    const json = res.json.bind(res);
+    res.json = (body?: any) => json(res.statusCode >= 400 ? localizeErrorBody(body, req.language) : body);
+
+    next();
+};
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import quotaService, { QuotaExceededError } from '../services/quota.service';
+import { QuotaStatus } from '../dto/quota.dto';
+import { exposeHeaders } from '../utils/http';
+
+/**
+ * Sets the remaining-quota headers (X-Quota-Daily-*, X-Quota-Monthly-*) for all limited windows
+ * @param res Response
+ * @param status Budget state of the user
+ */
+export const setQuotaHeaders = (res: Response, status: QuotaStatus): void => {
+  if (res.headersSent) {
+    return;
+  }
+
+  status.windows
+    .filter(window => window.limit !== null)
+    .forEach(window => {
+      const prefix = `X-Quota-${window.window === 'daily' ? 'Daily' : 'Monthly'}`;
+      res.setHeader(`${prefix}-Limit`, String(window.limit));
+      res.setHeader(`${prefix}-Remaining`, String(window.remaining));
+      res.setHeader(`${prefix}-Reset`, window.resetsAt.toISOString());
+      exposeHeaders(res, `${prefix}-Limit`, `${prefix}-Remaining`, `${prefix}-Reset`);
+    });
+};
+
+/**
+ * Responds with 429, the remaining-quota headers and Retry-After
+ * @param res Response
+ * @param error Quota error raised by the quota service
+ */
+export const sendQuotaExceeded = (res: Response, error: QuotaExceededError): void => {
+  const { window } = error;
+  setQuotaHeaders(res, error.status);
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((window.resetsAt.getTime() - Date.now()) / 1000))));
+  res.status(429).json({
+    error: 'Token quota exceeded',
+    window: window.window,
+    limit: window.limit,
+    used: window.used,
+    reserved: window.reserved,
+    remaining: window.remaining,
+    requestedTokens: error.requestedTokens,
+    resetsAt: window.resetsAt
+  });
+};
+
+/**
+ * Middleware rejecting requests of users whose budget is already used up.
+ * The exact cost is reserved by the controllers once the request size is known.
+ */
+export const enforceQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!quotaService.enabled || !req.user || !req.user.id) {
+    next();
+    return;
+  }
+
+  try {
+    const jwt = req.headers.authorization!.split(' ')[1];
+    const status = await quotaService.getStatus(req.user, jwt);
+    setQuotaHeaders(res, status);
+
+    const exhausted = status.windows.find(window => window.remaining !== null && window.remaining <= 0);
+    if (exhausted) {
+      sendQuotaExceeded(res, new QuotaExceededError(status, exhausted, 0));
+      return;
+    }
+  } catch (error) {
+    console.error('[QUOTA] Error checking quota, allowing request:', error);
+  }
+
+  next();
+};
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import rbacService from '../services/rbac.service';
+import auditService from '../services/audit.service';
+import { Permission } from '../dto/rbac.dto';
+
+/**
+ * Responds with 403 and writes the denial to the audit log
+ * @param req Denied request
+ * @param res Response
+ * @param reason Reason returned to the client and logged
+ * @param required Roles or permissions the route requires
+ */
+export const sendForbidden = (req: Request, res: Response, reason: string, required: string[]): void => {
+  auditService.record({
+    event: 'access_denied',
+    userId: req.user?.id ?? null,
+    role: req.user ? rbacService.getRole(req.user) : null,
+    method: req.method,
+    path: req.originalUrl,
+    reason,
+    required,
+    ip: req.ip
+  });
+
+  res.status(403).json({ error: 'Forbidden', reason, required });
+};
+
+/**
+ * Middleware allowing only users with one of the given roles
+ * @param roles Accepted roles
+ */
+export const requireRole = (...roles: string[]) => (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'User not authenticated' });
+    return;
+  }
+
+  const role = rbacService.getRole(req.user);
+  if (!roles.includes(role)) {
+    sendForbidden(req, res, `Role '${role}' is not allowed to access this resource`, roles);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware allowing only users holding all of the given permissions
+ * @param permissions Required permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'User not authenticated' });
+    return;
+  }
+
+  const missing = permissions.filter(permission => !rbacService.hasPermission(req.user!, permission));
+  if (missing.length > 0) {
+    sendForbidden(req, res, `Missing permission: ${missing.join(', ')}`, permissions);
+    return;
+  }
+
+  next();
+};
@@ -3,6 +3,48 @@ import { validate } from 'class-validator';
 import { plainToInstance } from 'class-transformer'; // Need this to transform plain object to class instance
 import { OcrRequestDto } from '../dto/ocr.dto'; // Import the DTO
 import { ChatAnalyzeRequestDto } from '../dto/analyze.dto'; // Import the DTO
+import providerRegistry, { UnknownProviderError } from '../services/providers/provider.registry';
+import geminiProvider from '../services/providers/gemini.provider';
+import { NON_DELEGABLE_PERMISSIONS, PERMISSIONS, Permission } from '../dto/rbac.dto';
+import { validateExtractionSchemaDefinition } from '../utils/extraction';
+import { validateSchemaDefinition } from '../utils/jsonSchema';
+
+/**
+ * Validates optional provider/model fields against the provider registry.
+ * @returns An error message, or null if the selection is valid
+ */
+const validateProviderSelection = (provider: unknown, model: unknown): string | null => {
+  if (provider !== undefined && typeof provider !== 'string') {
+    return 'provider must be a string if provided';
+  }
+
+  if (model !== undefined && typeof model !== 'string') {
+    return 'model must be a string if provided';
+  }
+
+  try {
+    providerRegistry.resolve(provider as string | undefined, model as string | undefined);
+  } catch (error) {
+    if (error instanceof UnknownProviderError) {
+      return error.message;
+    }
+    throw error;
+  }
+
+  return null;
+};
+
+/**
+ * Validates optional provider/model fields of routes that send files inline, which only Gemini can read.
+ * @returns An error message, or null if the selection is valid
+ */
+const validateGeminiSelection = (provider: unknown, model: unknown): string | null => {
+  if (provider !== undefined && provider !== geminiProvider.name) {
+    return `provider must be '${geminiProvider.name}' if provided, this route sends files to the model inline`;
+  }
+
+  return validateProviderSelection(geminiProvider.name, model);
+};
 
 /**
  * Middleware to validate document analysis requests
@@ -19,6 +61,17 @@ export const validateAnalyzeRequest = (req: Request, res: Response, next: NextFu
     res.status(400).json({ error: 'FilePath is required and must be a string' });
     return;
   }
+
+  if (req.body.profileId !== undefined && (typeof req.body.profileId !== 'string' || !req.body.profileId.trim())) {
+    res.status(400).json({ error: 'profileId must be a non-empty string if provided' });
+    return;
+  }
+
+  const providerError = validateGeminiSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
   
   // Valid request, proceed
   next();
@@ -56,7 +109,11 @@ export const validateChatRequest = (req: Request, res: Response, next: NextFunct
     return;
   }
 
-  // Add more checks if needed (e.g., chatId)
+  const providerError = validateProviderSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
 
   // Valid request, proceed
   next();
@@ -92,6 +149,12 @@ export const validateAssistantRequest = (req: Request, res: Response, next: Next
       }
     }
   }
+
+  const providerError = validateGeminiSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
   
   // Valid request, proceed
   next();
@@ -115,7 +178,420 @@ export const validateChatAnalyzeRequest = (req: Request, res: Response, next: Ne
     res.status(400).json({ error: 'Chat ID is required as a path parameter' });
     return;
   }
+
+  if (req.body.profileId !== undefined && (typeof req.body.profileId !== 'string' || !req.body.profileId.trim())) {
+    res.status(400).json({ error: 'profileId must be a non-empty string if provided' });
+    return;
+  }
+
+  const providerError = validateProviderSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
   
   // Valid request, proceed
   next();
 };
+
+/**
+ * Middleware to validate the pagination query parameters for listing chat sessions
+ */
+export const validateListChatSessionsRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { limit, offset } = req.query;
+
+  if (limit !== undefined && (typeof limit !== 'string' || !/^\d+$/.test(limit) || parseInt(limit, 10) < 1)) {
+    res.status(400).json({ error: 'limit must be a positive integer if provided' });
+    return;
+  }
+
+  if (offset !== undefined && (typeof offset !== 'string' || !/^\d+$/.test(offset))) {
+    res.status(400).json({ error: 'offset must be a non-negative integer if provided' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate requests addressing a single chat session by its path parameter
+ */
+export const validateChatSessionIdParam = (req: Request, res: Response, next: NextFunction): void => {
+  const chatId = req.params.chatId;
+  if (!chatId) {
+    res.status(400).json({ error: 'Chat ID is required as a path parameter' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate the chatId and messageId path parameters of message routes
+ */
+export const validateChatMessageParams = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.params.messageId) {
+    res.status(400).json({ error: 'Message ID is required as a path parameter' });
+    return;
+  }
+
+  // Delegate the chat ID check
+  validateChatSessionIdParam(req, res, next);
+};
+
+/**
+ * Middleware to validate requests editing a chat message
+ */
+export const validateEditChatMessageRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { prompt } = req.body;
+
+  if (!prompt || typeof prompt !== 'string') {
+    res.status(400).json({ error: 'Prompt is required and must be a string' });
+    return;
+  }
+
+  // Provider selection and path parameters are checked like for regenerate requests
+  validateRegenerateChatMessageRequest(req, res, next);
+};
+
+/**
+ * Middleware to validate requests regenerating a chat message
+ */
+export const validateRegenerateChatMessageRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const providerError = validateProviderSelection(req.body?.provider, req.body?.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
+
+  validateChatMessageParams(req, res, next);
+};
+
+/**
+ * Middleware to validate requests resuming an incomplete chat message, which take the same options as regenerating
+ */
+export const validateResumeChatMessageRequest = (req: Request, res: Response, next: NextFunction): void => {
+  validateRegenerateChatMessageRequest(req, res, next);
+};
+
+/**
+ * Middleware to validate requests switching the active branch of a chat session
+ */
+export const validateSwitchChatBranchRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { messageId } = req.body ?? {};
+
+  if (!messageId || typeof messageId !== 'string') {
+    res.status(400).json({ error: 'messageId is required and must be a string' });
+    return;
+  }
+
+  // Delegate the path parameter check
+  validateChatSessionIdParam(req, res, next);
+};
+
+/**
+ * Middleware to validate chat session rename requests
+ */
+export const validateRenameChatSessionRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { title } = req.body;
+
+  if (!title || typeof title !== 'string' || !title.trim()) {
+    res.status(400).json({ error: 'Title is required and must be a non-empty string' });
+    return;
+  }
+
+  if (title.trim().length > 200) {
+    res.status(400).json({ error: 'Title must not exceed 200 characters' });
+    return;
+  }
+
+  // Delegate the path parameter check
+  validateChatSessionIdParam(req, res, next);
+};
+
+/**
+ * Middleware to validate document listing requests (same pagination rules as chat sessions)
+ */
+export const validateListDocumentsRequest = (req: Request, res: Response, next: NextFunction): void => {
+  validateListChatSessionsRequest(req, res, next);
+};
+
+/**
+ * Middleware to validate requests for a single document
+ */
+export const validateGetDocumentRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const documentId = req.params.documentId;
+  if (!documentId) {
+    res.status(400).json({ error: 'Document ID is required as a path parameter' });
+    return;
+  }
+
+  const { includeOcr } = req.query;
+  if (includeOcr !== undefined && includeOcr !== 'true' && includeOcr !== 'false') {
+    res.status(400).json({ error: 'includeOcr must be "true" or "false" if provided' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Checks that a query value is a real calendar date in YYYY-MM-DD format
+ */
+const isIsoDay = (value: unknown): boolean =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+  && new Date(value).toISOString().slice(0, 10) === value;
+
+/**
+ * Middleware to validate the date range of usage requests
+ */
+export const validateUsageRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { from, to } = req.query;
+
+  if (from !== undefined && !isIsoDay(from)) {
+    res.status(400).json({ error: 'from must be a date in YYYY-MM-DD format if provided' });
+    return;
+  }
+
+  if (to !== undefined && !isIsoDay(to)) {
+    res.status(400).json({ error: 'to must be a date in YYYY-MM-DD format if provided' });
+    return;
+  }
+
+  if (typeof from === 'string' && typeof to === 'string' && from > to) {
+    res.status(400).json({ error: 'from must not be after to' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate admin usage report requests
+ */
+export const validateAdminUsageRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { userId, format } = req.query;
+
+  if (userId !== undefined && (typeof userId !== 'string' || !userId.trim())) {
+    res.status(400).json({ error: 'userId must be a non-empty string if provided' });
+    return;
+  }
+
+  if (format !== undefined && format !== 'json' && format !== 'csv') {
+    res.status(400).json({ error: 'format must be "json" or "csv" if provided' });
+    return;
+  }
+
+  // Delegate the date range check
+  validateUsageRequest(req, res, next);
+};
+
+/**
+ * Middleware to validate API key creation requests
+ */
+export const validateCreateApiKeyRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, scopes, expiresInDays } = req.body;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'Name is required and must be a non-empty string' });
+    return;
+  }
+
+  if (name.trim().length > 100) {
+    res.status(400).json({ error: 'Name must not exceed 100 characters' });
+    return;
+  }
+
+  if (scopes !== undefined) {
+    if (!Array.isArray(scopes) || scopes.some(scope => typeof scope !== 'string')) {
+      res.status(400).json({ error: 'Scopes must be an array of permission names if provided' });
+      return;
+    }
+    const invalid = scopes.filter(scope => scope !== '*'
+      && (!(PERMISSIONS as readonly string[]).includes(scope) || NON_DELEGABLE_PERMISSIONS.includes(scope as Permission)));
+    if (invalid.length > 0) {
+      res.status(400).json({ error: `Invalid scopes: ${invalid.join(', ')}` });
+      return;
+    }
+  }
+
+  if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365)) {
+    res.status(400).json({ error: 'expiresInDays must be an integer between 1 and 365 if provided' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate requests addressing a single API key by its path parameter
+ */
+export const validateApiKeyIdParam = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.params.keyId) {
+    res.status(400).json({ error: 'API key ID is required as a path parameter' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate contract comparison requests
+ */
+export const validateCompareRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { baseFilePath, revisedFilePath, prompt } = req.body;
+
+  if (!baseFilePath || typeof baseFilePath !== 'string') {
+    res.status(400).json({ error: 'baseFilePath is required and must be a string' });
+    return;
+  }
+
+  if (!revisedFilePath || typeof revisedFilePath !== 'string') {
+    res.status(400).json({ error: 'revisedFilePath is required and must be a string' });
+    return;
+  }
+
+  if (baseFilePath === revisedFilePath) {
+    res.status(400).json({ error: 'baseFilePath and revisedFilePath must refer to different files' });
+    return;
+  }
+
+  if (prompt !== undefined && typeof prompt !== 'string') {
+    res.status(400).json({ error: 'Prompt must be a string if provided' });
+    return;
+  }
+
+  const providerError = validateProviderSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate requests addressing a single comparison by its path parameter
+ */
+export const validateComparisonIdParam = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.params.comparisonId) {
+    res.status(400).json({ error: 'Comparison ID is required as a path parameter' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate extraction requests: a file and either a built-in schema ID or a user-defined schema
+ */
+export const validateExtractRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { filePath, schemaId, schema } = req.body;
+
+  if (!filePath || typeof filePath !== 'string') {
+    res.status(400).json({ error: 'filePath is required and must be a string' });
+    return;
+  }
+
+  if ((schemaId === undefined) === (schema === undefined)) {
+    res.status(400).json({ error: 'Either schemaId or schema is required' });
+    return;
+  }
+
+  if (schemaId !== undefined && (typeof schemaId !== 'string' || !schemaId.trim())) {
+    res.status(400).json({ error: 'schemaId must be a non-empty string' });
+    return;
+  }
+
+  if (schema !== undefined) {
+    const schemaErrors = validateExtractionSchemaDefinition(schema);
+    if (schemaErrors.length > 0) {
+      res.status(400).json({ error: 'Invalid extraction schema', details: schemaErrors });
+      return;
+    }
+  }
+
+  const providerError = validateProviderSelection(req.body.provider, req.body.model);
+  if (providerError) {
+    res.status(400).json({ error: providerError });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate analysis profile definitions sent by admins
+ */
+export const validateAnalysisProfileRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, description, systemPrompt, severityGuidance, requiredChecks, outputSchema, isActive } = req.body;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'Name is required and must be a non-empty string' });
+    return;
+  }
+
+  if (name.trim().length > 100) {
+    res.status(400).json({ error: 'Name must not exceed 100 characters' });
+    return;
+  }
+
+  if (!systemPrompt || typeof systemPrompt !== 'string' || !systemPrompt.trim()) {
+    res.status(400).json({ error: 'systemPrompt is required and must be a non-empty string' });
+    return;
+  }
+
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    res.status(400).json({ error: 'description must be a string if provided' });
+    return;
+  }
+
+  if (severityGuidance !== undefined && severityGuidance !== null && typeof severityGuidance !== 'string') {
+    res.status(400).json({ error: 'severityGuidance must be a string if provided' });
+    return;
+  }
+
+  if (requiredChecks !== undefined
+    && (!Array.isArray(requiredChecks) || requiredChecks.some(check => typeof check !== 'string' || !check.trim()))) {
+    res.status(400).json({ error: 'requiredChecks must be an array of non-empty strings if provided' });
+    return;
+  }
+
+  if (outputSchema !== undefined && outputSchema !== null) {
+    const schemaErrors = validateSchemaDefinition(outputSchema);
+    if (schemaErrors.length > 0) {
+      res.status(400).json({ error: 'Invalid output schema', details: schemaErrors });
+      return;
+    }
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    res.status(400).json({ error: 'isActive must be a boolean if provided' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
+
+/**
+ * Middleware to validate requests addressing a single analysis profile by its path parameter
+ */
+export const validateAnalysisProfileIdParam = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.params.profileId) {
+    res.status(400).json({ error: 'Analysis profile ID is required as a path parameter' });
+    return;
+  }
+
+  // Valid request, proceed
+  next();
+};
@@ -0,0 +1,5 @@
+-- Rolling summary of chat messages that no longer fit into the model's context window:
+-- { "content": "...", "throughMessageId": "...", "updatedAt": "..." }
+-- It replaces the messages from the root up to throughMessageId on branches containing that message.
+ALTER TABLE chat_sessions
+  ADD COLUMN IF NOT EXISTS context_summary JSONB;
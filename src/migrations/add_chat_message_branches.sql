@@ -0,0 +1,5 @@
+-- Messages in chat_sessions.messages carry an id and a parentId and form a tree.
+-- active_message_id is the last message of the branch that is shown and sent as history;
+-- NULL means the last stored message.
+ALTER TABLE chat_sessions
+  ADD COLUMN IF NOT EXISTS active_message_id TEXT;
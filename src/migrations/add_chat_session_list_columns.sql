@@ -0,0 +1,10 @@
+-- Migration: Add the columns the chat list reads instead of the messages of every session
+
+-- 1. Add the message count and preview of the active branch, written by the server with every change
+--    of the messages or the active message. NULL marks sessions not written since this migration.
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS message_count integer,
+ADD COLUMN IF NOT EXISTS last_message_preview text;
+
+COMMENT ON COLUMN public.chat_sessions.message_count IS 'Number of messages on the active branch, NULL until the session is written again.';
+COMMENT ON COLUMN public.chat_sessions.last_message_preview IS 'Plain-text preview of the last message on the active branch.';
@@ -0,0 +1,18 @@
+-- Migration: Add a title to chat sessions and allow users to delete their own sessions
+
+-- 1. Add the title column (nullable, clients fall back to the first message when unset)
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS title text;
+
+COMMENT ON COLUMN public.chat_sessions.title IS 'Optional user-defined title for the chat session.';
+
+-- 2. Allow users to delete their own chat sessions
+DROP POLICY IF EXISTS "Allow DELETE for own chat sessions" ON public.chat_sessions;
+
+CREATE POLICY "Allow DELETE for own chat sessions"
+ON public.chat_sessions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- 3. Support listing a user's sessions newest first
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_id_updated_at ON public.chat_sessions(user_id, updated_at DESC);
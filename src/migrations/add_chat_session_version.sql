@@ -0,0 +1,23 @@
+-- Migration: Add a version to chat sessions for optimistic concurrency control
+
+-- 1. Add the version column, raised by every update
+ALTER TABLE public.chat_sessions
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.chat_sessions.version IS 'Raised by every update. Writers only update the version they read and retry on a mismatch, so concurrent appends are not lost.';
+
+-- 2. Raise the version in the database so every writer takes part, whatever columns it updates
+CREATE OR REPLACE FUNCTION public.handle_chat_session_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_chat_session_version ON public.chat_sessions;
+
+CREATE TRIGGER on_chat_session_version
+BEFORE UPDATE ON public.chat_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_chat_session_version();
@@ -0,0 +1,3 @@
+-- Stores the language detected from a document's OCR result (ISO 639-1 code, NULL if unknown)
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS language TEXT;
@@ -0,0 +1,3 @@
+-- Counts how often a worker claimed an OCR job. Workers claim a job with an update that only
+-- applies while the count is unchanged, so a job resumed by several processes runs once.
+ALTER TABLE ocr_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,11 @@
+-- Records the prompt template versions (comma-separated id.language@version refs) that produced each result
+ALTER TABLE document_analysis
+  ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE document_annotations
+  ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE document_comparisons
+  ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_document_analysis_prompt_version ON document_analysis(prompt_version);
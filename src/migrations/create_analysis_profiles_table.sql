@@ -0,0 +1,30 @@
+-- Named analysis profiles (e.g. GDPR review, NDA review), managed by admins with the service role key
+CREATE TABLE IF NOT EXISTS analysis_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  system_prompt TEXT NOT NULL,
+  severity_guidance TEXT, -- NULL uses the default level descriptions
+  required_checks TEXT[] NOT NULL DEFAULT '{}',
+  output_schema JSONB, -- NULL returns annotations
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE analysis_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Every user can read active profiles; writes and inactive profiles require the service role
+CREATE POLICY "Authenticated users can view active analysis profiles"
+  ON analysis_profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_active);
+
+-- Analyses remember the profile they were run with
+ALTER TABLE document_analysis
+  ADD COLUMN IF NOT EXISTS profile_id UUID REFERENCES analysis_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE document_annotations
+  ADD COLUMN IF NOT EXISTS profile_id UUID REFERENCES analysis_profiles(id) ON DELETE SET NULL;
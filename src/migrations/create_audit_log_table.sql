@@ -0,0 +1,19 @@
+-- Audit log of security-relevant events, used when AUDIT_LOG_STORE=supabase
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event TEXT NOT NULL, -- e.g. 'access_denied'
+  user_id UUID, -- No foreign key, entries outlive deleted users
+  role TEXT,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  required TEXT[] NOT NULL DEFAULT '{}',
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security without policies: only the service role reads and writes the log
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id);
@@ -0,0 +1,38 @@
+-- Create document_chunks table for retrieval-augmented chat
+-- Stores embedded chunks of OCR'd page markdown per chat session
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_key TEXT NOT NULL, -- SHA-256 of the document's page markdown
+  document_name TEXT NOT NULL,
+  page_index INTEGER NOT NULL, -- OCRPageObject.index, starting from 0
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedder TEXT NOT NULL, -- e.g. 'mistral:mistral-embed' or 'local-hash:256'
+  embedding JSONB NOT NULL, -- Array of numbers, compared in the API with cosine similarity
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own document chunks"
+  ON document_chunks
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own document chunks"
+  ON document_chunks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document chunks"
+  ON document_chunks
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_document_chunks_session_embedder ON document_chunks(session_id, embedder);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_key ON document_chunks(document_key);
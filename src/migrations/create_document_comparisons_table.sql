@@ -0,0 +1,31 @@
+-- Stores comparisons of two contract versions with the assessed clause changes
+CREATE TABLE IF NOT EXISTS document_comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  base_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  revised_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  prompt TEXT NOT NULL,
+  changes JSONB NOT NULL, -- Added, removed and changed clauses with their assessment
+  unchanged_count INTEGER NOT NULL DEFAULT 0,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  token_usage JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE document_comparisons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own comparisons"
+  ON document_comparisons
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own comparisons"
+  ON document_comparisons
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_document_comparisons_user_id ON document_comparisons(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_comparisons_base_document_id ON document_comparisons(base_document_id);
+CREATE INDEX IF NOT EXISTS idx_document_comparisons_revised_document_id ON document_comparisons(revised_document_id);
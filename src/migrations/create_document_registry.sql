@@ -0,0 +1,72 @@
+-- Turn the documents table into the single document registry
+-- Documents hold their metadata and OCR result; chat sessions and analyses reference them by ID
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT, -- SHA-256 of the file bytes
+  ADD COLUMN IF NOT EXISTS mime_type TEXT,
+  ADD COLUMN IF NOT EXISTS page_count INTEGER,
+  ADD COLUMN IF NOT EXISTS ocr_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (ocr_status IN ('pending', 'processing', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS ocr_result JSONB,
+  ADD COLUMN IF NOT EXISTS ocr_includes_images BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_updated ON documents(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_documents_file_path ON documents(file_path);
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents(content_hash);
+
+-- Documents attached to chat sessions (replaces OCR results embedded in chat_sessions.documents)
+CREATE TABLE IF NOT EXISTS chat_session_documents (
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (session_id, document_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE chat_session_documents ENABLE ROW LEVEL SECURITY;
+
+-- Users may only link their own documents to their own sessions
+CREATE POLICY "Users can view links of their chat sessions"
+  ON chat_session_documents
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_sessions
+      WHERE chat_sessions.id = chat_session_documents.session_id
+      AND chat_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can link their documents to their chat sessions"
+  ON chat_session_documents
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM chat_sessions
+      WHERE chat_sessions.id = chat_session_documents.session_id
+      AND chat_sessions.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = chat_session_documents.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unlink documents from their chat sessions"
+  ON chat_session_documents
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_sessions
+      WHERE chat_sessions.id = chat_session_documents.session_id
+      AND chat_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_chat_session_documents_document ON chat_session_documents(document_id);
+
+-- Analyses record the documents they were run on
+ALTER TABLE document_analysis
+  ADD COLUMN IF NOT EXISTS document_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_document_analysis_document_ids ON document_analysis USING GIN (document_ids);
@@ -0,0 +1,20 @@
+-- Create ocr_cache table to reuse Mistral OCR results for identical file content
+CREATE TABLE IF NOT EXISTS ocr_cache (
+  cache_key TEXT PRIMARY KEY, -- '<sha256>:<model>:<images|text>'
+  content_hash TEXT NOT NULL, -- SHA-256 of the file bytes
+  model TEXT NOT NULL,
+  include_image_base64 BOOLEAN NOT NULL,
+  result JSONB NOT NULL, -- Full OCRResponse
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE ocr_cache ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the cache is shared across users, so only the server reads and writes it with the
+-- service role key. It looks entries up by the hash of file bytes the user could download, so a user
+-- only hits entries for content they hold and cannot read or poison other users' results.
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_ocr_cache_content_hash ON ocr_cache(content_hash);
+CREATE INDEX IF NOT EXISTS idx_ocr_cache_created_at ON ocr_cache(created_at);
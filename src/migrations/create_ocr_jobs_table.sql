@@ -0,0 +1,54 @@
+-- Create ocr_jobs table for asynchronous OCR processing
+CREATE TABLE IF NOT EXISTS ocr_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  include_image_base64 BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  stage TEXT,
+  result JSONB, -- OCRResponse once completed
+  cache_hit BOOLEAN,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE ocr_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Jobs are processed with the owner's JWT, or with a token minted for the owner after a restart
+CREATE POLICY "Users can view their own OCR jobs"
+  ON ocr_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own OCR jobs"
+  ON ocr_jobs
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own OCR jobs"
+  ON ocr_jobs
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_ocr_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_ocr_jobs_updated_at
+BEFORE UPDATE ON ocr_jobs
+FOR EACH ROW
+EXECUTE FUNCTION update_ocr_jobs_updated_at();
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_user_id ON ocr_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_status ON ocr_jobs(status);
@@ -0,0 +1,22 @@
+-- Sums a user's token usage for the daily and monthly quota windows
+-- Runs with the caller's permissions, so RLS on user_usage still applies
+CREATE OR REPLACE FUNCTION get_user_token_usage(
+  p_user_id UUID,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (daily_tokens BIGINT, monthly_tokens BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    COALESCE(SUM(token_count) FILTER (WHERE created_at >= p_day_start), 0)::BIGINT AS daily_tokens,
+    COALESCE(SUM(token_count) FILTER (WHERE created_at >= p_month_start), 0)::BIGINT AS monthly_tokens
+  FROM user_usage
+  WHERE user_id = p_user_id
+    AND created_at >= LEAST(p_day_start, p_month_start);
+$$;
+
+-- Supports the window sums above
+CREATE INDEX IF NOT EXISTS idx_user_usage_user_created_at ON user_usage(user_id, created_at);
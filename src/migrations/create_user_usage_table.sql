@@ -3,7 +3,7 @@ CREATE TABLE IF NOT EXISTS user_usage (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   usage_type TEXT NOT NULL, -- 'chat' or 'analysis'
-  token_count INTEGER NOT NULL,
+  token_count INTEGER NOT NULL CHECK (token_count >= 0),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
 );
 
@@ -11,7 +11,8 @@ CREATE TABLE IF NOT EXISTS user_usage (
 ALTER TABLE user_usage ENABLE ROW LEVEL SECURITY;
 
 -- Create policies
--- User usage policies
+-- User usage policies. The server records usage with the service role key when it has one;
+-- rows users add themselves can only raise their usage
 CREATE POLICY "Users can view their own usage data"
   ON user_usage
   FOR SELECT
@@ -0,0 +1,52 @@
+-- Records provider, model and token breakdown of every model call
+ALTER TABLE user_usage
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS completion_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS ocr_pages INTEGER NOT NULL DEFAULT 0,
+  -- Chat session or assistant chat history, kept without a foreign key so deleting a session keeps its usage
+  ADD COLUMN IF NOT EXISTS session_id UUID,
+  ADD COLUMN IF NOT EXISTS document_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Aggregates usage per user, UTC day, provider, model and operation
+-- Runs with the caller's permissions: users only see their own rows, the service role sees all
+CREATE OR REPLACE FUNCTION get_usage_report(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  day DATE,
+  provider TEXT,
+  model TEXT,
+  usage_type TEXT,
+  request_count BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT,
+  ocr_pages BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    u.user_id,
+    (u.created_at AT TIME ZONE 'UTC')::DATE AS day,
+    COALESCE(u.provider, 'unknown') AS provider,
+    COALESCE(u.model, 'unknown') AS model,
+    u.usage_type::TEXT,
+    COUNT(*)::BIGINT AS request_count,
+    COALESCE(SUM(u.prompt_tokens), 0)::BIGINT AS prompt_tokens,
+    COALESCE(SUM(u.completion_tokens), 0)::BIGINT AS completion_tokens,
+    COALESCE(SUM(u.token_count), 0)::BIGINT AS total_tokens,
+    COALESCE(SUM(u.ocr_pages), 0)::BIGINT AS ocr_pages
+  FROM user_usage u
+  WHERE u.created_at >= p_from
+    AND u.created_at < p_to
+    AND (p_user_id IS NULL OR u.user_id = p_user_id)
+  GROUP BY 1, 2, 3, 4, 5
+  ORDER BY 2, 1, 3, 4, 5;
+$$;
@@ -0,0 +1,6 @@
+-- Keys are created and revoked by the server with the service role only
+DROP POLICY IF EXISTS "Users can create their own API keys" ON api_keys;
+DROP POLICY IF EXISTS "Users can revoke their own API keys" ON api_keys;
+
+-- A key acts with the owner's current role, looked up on every request
+ALTER TABLE api_keys DROP COLUMN IF EXISTS role;
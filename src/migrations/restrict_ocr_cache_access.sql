@@ -0,0 +1,3 @@
+-- The shared OCR cache is only read and written by the server with the service role key
+DROP POLICY IF EXISTS "Authenticated users can read the OCR cache" ON ocr_cache;
+DROP POLICY IF EXISTS "Authenticated users can add to the OCR cache" ON ocr_cache;
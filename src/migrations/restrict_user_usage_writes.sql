@@ -0,0 +1,4 @@
+-- Usage never decreases, so rows a user inserts with their own token cannot lower their quota usage
+ALTER TABLE user_usage
+  ADD CONSTRAINT user_usage_non_negative
+  CHECK (token_count >= 0 AND prompt_tokens >= 0 AND completion_tokens >= 0 AND ocr_pages >= 0);
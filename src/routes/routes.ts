@@ -4,23 +4,101 @@ import { streamAssistantChat } from '../controllers/assistant.controller';
 import { 
     streamMistralChat, 
     processOcr,
-    analyzeChatDocuments
+    getOcrJobStatus,
+    analyzeChatDocuments,
+    editChatMessage,
+    regenerateChatMessage,
+    resumeChatMessage
 } from '../controllers/mistral.controller';
+import {
+    listChatSessions,
+    getChatSession,
+    renameChatSession,
+    deleteChatSession,
+    switchChatBranch
+} from '../controllers/chatSession.controller';
+import { listDocuments, getDocument } from '../controllers/document.controller';
+import { compareDocuments, getComparison } from '../controllers/comparison.controller';
+import { extractDocumentFields, listExtractionSchemas } from '../controllers/extraction.controller';
+import { listProviders } from '../controllers/provider.controller';
+import { getMyUsage, getAdminUsage } from '../controllers/usage.controller';
+import { createApiKey, listApiKeys, revokeApiKey } from '../controllers/apiKey.controller';
+import {
+    listAnalysisProfiles,
+    getAnalysisProfile,
+    listAllAnalysisProfiles,
+    createAnalysisProfile,
+    updateAnalysisProfile,
+    deleteAnalysisProfile
+} from '../controllers/analysisProfile.controller';
 import {
     validateAnalyzeRequest,
     validateAssistantRequest,
     validateChatRequest,
     validateOcrRequest,
-    validateChatAnalyzeRequest
+    validateChatAnalyzeRequest,
+    validateListChatSessionsRequest,
+    validateChatSessionIdParam,
+    validateRenameChatSessionRequest,
+    validateEditChatMessageRequest,
+    validateRegenerateChatMessageRequest,
+    validateResumeChatMessageRequest,
+    validateSwitchChatBranchRequest,
+    validateListDocumentsRequest,
+    validateGetDocumentRequest,
+    validateUsageRequest,
+    validateAdminUsageRequest,
+    validateCreateApiKeyRequest,
+    validateApiKeyIdParam,
+    validateCompareRequest,
+    validateComparisonIdParam,
+    validateExtractRequest,
+    validateAnalysisProfileRequest,
+    validateAnalysisProfileIdParam
 } from '../middleware/validation.middleware';
+import { enforceQuota } from '../middleware/quota.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
 
 const router = express.Router();
 
-router.post('/analyze', validateAnalyzeRequest, analyzeDocument);
-router.post('/assistant', validateAssistantRequest, streamAssistantChat);
+router.post('/analyze', requirePermission('analysis:run'), validateAnalyzeRequest, enforceQuota, analyzeDocument);
+router.post('/assistant', requirePermission('assistant:chat'), validateAssistantRequest, enforceQuota, streamAssistantChat);
+
+router.get('/providers', requirePermission('providers:read'), listProviders);
+
+router.post('/mistral/chat', requirePermission('chat:send'), validateChatRequest, enforceQuota, streamMistralChat);
+router.post('/mistral/ocr', requirePermission('ocr:run'), validateOcrRequest, processOcr);
+router.get('/mistral/ocr/jobs/:jobId', requirePermission('ocr:run'), getOcrJobStatus);
+router.post('/mistral/chat/:chatId/analyze', requirePermission('analysis:run'), validateChatAnalyzeRequest, enforceQuota, analyzeChatDocuments);
+router.post('/mistral/compare', requirePermission('analysis:run'), validateCompareRequest, enforceQuota, compareDocuments);
+router.get('/mistral/compare/:comparisonId', requirePermission('documents:read'), validateComparisonIdParam, getComparison);
+router.post('/mistral/extract', requirePermission('analysis:run'), validateExtractRequest, enforceQuota, extractDocumentFields);
+router.get('/mistral/extract/schemas', requirePermission('analysis:run'), listExtractionSchemas);
+
+router.get('/mistral/chats', requirePermission('chats:read'), validateListChatSessionsRequest, listChatSessions);
+router.get('/mistral/chats/:chatId', requirePermission('chats:read'), validateChatSessionIdParam, getChatSession);
+router.patch('/mistral/chats/:chatId', requirePermission('chats:write'), validateRenameChatSessionRequest, renameChatSession);
+router.delete('/mistral/chats/:chatId', requirePermission('chats:write'), validateChatSessionIdParam, deleteChatSession);
+router.put('/mistral/chats/:chatId/branch', requirePermission('chats:write'), validateSwitchChatBranchRequest, switchChatBranch);
+router.post('/mistral/chats/:chatId/messages/:messageId/edit', requirePermission('chat:send'), validateEditChatMessageRequest, enforceQuota, editChatMessage);
+router.post('/mistral/chats/:chatId/messages/:messageId/regenerate', requirePermission('chat:send'), validateRegenerateChatMessageRequest, enforceQuota, regenerateChatMessage);
+router.post('/mistral/chats/:chatId/messages/:messageId/resume', requirePermission('chat:send'), validateResumeChatMessageRequest, enforceQuota, resumeChatMessage);
+
+router.get('/documents', requirePermission('documents:read'), validateListDocumentsRequest, listDocuments);
+router.get('/documents/:documentId', requirePermission('documents:read'), validateGetDocumentRequest, getDocument);
+
+router.get('/usage', requirePermission('usage:read'), validateUsageRequest, getMyUsage);
+router.get('/admin/usage', requirePermission('usage:admin'), validateAdminUsageRequest, getAdminUsage);
+
+router.post('/api-keys', requirePermission('api_keys:manage'), validateCreateApiKeyRequest, createApiKey);
+router.get('/api-keys', requirePermission('api_keys:manage'), listApiKeys);
+router.delete('/api-keys/:keyId', requirePermission('api_keys:manage'), validateApiKeyIdParam, revokeApiKey);
 
-router.post('/mistral/chat', validateChatRequest, streamMistralChat);
-router.post('/mistral/ocr', validateOcrRequest, processOcr);
-router.post('/mistral/chat/:chatId/analyze', validateChatAnalyzeRequest, analyzeChatDocuments);
+router.get('/analysis-profiles', requirePermission('analysis:run'), listAnalysisProfiles);
+router.get('/analysis-profiles/:profileId', requirePermission('analysis:run'), validateAnalysisProfileIdParam, getAnalysisProfile);
+router.get('/admin/analysis-profiles', requirePermission('profiles:manage'), listAllAnalysisProfiles);
+router.post('/admin/analysis-profiles', requirePermission('profiles:manage'), validateAnalysisProfileRequest, createAnalysisProfile);
+router.put('/admin/analysis-profiles/:profileId', requirePermission('profiles:manage'), validateAnalysisProfileIdParam, validateAnalysisProfileRequest, updateAnalysisProfile);
+router.delete('/admin/analysis-profiles/:profileId', requirePermission('profiles:manage'), validateAnalysisProfileIdParam, deleteAnalysisProfile);
 
 export default router;
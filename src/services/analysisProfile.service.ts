@@ -0,0 +1,97 @@
+import supabaseService from './supabase.service';
+import { AnalysisProfile } from '../dto/analysisProfile.dto';
+import { JsonSchema } from '../utils/jsonSchema';
+import { PromptTemplate, promptVersion, RenderedPrompt } from '../utils/promptTemplate';
+import { getPrompts } from '../utils/promptSets';
+import { OutputLanguage } from '../utils/language';
+import { analysisResultSchema } from '../utils/schemas';
+
+/**
+ * Raised when a requested profile does not exist or is deactivated
+ */
+export class AnalysisProfileNotFoundError extends Error {
+  constructor(public readonly profileId: string) {
+    super(`Analysis profile ${profileId} not found`);
+    this.name = 'AnalysisProfileNotFoundError';
+  }
+}
+
+/**
+ * Turns analysis profiles into the prompt and schema of an analysis request
+ */
+class AnalysisProfileService {
+  /**
+   * Gets an active profile for a new analysis
+   * @param profileId Profile ID
+   * @param jwt JWT token for user-specific access
+   * @returns Profile
+   * @throws AnalysisProfileNotFoundError if the profile does not exist or is inactive
+   */
+  async getActiveProfile(profileId: string, jwt: string): Promise<AnalysisProfile> {
+    const profile = await supabaseService.getAnalysisProfileById(profileId, jwt);
+    if (!profile || !profile.isActive) {
+      throw new AnalysisProfileNotFoundError(profileId);
+    }
+    return profile;
+  }
+
+  /**
+   * Whether the profile produces annotations, which are anchored and stored like default analyses
+   */
+  producesAnnotations(profile: AnalysisProfile): boolean {
+    return !profile.outputSchema;
+  }
+
+  /**
+   * Schema the analysis result is validated against
+   */
+  getOutputSchema(profile: AnalysisProfile): JsonSchema {
+    return profile.outputSchema ?? analysisResultSchema;
+  }
+
+  /**
+   * Builds the system prompt of an analysis: the profile's prompt, the severity levels,
+   * the required checks and the expected output format
+   * @param profile Analysis profile
+   * @param language Language of the surrounding instructions, the profile's own texts are used as written
+   * @returns System prompt and the versions of the templates used
+   */
+  buildSystemPrompt(profile: AnalysisProfile, language: OutputLanguage): RenderedPrompt {
+    const {
+      annotationOutputFormatPrompt,
+      customOutputFormatPrompt,
+      defaultSeverityGuidance,
+      requiredChecksPrompt,
+      severityLevelsPrompt
+    } = getPrompts(language);
+    const sections = [profile.systemPrompt.trim()];
+    const templates: Array<PromptTemplate<any>> = [];
+
+    if (this.producesAnnotations(profile)) {
+      templates.push(severityLevelsPrompt);
+      if (!profile.severityGuidance?.trim()) {
+        templates.push(defaultSeverityGuidance);
+      }
+      sections.push(severityLevelsPrompt.render({ levels: profile.severityGuidance?.trim() || defaultSeverityGuidance.render({}) }));
+    } else if (profile.severityGuidance) {
+      sections.push(profile.severityGuidance.trim());
+    }
+
+    if (profile.requiredChecks.length > 0) {
+      templates.push(requiredChecksPrompt);
+      sections.push(requiredChecksPrompt.render({ checks: profile.requiredChecks }));
+    }
+
+    if (this.producesAnnotations(profile)) {
+      templates.push(annotationOutputFormatPrompt);
+      sections.push(annotationOutputFormatPrompt.render({}));
+    } else {
+      templates.push(customOutputFormatPrompt);
+      sections.push(customOutputFormatPrompt.render({ schema: profile.outputSchema }));
+    }
+
+    return { text: sections.join('\n\n'), promptVersion: promptVersion(...templates) };
+  }
+}
+
+export default new AnalysisProfileService();
@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from 'crypto';
+import config from '../config/env';
+import rbacService from './rbac.service';
+import supabaseService from './supabase.service';
+import { ApiKeyDto } from '../dto/apiKey.dto';
+import { Permission } from '../dto/rbac.dto';
+import { signUserToken } from '../utils/userToken';
+
+/**
+ * Marks a bearer credential as API key instead of JWT
+ */
+export const API_KEY_PREFIX = 'sk_';
+
+/**
+ * Lifetime of the user token minted for a key-authenticated request
+ */
+const USER_TOKEN_TTL_SECONDS = 5 * 60;
+
+/**
+ * Raised when an API key is unknown, expired or revoked
+ */
+export class InvalidApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Issues and verifies API keys. Keys are random secrets of which only the SHA-256 hash is stored.
+ * A key-authenticated request acts as the key's owner with the owner's current role: it gets a short-lived
+ * JWT for the owner, signed with SUPABASE_JWT_SECRET, so downstream Supabase calls are subject to the
+ * owner's RLS policies. Keys are written with the service role only.
+ */
+class ApiKeyService {
+  /**
+   * Whether API key authentication is available: looking up keys requires the service role key,
+   * acting as the owner requires the JWT secret
+   */
+  get enabled(): boolean {
+    return !!config.supabaseServiceRoleKey && !!config.supabaseJwtSecret;
+  }
+
+  /**
+   * Checks whether a bearer credential is an API key
+   */
+  isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Creates an API key for a user
+   * @param userId Owner of the key
+   * @param name Label of the key
+   * @param scopes Permissions the key may use
+   * @param expiresInDays Optional lifetime in days
+   * @returns Stored key metadata and the key itself, which is only returned once
+   */
+  async create(
+    userId: string,
+    name: string,
+    scopes: Array<Permission | '*'>,
+    expiresInDays: number | undefined
+  ): Promise<{ apiKey: ApiKeyDto, key: string }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+    const apiKey = await supabaseService.createApiKey({
+      userId,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashKey(key),
+      scopes,
+      expiresAt
+    }, config.supabaseServiceRoleKey);
+    if (!apiKey) {
+      throw new Error('Failed to store API key');
+    }
+
+    console.log(`[API KEYS] Created key ${apiKey.prefix} for user ${userId}`);
+    return { apiKey, key };
+  }
+
+  /**
+   * Revokes an API key of a user
+   * @param keyId API key ID
+   * @param userId Owner of the key
+   * @returns Revoked key or null if it does not exist or was already revoked
+   */
+  async revoke(keyId: string, userId: string): Promise<ApiKeyDto | null> {
+    const apiKey = await supabaseService.revokeApiKey(keyId, userId, config.supabaseServiceRoleKey);
+    if (apiKey) {
+      console.log(`[API KEYS] Revoked key ${apiKey.prefix} of user ${userId}`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Verifies an API key
+   * @param key API key from the request
+   * @returns The key's metadata
+   * @throws InvalidApiKeyError if the key is unknown, expired or revoked
+   */
+  async verify(key: string): Promise<ApiKeyDto> {
+    const apiKey = await supabaseService.getApiKeyByHash(hashKey(key), config.supabaseServiceRoleKey);
+    if (!apiKey) {
+      throw new InvalidApiKeyError('Invalid API key');
+    }
+    if (apiKey.revokedAt) {
+      throw new InvalidApiKeyError('API key revoked');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new InvalidApiKeyError('API key expired');
+    }
+
+    // Not awaited, the last use is informational
+    supabaseService.touchApiKey(apiKey.id, config.supabaseServiceRoleKey);
+    return apiKey;
+  }
+
+  /**
+   * Looks up the current role of a key's owner, so a key never keeps a role its owner lost
+   * @param apiKey Verified API key
+   * @returns Role of the owner
+   * @throws InvalidApiKeyError if the owner cannot be found
+   */
+  async getOwnerRole(apiKey: ApiKeyDto): Promise<string> {
+    const appMetadata = await supabaseService.getUserAppMetadata(apiKey.userId, config.supabaseServiceRoleKey);
+    if (!appMetadata) {
+      throw new InvalidApiKeyError('API key owner not found');
+    }
+    return rbacService.getRole({ app_metadata: appMetadata });
+  }
+
+  /**
+   * Mints a short-lived Supabase JWT for the owner of a key, used for RLS-scoped database access
+   * @param apiKey Verified API key
+   * @param role Current role of the owner
+   * @returns Signed JWT
+   */
+  createUserToken(apiKey: ApiKeyDto, role: string): string {
+    return signUserToken(apiKey.userId, USER_TOKEN_TTL_SECONDS, { user_role: role, api_key_id: apiKey.id });
+  }
+}
+
+export default new ApiKeyService();
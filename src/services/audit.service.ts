@@ -0,0 +1,69 @@
+import config from '../config/env';
+import supabaseService from './supabase.service';
+import { AuditEventDto } from '../dto/rbac.dto';
+
+/**
+ * Storage backend for audit events
+ */
+export interface AuditStore {
+  write(event: AuditEventDto): Promise<void>;
+}
+
+/**
+ * Writes audit events to the server log
+ */
+export class ConsoleAuditStore implements AuditStore {
+  async write(event: AuditEventDto): Promise<void> {
+    console.warn(`[AUDIT] ${JSON.stringify(event)}`);
+  }
+}
+
+/**
+ * Persists audit events in the Supabase audit_log table using the service role key
+ */
+export class SupabaseAuditStore implements AuditStore {
+  constructor(private serviceRoleKey: string) {}
+
+  async write(event: AuditEventDto): Promise<void> {
+    const written = await supabaseService.insertAuditEvent(event, this.serviceRoleKey);
+    if (!written) {
+      // Keep the event in the server log if the database is unavailable
+      console.warn(`[AUDIT] ${JSON.stringify(event)}`);
+    }
+  }
+}
+
+/**
+ * Creates the audit store selected by the AUDIT_LOG_STORE environment variable
+ */
+export const createAuditStore = (): AuditStore => {
+  if (config.auditLogStore === 'supabase') {
+    if (config.supabaseServiceRoleKey) {
+      console.log('[AUDIT] Using Supabase audit log store');
+      return new SupabaseAuditStore(config.supabaseServiceRoleKey);
+    }
+    console.warn('[AUDIT] AUDIT_LOG_STORE=supabase requires SUPABASE_SERVICE_ROLE_KEY, logging to the console instead');
+  }
+  return new ConsoleAuditStore();
+};
+
+/**
+ * Records security-relevant events such as denied requests
+ */
+class AuditService {
+  constructor(private store: AuditStore) {}
+
+  /**
+   * Records an audit event. Failures are logged and never fail the request.
+   * @param event Event without timestamp
+   */
+  async record(event: Omit<AuditEventDto, 'createdAt'>): Promise<void> {
+    try {
+      await this.store.write({ ...event, createdAt: new Date() });
+    } catch (error) {
+      console.error('[AUDIT] Error writing audit event:', error);
+    }
+  }
+}
+
+export default new AuditService(createAuditStore());
@@ -0,0 +1,181 @@
+import path from 'path';
+import supabaseService from './supabase.service';
+import ocrService from './ocr.service';
+import usageService from './usage.service';
+import { ChatSessionDto } from '../dto/chat.dto';
+import { Document, DocumentWithOcr, DocumentWithOcrSummary } from '../dto/document.dto';
+import { OCRResponse, OcrProgressCallback } from '../dto/ocr.dto';
+import { detectDocumentLanguage } from '../utils/language';
+
+/**
+ * Result of registering a stored file, including its OCR result
+ */
+export interface RegisteredDocument {
+  document: Document;
+  ocr: OCRResponse;
+  cacheHit: boolean; // True if the OCR result was reused instead of running OCR again
+}
+
+/**
+ * Document registry: every uploaded file has exactly one documents row holding its
+ * metadata and OCR result. Chat sessions and analyses reference documents by ID.
+ */
+class DocumentService {
+  /**
+   * Finds the document record for a stored file, creating it if it does not exist yet
+   * @param userId User ID
+   * @param filePath Path to the file in the bucket
+   * @param jwt JWT token for user-specific access
+   * @returns Document record
+   */
+  async ensureDocument(userId: string, filePath: string, jwt: string): Promise<Document> {
+    const existing = await supabaseService.getDocumentsByPath(filePath, userId, jwt);
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
+    const created = await supabaseService.createDocument({
+      userId,
+      filePath,
+      fileName: path.basename(filePath),
+      mimeType: supabaseService.getMimeType(filePath)
+    }, jwt);
+    if (!created) {
+      throw new Error(`Failed to create document record for ${filePath}`);
+    }
+
+    console.log(`[DOCUMENTS] Registered document ${created.id} for ${filePath}`);
+    return created;
+  }
+
+  /**
+   * Registers a stored file and makes sure it has an OCR result. A completed OCR result
+   * stored on the document is reused if it satisfies the image requirement. The document
+   * language is detected from the OCR result.
+   * @param userId User ID
+   * @param filePath Path to the file in the bucket
+   * @param includeImageBase64 Whether extracted images are required
+   * @param jwt JWT token for user-specific access
+   * @param onProgress Optional callback receiving OCR progress
+   * @param signal Optional signal aborting OCR, e.g. when the client disconnected
+   * @returns Document record and OCR result
+   */
+  async registerStoredFile(
+    userId: string,
+    filePath: string,
+    includeImageBase64: boolean,
+    jwt: string,
+    onProgress?: OcrProgressCallback,
+    signal?: AbortSignal
+  ): Promise<RegisteredDocument> {
+    const document = await this.ensureDocument(userId, filePath, jwt);
+    const documentId = document.id!;
+
+    const stored = await supabaseService.getDocumentById(documentId, jwt);
+    if (
+      stored?.ocrStatus === 'completed' && stored.ocrResult && (stored.ocrIncludesImages || !includeImageBase64) &&
+      await this.isUnchanged(stored, jwt)
+    ) {
+      console.log(`[DOCUMENTS] Reusing stored OCR result of document ${documentId}`);
+
+      // Documents processed before language detection existed are detected now
+      let reused: Document = stored;
+      if (stored.language == null) {
+        const language = detectDocumentLanguage(stored.ocrResult);
+        if (language) {
+          reused = (await supabaseService.updateDocument(documentId, { language }, jwt)) ?? { ...stored, language };
+        }
+      }
+      return { document: reused, ocr: { ...stored.ocrResult, fileName: document.fileName }, cacheHit: true };
+    }
+
+    await supabaseService.updateDocument(documentId, { ocrStatus: 'processing' }, jwt);
+
+    try {
+      const { result, cacheHit, contentHash } = await ocrService.processStoredFile(filePath, includeImageBase64, jwt, onProgress, signal);
+      const updated = await supabaseService.updateDocument(documentId, {
+        contentHash,
+        pageCount: result.pages?.length ?? 0,
+        ocrStatus: 'completed',
+        ocrResult: result,
+        ocrIncludesImages: includeImageBase64,
+        language: detectDocumentLanguage(result)
+      }, jwt);
+
+      // Cached results did not call the OCR model
+      if (!cacheHit) {
+        await usageService.record(userId, 'ocr', undefined, {
+          provider: 'mistral',
+          model: result.model,
+          documentIds: [documentId]
+        }, jwt, result.usageInfo?.pagesProcessed ?? result.pages?.length ?? 0);
+      }
+
+      return { document: updated ?? document, ocr: result, cacheHit };
+    } catch (error) {
+      await supabaseService.updateDocument(documentId, { ocrStatus: 'failed' }, jwt);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether the stored file still has the content the stored OCR result was made from,
+   * files may be overwritten under the same path
+   */
+  private async isUnchanged(document: Document, jwt: string): Promise<boolean> {
+    if (!document.contentHash) {
+      return false;
+    }
+
+    const contentHash = await ocrService.hashStoredFile(document.filePath, jwt);
+    if (contentHash !== document.contentHash) {
+      console.log(`[DOCUMENTS] File of document ${document.id} changed since its OCR, processing it again`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Links documents to a chat session
+   * @param sessionId Chat session ID
+   * @param documentIds Document IDs
+   * @param jwt JWT token for user-specific access
+   */
+  async linkToSession(sessionId: string, documentIds: string[], jwt: string): Promise<void> {
+    const linked = await supabaseService.linkDocumentsToChatSession(sessionId, documentIds, jwt);
+    if (!linked) {
+      throw new Error(`Failed to link documents to chat session ${sessionId}`);
+    }
+  }
+
+  /**
+   * Gets the documents of a chat session: linked registry documents plus OCR results
+   * embedded in sessions created before the registry existed
+   * @param session Chat session
+   * @param jwt JWT token for user-specific access
+   * @returns Linked documents and legacy embedded OCR results
+   */
+  async getSessionDocuments(session: ChatSessionDto, jwt: string): Promise<{ documents: DocumentWithOcr[], legacyDocuments: OCRResponse[] }> {
+    const documents = await supabaseService.getChatSessionDocuments(session.id, jwt);
+    const legacyDocuments = Array.isArray(session.documents) ? session.documents : [];
+    return { documents, legacyDocuments };
+  }
+
+  /**
+   * Gets the documents of a chat session like getSessionDocuments, loading only the metadata of
+   * linked documents and the model and usage of their OCR results
+   * @param session Chat session
+   * @param jwt JWT token for user-specific access
+   * @returns Linked documents with OCR summaries and legacy embedded OCR results
+   */
+  async getSessionDocumentSummaries(
+    session: ChatSessionDto,
+    jwt: string
+  ): Promise<{ documents: DocumentWithOcrSummary[], legacyDocuments: OCRResponse[] }> {
+    const documents = await supabaseService.getChatSessionDocumentSummaries(session.id, jwt);
+    const legacyDocuments = Array.isArray(session.documents) ? session.documents : [];
+    return { documents, legacyDocuments };
+  }
+}
+
+export default new DocumentService();
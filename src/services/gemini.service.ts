@@ -1,23 +1,26 @@
-import { GoogleGenAI, Chat, Content, GenerateContentConfig } from '@google/genai';
+import { GoogleGenAI, Chat, Content, GenerateContentConfig, GenerateContentResponse } from '@google/genai';
 import config from '../config/env';
 import supabaseService from '../services/supabase.service';
-import { analysisPromptDeutsch } from '../utils/prompts';
+import { getPrompts } from '../utils/promptSets';
+import { OutputLanguage } from '../utils/language';
 
 class GeminiService {
   private ai: GoogleGenAI;
-  private modelName: string = 'gemini-2.5-pro-preview-03-25';
-
-  // Define chat configuration separately for reusability
-  private chatConfig: GenerateContentConfig = {
-    tools: [
-      {
-        googleSearch: {
-          type: 'google_search',
+  readonly modelName: string = 'gemini-2.5-pro-preview-03-25';
+
+  // Define chat configuration separately for reusability, the system instruction depends on the language
+  private chatConfig(language: OutputLanguage): GenerateContentConfig {
+    return {
+      tools: [
+        {
+          googleSearch: {
+            type: 'google_search',
+          },
         },
-      },
-    ],
-    systemInstruction: "Du bist LegalTrain, ein hilfsbereiter und professioneller KI-Assistent, entwickelt von extrain.io in Deutschland. Dein Ziel ist es, dem Benutzer bei seinen Anfragen zu helfen und ihn dabei zu unterstützen, seine Arbeitsabläufe effizient und mit großer Präzision zu erfüllen.",
-  };
+      ],
+      systemInstruction: getPrompts(language).legaltrainPrompt.render({}),
+    };
+  }
 
   constructor() {
     let credentials;
@@ -42,12 +45,10 @@ class GeminiService {
     });
   }
 
-  // Method to generate annotations for document files
-  async generateAnnotations(prompt: string, fileData: string, mimeType: string) {
+  // Method to generate annotations for document files, followUp continues the conversation (e.g. repair prompts).
+  // analysisPrompt is the rendered analysis instruction including the user's input.
+  async generateAnnotations(analysisPrompt: string, fileData: string, mimeType: string, followUp: Content[] = [], model: string = this.modelName) {
     try {
-      // Replace the placeholder in the prompt with the user's input
-      const customizedPrompt = analysisPromptDeutsch.replace('{{userPrompt}}', prompt);
-
       const localChatConfig: GenerateContentConfig = {
         tools: [
           {
@@ -59,11 +60,11 @@ class GeminiService {
       };
       
       // Create content with the file included and user prompt
-      const content = [
+      const content: Content[] = [
         {
           role: 'user',
           parts: [
-            { text: customizedPrompt },
+            { text: analysisPrompt },
             {
               inlineData: {
                 mimeType: mimeType,
@@ -71,12 +72,13 @@ class GeminiService {
               }
             }
           ]
-        }
+        },
+        ...followUp
       ];
 
       // Use the shared config here too
       const response = await this.ai.models.generateContent({
-        model: this.modelName,
+        model,
         contents: content,
         config: localChatConfig
       });
@@ -88,12 +90,109 @@ class GeminiService {
     }
   }
 
+  // Streaming variant of generateAnnotations, the annotations arrive as the model writes them
+  async generateAnnotationsStream(
+    analysisPrompt: string,
+    fileData: string,
+    mimeType: string,
+    model: string = this.modelName
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    try {
+      return await this.ai.models.generateContentStream({
+        model,
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: analysisPrompt },
+              { inlineData: { mimeType, data: fileData } }
+            ]
+          }
+        ],
+        config: {
+          tools: [
+            {
+              googleSearch: {
+                type: 'google_search',
+              },
+            },
+          ],
+        }
+      });
+    } catch (error) {
+      console.error('Error streaming annotations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streams a completion for prepared contents, used by the provider abstraction
+   * @param contents Conversation contents in Gemini format
+   * @param options Optional model override, system instruction and JSON mode
+   * @returns Async generator of response chunks
+   */
+  async generateContentStream(
+    contents: Content[],
+    options: { model?: string; systemInstruction?: string; jsonMode?: boolean } = {}
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    try {
+      const generateConfig: GenerateContentConfig = {};
+      if (options.systemInstruction) {
+        generateConfig.systemInstruction = options.systemInstruction;
+      }
+      if (options.jsonMode) {
+        generateConfig.responseMimeType = 'application/json';
+      }
+
+      return await this.ai.models.generateContentStream({
+        model: options.model || this.modelName,
+        contents,
+        config: generateConfig
+      });
+    } catch (error) {
+      console.error('Error generating content stream:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a completion for prepared contents, used by the provider abstraction
+   * @param contents Conversation contents in Gemini format
+   * @param options Optional model override, system instruction and JSON mode
+   * @returns The full model response
+   */
+  async generateContent(
+    contents: Content[],
+    options: { model?: string; systemInstruction?: string; jsonMode?: boolean } = {}
+  ): Promise<GenerateContentResponse> {
+    try {
+      const generateConfig: GenerateContentConfig = {};
+      if (options.systemInstruction) {
+        generateConfig.systemInstruction = options.systemInstruction;
+      }
+      if (options.jsonMode) {
+        generateConfig.responseMimeType = 'application/json';
+      }
+
+      return await this.ai.models.generateContent({
+        model: options.model || this.modelName,
+        contents,
+        config: generateConfig
+      });
+    } catch (error) {
+      console.error('Error generating content:', error);
+      throw error;
+    }
+  }
+
   // New method for handling chat sessions with history from Supabase
   async sendMessageToChatStreamWithHistory(
     prompt: string, 
     history?: Content[], 
     filePaths?: string[],
-    jwt?: string
+    jwt?: string,
+    language: OutputLanguage = config.defaultLanguage,
+    model: string = this.modelName
   ): Promise<{ stream: AsyncGenerator<any, any, unknown>; updatedHistory: Content[] }> {
     try {
       // Validate JWT when filePaths are provided
@@ -103,8 +202,8 @@ class GeminiService {
 
       // Create a new chat instance with the provided history (if any)
       const chat = this.ai.chats.create({
-        model: this.modelName,
-        config: this.chatConfig,
+        model,
+        config: this.chatConfig(language),
         history: history || []
       });
 
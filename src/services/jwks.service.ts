@@ -0,0 +1,154 @@
+import fs from 'fs/promises';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import config from '../config/env';
+
+/**
+ * Raised when the key set cannot be loaded or does not contain the requested key
+ */
+export class JwksError extends Error {
+  constructor(message: string, public readonly keyNotFound: boolean = false) {
+    super(message);
+    this.name = 'JwksError';
+  }
+}
+
+/**
+ * Where the key set is loaded from: an HTTPS endpoint or a local file (e.g. for tests)
+ */
+export type JwksSource = { type: 'url', url: string } | { type: 'file', path: string };
+
+/**
+ * Minimum time between two reloads triggered by unknown key IDs, so forged tokens cannot flood the endpoint
+ */
+const MIN_RELOAD_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Time a failed load is remembered, so an unreachable endpoint is not requested again for every token
+ */
+const FAILURE_BACKOFF_MS = 10 * 1000;
+
+/**
+ * Loads and caches the public keys of a JWKS. Keys are reloaded once the cache expires
+ * and when a token references an unknown key ID, which picks up rotated keys. Failed loads
+ * are cached for a short backoff period, cached keys stay usable meanwhile.
+ */
+export class JwksKeyStore {
+  private keys = new Map<string, KeyObject>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private failure: { error: unknown, failedAt: number } | null = null;
+
+  constructor(private source: JwksSource, private cacheTtlMs: number) {}
+
+  /**
+   * Gets the public key for a key ID. If refreshing an expired key set fails, the keys of the
+   * last successful load are used until a refresh succeeds.
+   * @param kid Key ID from the token header
+   * @returns Public key
+   * @throws JwksError if the key set cannot be loaded and the key is not cached, or has no such key
+   */
+  async getKey(kid: string | undefined): Promise<KeyObject> {
+    if (Date.now() - this.loadedAt > this.cacheTtlMs) {
+      try {
+        await this.reload();
+      } catch {
+        // Keys that are not cached fail below, when reloading for the unknown key ID fails as well
+      }
+    }
+
+    let key = this.findKey(kid);
+    if (!key && Date.now() - this.loadedAt > MIN_RELOAD_INTERVAL_MS) {
+      // The key may have been rotated in since the last load
+      await this.reload();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new JwksError(`No signing key found for kid '${kid ?? ''}'`, true);
+    }
+    return key;
+  }
+
+  /**
+   * Finds a key by ID. Tokens without kid are accepted if the set holds exactly one key.
+   */
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  /**
+   * Reloads the key set, concurrent callers share one request. After a failed load the
+   * same error is thrown without a new request until FAILURE_BACKOFF_MS have passed.
+   */
+  private async reload(): Promise<void> {
+    if (this.failure && Date.now() - this.failure.failedAt < FAILURE_BACKOFF_MS) {
+      throw this.failure.error;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load()
+        .then(() => {
+          this.failure = null;
+        }, error => {
+          this.failure = { error, failedAt: Date.now() };
+          console.warn(`[AUTH] Could not refresh JWKS, using ${this.keys.size} cached key(s):`, error);
+          throw error;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    let jwks: { keys?: Array<JsonWebKey & { kid?: string, use?: string }> };
+    try {
+      if (this.source.type === 'file') {
+        jwks = JSON.parse(await fs.readFile(this.source.path, 'utf8'));
+      } else {
+        const response = await fetch(this.source.url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        jwks = await response.json();
+      }
+    } catch (error) {
+      throw new JwksError(`Failed to load JWKS: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    (jwks.keys ?? [])
+      .filter(jwk => !jwk.use || jwk.use === 'sig')
+      .forEach((jwk, index) => {
+        try {
+          keys.set(jwk.kid ?? `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          console.warn(`[AUTH] Skipping unusable JWKS key ${jwk.kid ?? index}:`, error);
+        }
+      });
+
+    this.keys = keys;
+    this.loadedAt = Date.now();
+    console.log(`[AUTH] Loaded ${keys.size} JWKS key(s)`);
+  }
+}
+
+/**
+ * Creates the key store for JWT_JWKS_URL or JWT_JWKS_FILE, or null if neither is set
+ */
+export const createJwksKeyStore = (): JwksKeyStore | null => {
+  const cacheTtlMs = config.jwksCacheTtlSeconds * 1000;
+  if (config.jwksFile) {
+    return new JwksKeyStore({ type: 'file', path: config.jwksFile }, cacheTtlMs);
+  }
+  if (config.jwksUrl) {
+    return new JwksKeyStore({ type: 'url', url: config.jwksUrl }, cacheTtlMs);
+  }
+  return null;
+};
+
+export default createJwksKeyStore();
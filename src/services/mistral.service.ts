@@ -10,14 +10,20 @@ import { SystemMessage } from '@mistralai/mistralai/models/components/systemmess
 import { AssistantMessage } from '@mistralai/mistralai/models/components/assistantmessage';
 import { ChatCompletionStreamRequestMessages } from '@mistralai/mistralai/models/components/chatcompletionstreamrequest';
 import { MistralMessage } from '../dto/chat.dto';
-import { OCRResponse, OCRPageObject } from '../dto/ocr.dto';
+import { OCRResponse, OcrProgressCallback } from '../dto/ocr.dto';
 import { Buffer } from 'buffer';
 import { AnalysisResult } from '../utils/types';
 import { UsageInfo } from '@mistralai/mistralai/models/components/usageinfo';
+import { buildDocumentContextMessages, insertDocumentContext } from '../utils/documentContext';
+import { JsonSchema } from '../utils/jsonSchema';
+import { requestStructuredOutput } from '../utils/structuredOutput';
+import { OutputLanguage } from '../utils/language';
+import { ProviderUsage } from './providers/chatProvider';
 
 class MistralService {
     private client: Mistral;
     private modelName: string = 'mistral-medium-latest';
+    readonly ocrModelName: string = 'mistral-ocr-latest';
 
     constructor() {
         if (!config.mistralApiKey) {
@@ -29,153 +35,32 @@ class MistralService {
     }
 
     /**
-     * Processes chat messages, optionally fetching history and processing documents.
-     * Returns the stream and context needed for the controller to update the session.
-     * @param userMessage The user's current message.
      * Sends prepared messages to the Mistral chat stream API.
-     * Optionally includes processed document context as system messages.
+     * Optionally includes processed document context as user messages.
      * @param messages The base array of messages (system prompt, history, user message).
      * @param processedDocuments Optional array of OCR results to inject as context.
+     * @param model Optional model override, defaults to the service model.
+     * @param jsonMode Whether to request a JSON object response.
+     * @param signal Optional signal aborting the request, e.g. when the client disconnected.
      * @returns The event stream from the Mistral API.
      */
     async sendMessageStream(
         messages: MistralMessage[],
-        processedDocuments?: OCRResponse[]
+        processedDocuments?: OCRResponse[],
+        model?: string,
+        jsonMode: boolean = false,
+        signal?: AbortSignal
     ): Promise<EventStream<CompletionEvent>> {
         try {
             console.log(`[MISTRAL] Starting chat stream with ${messages.length} messages and ${processedDocuments?.length || 0} documents`);
 
-            // Convert our messages to SDK-compatible format
-            const sdkMessages: ChatCompletionStreamRequestMessages[] = messages.map(msg => {
-                if (typeof msg.content === 'string') {
-                    // For string content
-                    if (msg.role === 'system') {
-                        return {
-                            role: 'system',
-                            content: msg.content
-                        } as SystemMessage & { role: 'system' };
-                    } else if (msg.role === 'assistant') {
-                        return {
-                            role: 'assistant',
-                            content: msg.content
-                        } as AssistantMessage & { role: 'assistant' };
-                    } else {
-                        return {
-                            role: 'user',
-                            content: msg.content
-                        } as UserMessage & { role: 'user' };
-                    }
-                } else {
-                    // For multimodal content
-                    // Convert our ContentChunk[] to SDK's ContentChunk[]
-                    const sdkContent: ContentChunk[] = msg.content.map(chunk => {
-                        if (chunk.type === 'text') {
-                            return {
-                                type: 'text',
-                                text: chunk.text
-                            } as TextChunk & { type: 'text' };
-                        } else {
-                            return {
-                                type: 'image_url',
-                                imageUrl: chunk.imageUrl
-                            } as ImageURLChunk & { type: 'image_url' };
-                        }
-                    });
-
-                    if (msg.role === 'user') {
-                        return {
-                            role: 'user',
-                            content: sdkContent
-                        } as UserMessage & { role: 'user' };
-                    } else if (msg.role === 'assistant') {
-                        return {
-                            role: 'assistant',
-                            content: sdkContent
-                        } as AssistantMessage & { role: 'assistant' };
-                    } else {
-                        return {
-                            role: 'system',
-                            content: sdkContent
-                        } as SystemMessage & { role: 'system' };
-                    }
-                }
-            });
-            
-            // Inject document context if provided
-            if (processedDocuments && processedDocuments.length > 0) {
-                console.log(`[MISTRAL] Processing ${processedDocuments.length} documents for context`);
-                const documentContextMessages: (UserMessage & { role: 'user' })[] = [];
-                
-                processedDocuments.forEach((doc) => {
-                    const docName = doc.fileName ?? 'Unknown Document';
-                    
-                    if (doc.pages && doc.pages.length > 0) {
-                        // Create multimodal content with both text and images
-                        const multimodalContent: ContentChunk[] = [];
-                        
-                        // Add document header as text
-                        multimodalContent.push({
-                            type: 'text',
-                            text: `--- Document Context: ${docName} ---`
-                        } as TextChunk & { type: 'text' });
-                        
-                        // Process each page
-                        doc.pages.forEach((page: OCRPageObject) => {
-                            // Add page text
-                            multimodalContent.push({
-                                type: 'text',
-                                text: page.markdown
-                            } as TextChunk & { type: 'text' });
-                            
-                            // Add page images if available
-                            if (page.images && page.images.length > 0) {
-                                page.images.forEach(image => {
-                                    if (image.imageBase64) {
-                                        multimodalContent.push({
-                                            type: 'image_url',
-                                            imageUrl: image.imageBase64.startsWith('data:') 
-                                                ? image.imageBase64 
-                                                : `data:image/jpeg;base64,${image.imageBase64}`
-                                        } as ImageURLChunk & { type: 'image_url' });
-                                    }
-                                });
-                            }
-                        });
-                        
-                        // Add document footer as text
-                        multimodalContent.push({
-                            type: 'text',
-                            text: `--- End Document Context: ${docName} ---`
-                        } as TextChunk & { type: 'text' });
-                        
-                        // Create user message with multimodal content
-                        documentContextMessages.push({
-                            role: 'user',
-                            content: multimodalContent
-                        } as UserMessage & { role: 'user' });
-                    } else {
-                        console.warn(`[MISTRAL] Document ${docName} has no pages to process`);
-                    }
-                });
-
-                // Find the position to insert - before the last user message
-                const lastUserIndex = sdkMessages.findIndex(
-                    (msg, i) => msg.role === 'user' && i === sdkMessages.length - 1
-                );
-                
-                if (lastUserIndex !== -1) {
-                    // Insert before the last user message
-                    sdkMessages.splice(lastUserIndex, 0, ...documentContextMessages);
-                } else {
-                    // Fallback: Append at the end
-                    sdkMessages.push(...documentContextMessages);
-                }
-            }
+            const sdkMessages = this.prepareSdkMessages(messages, processedDocuments);
 
             const chatStreamResponse = await this.client.chat.stream({
-                model: this.modelName,
+                model: model || this.modelName,
                 messages: sdkMessages,
-            });
+                ...(jsonMode ? { responseFormat: { type: 'json_object' as const } } : {}),
+            }, signal ? { fetchOptions: { signal } } : undefined);
             
             console.log(`[MISTRAL] Successfully established chat stream`);
             return chatStreamResponse;
@@ -185,109 +70,193 @@ class MistralService {
         }
     }
 
-    // Method to upload a file buffer to Mistral and process OCR
-    async processDocumentOcr(fileContent: Buffer, fileName: string, includeImageBase64: boolean = false): Promise<OCRResponse> { // Explicit return type
+    /**
+     * Sends messages to the non-streaming Mistral chat API
+     * @param messages Array of messages to send to the API
+     * @param processedDocuments Optional array of documents for context
+     * @param options Optional model override, JSON mode and a signal aborting the request
+     * @returns The text content of the first choice and usage information
+     */
+    async getChatCompletion(
+        messages: MistralMessage[],
+        processedDocuments?: OCRResponse[],
+        options: { model?: string, jsonMode?: boolean, signal?: AbortSignal } = {}
+    ): Promise<{ content: string, usage?: UsageInfo }> {
+        try {
+            console.log(`[MISTRAL] Starting chat completion with ${messages.length} messages and ${processedDocuments?.length || 0} documents`);
+
+            const sdkMessages = this.prepareSdkMessages(messages, processedDocuments);
+
+            const chatResponse = await this.client.chat.complete({
+                model: options.model || this.modelName,
+                messages: sdkMessages,
+                ...(options.jsonMode ? { responseFormat: { type: 'json_object' as const } } : {}),
+            }, options.signal ? { fetchOptions: { signal: options.signal } } : undefined);
+
+            const content = chatResponse?.choices?.[0]?.message?.content;
+            if (!content) {
+                console.error(`[MISTRAL] Error: Response missing expected content`);
+                throw new Error('Mistral response did not contain expected content');
+            }
+            if (typeof content !== 'string') {
+                console.error(`[MISTRAL] Error: Response content is not a string`);
+                throw new Error('Mistral response content is not a string');
+            }
+
+            if (chatResponse.usage) {
+                console.log(`[MISTRAL] Token usage: ${JSON.stringify(chatResponse.usage)}`);
+            }
+
+            return { content, usage: chatResponse.usage };
+        } catch (error) {
+            console.error('[MISTRAL] Error getting chat completion:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates embeddings for a batch of texts
+     * @param inputs Texts to embed
+     * @param model Optional embedding model, defaults to mistral-embed
+     * @param signal Optional signal aborting the request, e.g. when the client disconnected.
+     * @returns One embedding per input, in input order, and usage information
+     */
+    async createEmbeddings(
+        inputs: string[],
+        model: string = 'mistral-embed',
+        signal?: AbortSignal
+    ): Promise<{ embeddings: number[][], usage?: UsageInfo }> {
+        try {
+            console.log(`[MISTRAL] Creating embeddings for ${inputs.length} input(s)`);
+
+            const response = await this.client.embeddings.create({ model, inputs }, signal ? { fetchOptions: { signal } } : undefined);
+
+            const embeddings = response.data
+                .slice()
+                .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+                .map(item => item.embedding ?? []);
+
+            if (embeddings.length !== inputs.length) {
+                throw new Error(`Expected ${inputs.length} embeddings but received ${embeddings.length}`);
+            }
+
+            return { embeddings, usage: response.usage };
+        } catch (error) {
+            console.error(`[MISTRAL] Error creating embeddings:`, error);
+            throw error;
+        }
+    }
+
+    // Method to upload a file buffer to Mistral and process OCR.
+    // The optional signal aborts the upload and OCR requests, e.g. when the client disconnected.
+    async processDocumentOcr(
+        fileContent: Buffer,
+        fileName: string,
+        includeImageBase64: boolean = false,
+        onProgress?: OcrProgressCallback,
+        signal?: AbortSignal
+    ): Promise<OCRResponse> { // Explicit return type
+        const requestOptions = signal ? { fetchOptions: { signal } } : undefined;
+        let uploadedPdf: { id: string } | undefined;
         try {
             console.log(`[MISTRAL] Starting OCR processing for "${fileName}"`);
 
-            const uploadedPdf = await this.client.files.upload({
+            onProgress?.('uploading', 20);
+            uploadedPdf = await this.client.files.upload({
                 file: { fileName: fileName, content: fileContent },
                 purpose: "ocr"
-            });
+            }, requestOptions);
             console.log(`[MISTRAL] File uploaded successfully. File ID: ${uploadedPdf.id}`);
 
-            const signedUrlResponse = await this.client.files.getSignedUrl({ fileId: uploadedPdf.id });
+            onProgress?.('signing', 35);
+            const signedUrlResponse = await this.client.files.getSignedUrl({ fileId: uploadedPdf.id }, requestOptions);
+
+            onProgress?.('ocr', 40);
 
             console.log(`[MISTRAL] Processing OCR with${includeImageBase64 ? '' : 'out'} image base64 data`);
             const ocrResponse = await this.client.ocr.process({
-                model: "mistral-ocr-latest",
+                model: this.ocrModelName,
                 document: { type: "document_url", documentUrl: signedUrlResponse.url },
                 includeImageBase64: includeImageBase64
-            });
+            }, requestOptions);
 
             // Add fileName to the response object as it's useful later
             const responseWithFilename = { ...ocrResponse, fileName: fileName } as OCRResponse;
-
-            // Consider deleting the file after processing
-            try {
-                 await this.client.files.delete({ fileId: uploadedPdf.id });
-                 console.log(`[MISTRAL] Deleted temporary file from Mistral storage`);
-            } catch (deleteError) {
-                 console.warn(`[MISTRAL] Could not delete temporary file ${uploadedPdf.id}:`, deleteError);
-            }
+            onProgress?.('cleanup', 90);
 
             console.log(`[MISTRAL] OCR processing completed for "${fileName}" (${responseWithFilename.pages?.length || 0} pages)`);
             return responseWithFilename; // Return the augmented response
         } catch (error) {
             console.error(`[MISTRAL] Error processing OCR for "${fileName}":`, error);
             throw error;
+        } finally {
+            // The uploaded file is deleted on failures and aborts too, without the signal so an abort does not cancel it
+            if (uploadedPdf) {
+                try {
+                    await this.client.files.delete({ fileId: uploadedPdf.id });
+                    console.log(`[MISTRAL] Deleted temporary file from Mistral storage`);
+                } catch (deleteError) {
+                    console.warn(`[MISTRAL] Could not delete temporary file ${uploadedPdf.id}:`, deleteError);
+                }
+            }
         }
     }
 
     /**
-     * Sends messages to Mistral API with JSON response format
-     * @param messages Array of messages to send to the API
-     * @param processedDocuments Optional array of documents for context
-     * @returns Structured JSON response and usage information
+     * Gets a JSON response validated against a schema, sending repair prompts for invalid output
+     * @param messages Array of messages in the conversation
+     * @param schema Expected schema of the response
+     * @param processedDocuments Optional array of OCR processed documents
+     * @param model Optional model override
+     * @param language Optional language of the repair prompts
+     * @param signal Optional signal aborting the requests, e.g. when the client disconnected.
+     * @returns Validated result, usage summed over all attempts and the number of attempts
+     * @throws StructuredOutputError if the output is still invalid after all repair attempts
      */
-    async getStructuredJsonResponse(
+    async getStructuredJsonResponse<T = AnalysisResult>(
         messages: MistralMessage[],
-        processedDocuments?: OCRResponse[]
-    ): Promise<{ result: AnalysisResult, usage?: UsageInfo }> {
+        schema: JsonSchema,
+        processedDocuments?: OCRResponse[],
+        model?: string,
+        language?: OutputLanguage,
+        signal?: AbortSignal
+    ): Promise<{ result: T, usage?: ProviderUsage, attempts: number }> {
         try {
             console.log(`[MISTRAL] Starting structured JSON request with ${messages.length} messages and ${processedDocuments?.length || 0} documents`);
-            
-            // Convert our messages to SDK-compatible format
-            const sdkMessages = this.convertMessagesToSdkFormat(messages);
-            
-            // Inject document context if provided
-            if (processedDocuments && processedDocuments.length > 0) {
-                this.injectDocumentContext(sdkMessages, processedDocuments);
-            }
 
             // Use the non-streaming complete endpoint with JSON response format
-            const chatResponse = await this.client.chat.complete({
-                model: this.modelName,
-                messages: sdkMessages,
-                responseFormat: { type: 'json_object' },
-            });
-            
-            // Extract and parse JSON response
-            if (chatResponse?.choices?.[0]?.message?.content) {
-                try {
-                    // Check that content is a string before parsing
-                    const content = chatResponse.choices[0].message.content;
-                    if (typeof content === 'string') {
-                        const jsonContent = JSON.parse(content) as AnalysisResult;
-                        console.log(`[MISTRAL] Successfully received and parsed JSON response`);
-                        
-                        if (chatResponse.usage) {
-                            console.log(`[MISTRAL] Token usage for analysis: ${JSON.stringify(chatResponse.usage)}`);
-                        }
-                        
-                        // Return both the result and usage data
-                        return { 
-                            result: jsonContent,
-                            usage: chatResponse.usage 
-                        };
-                    } else {
-                        console.error(`[MISTRAL] Error: Response content is not a string`);
-                        throw new Error('Mistral response content is not a string and cannot be parsed as JSON');
-                    }
-                } catch (parseError) {
-                    console.error(`[MISTRAL] Error parsing JSON response:`, parseError);
-                    throw new Error('Failed to parse Mistral response as JSON');
-                }
-            } else {
-                console.error(`[MISTRAL] Error: Response missing expected content`);
-                throw new Error('Mistral response did not contain expected content');
-            }
+            const { data, usage, attempts } = await requestStructuredOutput<T>(
+                followUp => this.getChatCompletion([...messages, ...followUp], processedDocuments, { model, jsonMode: true, signal }),
+                schema,
+                { label: `mistral/${model || this.modelName}`, language }
+            );
+            console.log(`[MISTRAL] Successfully received and validated JSON response`);
+
+            return { result: data, usage, attempts };
         } catch (error) {
             console.error('[MISTRAL] Error getting structured JSON response:', error);
             throw error;
         }
     }
 
+    /**
+     * Helper method to convert messages to SDK format and inject document context
+     */
+    private prepareSdkMessages(
+        messages: MistralMessage[],
+        processedDocuments?: OCRResponse[]
+    ): ChatCompletionStreamRequestMessages[] {
+        if (!processedDocuments || processedDocuments.length === 0) {
+            return this.convertMessagesToSdkFormat(messages);
+        }
+
+        console.log(`[MISTRAL] Injecting context from ${processedDocuments.length} document(s)`);
+        const documentContextMessages = buildDocumentContextMessages(processedDocuments);
+        console.log(`[MISTRAL] Added ${documentContextMessages.length} document context messages to request`);
+
+        return this.convertMessagesToSdkFormat(insertDocumentContext(messages, documentContextMessages));
+    }
+
     /**
      * Helper method to convert our message format to SDK format
      */
@@ -347,84 +316,6 @@ class MistralService {
             }
         });
     }
-
-    /**
-     * Helper method to inject document context into messages
-     */
-    private injectDocumentContext(
-        sdkMessages: ChatCompletionStreamRequestMessages[], 
-        processedDocuments: OCRResponse[]
-    ): void {
-        console.log(`[MISTRAL] Injecting context from ${processedDocuments.length} document(s)`);
-        const documentContextMessages: (UserMessage & { role: 'user' })[] = [];
-        
-        processedDocuments.forEach((doc, index) => {
-            const docName = doc.fileName ?? 'Unknown Document';
-            
-            if (doc.pages && doc.pages.length > 0) {
-                // Create multimodal content with both text and images
-                const multimodalContent: ContentChunk[] = [];
-                
-                // Add document header as text
-                multimodalContent.push({
-                    type: 'text',
-                    text: `--- Document Context: ${docName} ---`
-                } as TextChunk & { type: 'text' });
-                
-                // Process each page
-                doc.pages.forEach((page: OCRPageObject, pageIndex) => {
-                    // Add page text
-                    multimodalContent.push({
-                        type: 'text',
-                        text: page.markdown
-                    } as TextChunk & { type: 'text' });
-                    
-                    // Add page images if available
-                    if (page.images && page.images.length > 0) {
-                        page.images.forEach(image => {
-                            if (image.imageBase64) {
-                                multimodalContent.push({
-                                    type: 'image_url',
-                                    imageUrl: image.imageBase64.startsWith('data:') 
-                                        ? image.imageBase64 
-                                        : `data:image/jpeg;base64,${image.imageBase64}`
-                                } as ImageURLChunk & { type: 'image_url' });
-                            }
-                        });
-                    }
-                });
-                
-                // Add document footer as text
-                multimodalContent.push({
-                    type: 'text',
-                    text: `--- End Document Context: ${docName} ---`
-                } as TextChunk & { type: 'text' });
-                
-                // Create user message with multimodal content
-                documentContextMessages.push({
-                    role: 'user',
-                    content: multimodalContent
-                } as UserMessage & { role: 'user' });
-            } else {
-                console.warn(`[MISTRAL] Document ${docName} has no pages to process`);
-            }
-        });
-
-        // Find the position to insert - before the last user message
-        const lastUserIndex = sdkMessages.findIndex(
-            (msg, i) => msg.role === 'user' && i === sdkMessages.length - 1
-        );
-        
-        if (lastUserIndex !== -1) {
-            // Insert before the last user message
-            sdkMessages.splice(lastUserIndex, 0, ...documentContextMessages);
-        } else {
-            // Fallback: Append at the end
-            sdkMessages.push(...documentContextMessages);
-        }
-        
-        console.log(`[MISTRAL] Added ${documentContextMessages.length} document context messages to request`);
-    }
 }
 
 export default new MistralService();
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mistralService from './mistral.service';
+import supabaseService from './supabase.service';
+import { OcrCacheStore, createOcrCacheStore } from './ocrCache.store';
+import { OCRResponse, OcrProgressCallback } from '../dto/ocr.dto';
+
+/**
+ * Result of an OCR request, including whether it was served from the cache
+ */
+export interface OcrProcessingResult {
+  result: OCRResponse;
+  cacheHit: boolean;
+  contentHash: string;
+}
+
+const hashContent = (fileContent: Buffer): string => createHash('sha256').update(fileContent).digest('hex');
+
+/**
+ * Runs Mistral OCR on documents, reusing earlier results for identical file content
+ */
+class OcrService {
+  constructor(private cacheStore: OcrCacheStore) {}
+
+  /**
+   * Builds the cache key from the SHA-256 of the file bytes, the OCR model and the image flag
+   */
+  private buildCacheKey(contentHash: string, includeImageBase64: boolean): string {
+    return `${contentHash}:${mistralService.ocrModelName}:${includeImageBase64 ? 'images' : 'text'}`;
+  }
+
+  /**
+   * Processes a document buffer with OCR, returning a cached result if the same content was processed before
+   * @param fileContent File bytes
+   * @param fileName File name attached to the result
+   * @param includeImageBase64 Whether extracted images should be included
+   * @param onProgress Optional callback receiving processing progress
+   * @param signal Optional signal aborting the OCR requests
+   * @returns OCR result and cache information
+   */
+  async processDocument(
+    fileContent: Buffer,
+    fileName: string,
+    includeImageBase64: boolean,
+    onProgress?: OcrProgressCallback,
+    signal?: AbortSignal
+  ): Promise<OcrProcessingResult> {
+    const contentHash = hashContent(fileContent);
+    const cacheKey = this.buildCacheKey(contentHash, includeImageBase64);
+
+    try {
+      const cached = await this.cacheStore.get(cacheKey);
+      if (cached) {
+        console.log(`[OCR] Cache hit for "${fileName}" (${contentHash.slice(0, 12)})`);
+        // The same content may have been uploaded under another name
+        return { result: { ...cached, fileName }, cacheHit: true, contentHash };
+      }
+    } catch (cacheError) {
+      console.warn(`[OCR] Error reading OCR cache, processing without cache:`, cacheError);
+    }
+
+    const result = await mistralService.processDocumentOcr(fileContent, fileName, includeImageBase64, onProgress, signal);
+
+    try {
+      await this.cacheStore.set({
+        cacheKey,
+        contentHash,
+        model: mistralService.ocrModelName,
+        includeImageBase64,
+        result
+      });
+    } catch (cacheError) {
+      console.warn(`[OCR] Error writing OCR cache:`, cacheError);
+    }
+
+    return { result, cacheHit: false, contentHash };
+  }
+
+  /**
+   * Downloads a file from Supabase storage and processes it with OCR (cached)
+   * @param filePath Path to the file in the bucket
+   * @param includeImageBase64 Whether extracted images should be included
+   * @param jwt JWT token for user-specific access
+   * @param onProgress Optional callback receiving processing progress
+   * @param signal Optional signal aborting the OCR requests
+   * @returns OCR result and cache information
+   */
+  async processStoredFile(
+    filePath: string,
+    includeImageBase64: boolean,
+    jwt: string,
+    onProgress?: OcrProgressCallback,
+    signal?: AbortSignal
+  ): Promise<OcrProcessingResult> {
+    onProgress?.('downloading', 5);
+    return this.withStoredFile(filePath, jwt, fileContent =>
+      this.processDocument(fileContent, path.basename(filePath), includeImageBase64, onProgress, signal)
+    );
+  }
+
+  /**
+   * Downloads a file from Supabase storage and computes the SHA-256 of its bytes
+   * @param filePath Path to the file in the bucket
+   * @param jwt JWT token for user-specific access
+   * @returns Hex encoded content hash
+   */
+  async hashStoredFile(filePath: string, jwt: string): Promise<string> {
+    return this.withStoredFile(filePath, jwt, async fileContent => hashContent(fileContent));
+  }
+
+  /**
+   * Downloads a file to a temporary location, passes its bytes to the callback and removes the file again
+   */
+  private async withStoredFile<T>(filePath: string, jwt: string, callback: (fileContent: Buffer) => Promise<T>): Promise<T> {
+    let tempFilePath: string | null = null;
+    try {
+      tempFilePath = await supabaseService.downloadFile(filePath, jwt);
+      return await callback(fs.readFileSync(tempFilePath));
+    } finally {
+      if (tempFilePath) {
+        try {
+          fs.unlinkSync(tempFilePath);
+        } catch (cleanupError) {
+          console.error(`[OCR] Error cleaning temp file ${tempFilePath}:`, cleanupError);
+        }
+      }
+    }
+  }
+}
+
+export default new OcrService(createOcrCacheStore());
@@ -0,0 +1,87 @@
+import config from '../config/env';
+import supabaseService from './supabase.service';
+import { OCRResponse } from '../dto/ocr.dto';
+
+/**
+ * Metadata stored alongside a cached OCR result
+ */
+export interface OcrCacheEntry {
+  cacheKey: string;
+  contentHash: string;
+  model: string;
+  includeImageBase64: boolean;
+  result: OCRResponse;
+}
+
+/**
+ * Storage backend for cached OCR results. Callers look entries up by the hash of file bytes
+ * the user could download, so a user only hits entries for content they hold.
+ */
+export interface OcrCacheStore {
+  get(cacheKey: string): Promise<OCRResponse | null>;
+  set(entry: OcrCacheEntry): Promise<void>;
+}
+
+/**
+ * Process-local cache, evicting the least recently used entry once full
+ */
+export class InMemoryOcrCacheStore implements OcrCacheStore {
+  private entries = new Map<string, OCRResponse>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(cacheKey: string): Promise<OCRResponse | null> {
+    const result = this.entries.get(cacheKey);
+    if (!result) {
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, result);
+    return result;
+  }
+
+  async set(entry: OcrCacheEntry): Promise<void> {
+    this.entries.delete(entry.cacheKey);
+    this.entries.set(entry.cacheKey, entry.result);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Cache persisted in the Supabase ocr_cache table, shared across server instances and restarts.
+ * The table has no user policies and is accessed with the service role key.
+ */
+export class SupabaseOcrCacheStore implements OcrCacheStore {
+  constructor(private serviceRoleKey: string) {}
+
+  async get(cacheKey: string): Promise<OCRResponse | null> {
+    return supabaseService.getOcrCacheEntry(cacheKey, this.serviceRoleKey);
+  }
+
+  async set(entry: OcrCacheEntry): Promise<void> {
+    await supabaseService.saveOcrCacheEntry(entry, this.serviceRoleKey);
+  }
+}
+
+/**
+ * Creates the cache store selected by the OCR_CACHE_STORE environment variable
+ */
+export const createOcrCacheStore = (): OcrCacheStore => {
+  if (config.ocrCacheStore === 'supabase') {
+    if (config.supabaseServiceRoleKey) {
+      console.log('[OCR] Using Supabase OCR cache store');
+      return new SupabaseOcrCacheStore(config.supabaseServiceRoleKey);
+    }
+    console.warn('[OCR] OCR_CACHE_STORE=supabase requires SUPABASE_SERVICE_ROLE_KEY, falling back to the in-memory store');
+  }
+  console.log(`[OCR] Using in-memory OCR cache store (max ${config.ocrCacheMaxEntries} entries)`);
+  return new InMemoryOcrCacheStore(config.ocrCacheMaxEntries);
+};
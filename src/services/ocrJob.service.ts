@@ -0,0 +1,211 @@
+import config from '../config/env';
+import supabaseService from './supabase.service';
+import documentService from './document.service';
+import { OcrJobDto } from '../dto/ocr.dto';
+import { signUserToken } from '../utils/userToken';
+
+/**
+ * Processing jobs without an update for this long are considered abandoned by their worker
+ */
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * Interval in which a running job rewrites its progress, so its updated_at does not become stale
+ * while a single OCR request runs for a long time
+ */
+const HEARTBEAT_MS = 60 * 1000;
+
+/**
+ * Lifetime of the owner token a job runs with
+ */
+const JOB_TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * A job waiting for a worker, together with the credentials used to run it
+ */
+interface QueuedOcrJob {
+  job: OcrJobDto;
+  jwt: string; // Used when no owner token can be minted, may expire while the job waits
+}
+
+/**
+ * Runs OCR jobs in the background with a bounded number of concurrent workers.
+ * Job state is persisted in the ocr_jobs table so clients can poll it and
+ * unfinished jobs can be resumed after a restart. A worker claims a job with a conditional
+ * update before running it, so a job resumed by several processes or polls runs once.
+ */
+class OcrJobService {
+  private queue: QueuedOcrJob[] = [];
+  private trackedJobIds = new Set<string>(); // Jobs queued or running in this process
+  private runningCount = 0;
+
+  constructor(private concurrency: number) {}
+
+  /**
+   * Persists a new job and schedules it
+   * @param userId User ID
+   * @param filePath Path to the file in the bucket
+   * @param includeImageBase64 Whether extracted images should be included
+   * @param jwt JWT token for user-specific access
+   * @returns The queued job or null if it could not be persisted
+   */
+  async enqueue(userId: string, filePath: string, includeImageBase64: boolean, jwt: string): Promise<OcrJobDto | null> {
+    const job = await supabaseService.createOcrJob(userId, filePath, includeImageBase64, jwt);
+    if (!job) {
+      return null;
+    }
+
+    console.log(`[OCR JOBS] Queued job ${job.id} for ${filePath}`);
+    this.schedule(job, jwt);
+    return job;
+  }
+
+  /**
+   * Gets the persisted state of a job. Queued or abandoned jobs that no worker in this process
+   * knows about (e.g. after a restart without service role key) are resumed, with the caller's JWT
+   * if no owner token can be minted.
+   * @param jobId Job ID
+   * @param jwt JWT token for user-specific access
+   * @returns Job or null
+   */
+  async getJob(jobId: string, jwt: string): Promise<OcrJobDto | null> {
+    const job = await supabaseService.getOcrJobById(jobId, jwt);
+    if (!job) {
+      return null;
+    }
+
+    if (this.isClaimable(job) && !this.trackedJobIds.has(job.id)) {
+      console.log(`[OCR JOBS] Resuming orphaned job ${job.id}`);
+      this.schedule(job, jwt);
+    }
+
+    return job;
+  }
+
+  /**
+   * Re-queues jobs that were queued or abandoned while processing when the server stopped.
+   * The service role key only lists the jobs: each job runs with a token minted for its owner,
+   * so the file is read through the owner's storage policies. Requires SUPABASE_SERVICE_ROLE_KEY
+   * and SUPABASE_JWT_SECRET, otherwise jobs are resumed when their owner polls them.
+   */
+  async recoverJobs(): Promise<void> {
+    if (!config.supabaseServiceRoleKey || !config.supabaseJwtSecret) {
+      console.warn('[OCR JOBS] SUPABASE_SERVICE_ROLE_KEY or SUPABASE_JWT_SECRET not set, unfinished jobs will be resumed when polled');
+      return;
+    }
+
+    const jobs = (await supabaseService.getUnfinishedOcrJobs(config.supabaseServiceRoleKey)).filter(job => this.isClaimable(job));
+    jobs.forEach(job => this.schedule(job, signUserToken(job.userId, JOB_TOKEN_TTL_SECONDS)));
+    console.log(`[OCR JOBS] Recovered ${jobs.length} unfinished job(s)`);
+  }
+
+  /**
+   * Whether a job may be claimed: it is queued, or processing without an update for STALE_JOB_MS
+   */
+  private isClaimable(job: OcrJobDto): boolean {
+    return job.status === 'queued'
+      || (job.status === 'processing' && Date.now() - job.updatedAt.getTime() > STALE_JOB_MS);
+  }
+
+  /**
+   * Adds a job to the in-memory queue and starts workers if capacity is available
+   */
+  private schedule(job: OcrJobDto, jwt: string): void {
+    if (this.trackedJobIds.has(job.id)) {
+      return;
+    }
+    this.trackedJobIds.add(job.id);
+    this.queue.push({ job, jwt });
+    this.drain();
+  }
+
+  /**
+   * Starts queued jobs until the concurrency limit is reached
+   */
+  private drain(): void {
+    while (this.runningCount < this.concurrency && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.runningCount++;
+      this.run(next)
+        .catch(error => console.error(`[OCR JOBS] Unexpected error in job ${next.job.id}:`, error))
+        .finally(() => {
+          this.runningCount--;
+          this.trackedJobIds.delete(next.job.id);
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Gets the credentials a job runs with. A token for the job owner is minted when the job starts,
+   * so a job that waited in the queue does not run with a request JWT close to expiry.
+   * Without SUPABASE_JWT_SECRET the JWT the job was queued with is used.
+   */
+  private getRunToken({ job, jwt }: QueuedOcrJob): string {
+    return config.supabaseJwtSecret ? signUserToken(job.userId, JOB_TOKEN_TTL_SECONDS) : jwt;
+  }
+
+  /**
+   * Processes a single job, persisting progress and the final result or error
+   */
+  private async run(next: QueuedOcrJob): Promise<void> {
+    const { job: queued } = next;
+    const jwt = this.getRunToken(next);
+    const job = await supabaseService.claimOcrJob(queued, new Date(Date.now() - STALE_JOB_MS), jwt);
+    if (!job) {
+      console.log(`[OCR JOBS] Skipping job ${queued.id}, it was claimed by another worker`);
+      return;
+    }
+    console.log(`[OCR JOBS] Starting job ${job.id} (${this.runningCount}/${this.concurrency} workers busy)`);
+
+    // Progress writes are chained so they never overtake each other or the final update
+    let progressWrites: Promise<unknown> = Promise.resolve();
+    let lastProgress = { stage: job.stage, progress: job.progress };
+    const writeProgress = (): void => {
+      const update = lastProgress;
+      // Progress writes are best effort and must not block processing
+      progressWrites = progressWrites
+        .then(() => supabaseService.updateOcrJob(job.id, update, jwt))
+        .catch(error => console.warn(`[OCR JOBS] Could not update progress of job ${job.id}:`, error));
+    };
+
+    // Rewriting the progress refreshes updated_at, so other workers do not re-claim the job as stale
+    const heartbeat = setInterval(writeProgress, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+      const { ocr: result, cacheHit } = await documentService.registerStoredFile(
+        job.userId,
+        job.filePath,
+        job.includeImageBase64,
+        jwt,
+        (stage, progress) => {
+          lastProgress = { stage, progress };
+          writeProgress();
+        }
+      );
+
+      clearInterval(heartbeat);
+      await progressWrites;
+      await supabaseService.updateOcrJob(job.id, {
+        status: 'completed',
+        progress: 100,
+        stage: 'completed',
+        result,
+        cacheHit
+      }, jwt);
+      console.log(`[OCR JOBS] Completed job ${job.id}${cacheHit ? ' (cache hit)' : ''}`);
+    } catch (error) {
+      console.error(`[OCR JOBS] Job ${job.id} failed:`, error);
+      clearInterval(heartbeat);
+      await progressWrites;
+      await supabaseService.updateOcrJob(job.id, {
+        status: 'failed',
+        stage: 'failed',
+        error: error instanceof Error ? error.message : 'OCR processing failed'
+      }, jwt);
+    }
+  }
+}
+
+export default new OcrJobService(config.ocrJobConcurrency);
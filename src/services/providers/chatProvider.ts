@@ -0,0 +1,131 @@
+import { MistralMessage } from '../../dto/chat.dto';
+import { OCRResponse } from '../../dto/ocr.dto';
+import { JsonSchema } from '../../utils/jsonSchema';
+import { OutputLanguage } from '../../utils/language';
+
+/**
+ * Provider-neutral chat message. Structurally identical to MistralMessage so existing
+ * session history can be passed to any provider without conversion.
+ */
+export type ProviderMessage = MistralMessage;
+
+/**
+ * Token usage normalized across providers
+ */
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Options shared by all provider calls
+ */
+export interface ProviderRequestOptions {
+  /**
+   * Model to use, defaults to the provider's default model
+   */
+  model?: string;
+
+  /**
+   * OCR'd documents to include as context
+   */
+  documents?: OCRResponse[];
+
+  /**
+   * Ask the model for a JSON response (native JSON mode where supported)
+   */
+  jsonMode?: boolean;
+
+  /**
+   * Language of prompts added by the provider, e.g. structured output repair prompts
+   */
+  language?: OutputLanguage;
+
+  /**
+   * Aborts the request, e.g. when the client disconnected. A stream emits no further events,
+   * a completion rejects.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Context window of a model and how densely its tokenizer packs text, used to budget prompts
+ */
+export interface ModelLimits {
+  contextWindow: number; // Prompt and completion tokens together
+  charsPerToken: number; // Average characters per token for German and English text
+}
+
+/**
+ * Events emitted while streaming a completion
+ */
+export type ProviderStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: ProviderUsage };
+
+/**
+ * Result of a non-streaming completion
+ */
+export interface ProviderCompletion {
+  content: string;
+  model: string;
+  usage?: ProviderUsage;
+}
+
+/**
+ * Result of a structured JSON completion
+ */
+export interface ProviderJsonCompletion<T> {
+  result: T;
+  model: string;
+  usage?: ProviderUsage; // Summed over all attempts
+  attempts: number; // 1 + number of repair prompts that were needed
+}
+
+/**
+ * Common interface implemented by every LLM backend.
+ * Adding a backend means implementing this interface and registering it in the provider registry.
+ */
+export interface ChatProvider {
+  /**
+   * Unique provider name used in requests (e.g. 'mistral')
+   */
+  readonly name: string;
+
+  /**
+   * Model used when the request does not specify one
+   */
+  readonly defaultModel: string;
+
+  /**
+   * Models that may be requested for this provider
+   */
+  readonly models: string[];
+
+  /**
+   * Limits of every model in models
+   */
+  readonly modelLimits: Record<string, ModelLimits>;
+
+  /**
+   * Streams a completion as delta and usage events
+   */
+  stream(messages: ProviderMessage[], options?: ProviderRequestOptions): AsyncGenerator<ProviderStreamEvent>;
+
+  /**
+   * Returns a complete text response
+   */
+  complete(messages: ProviderMessage[], options?: ProviderRequestOptions): Promise<ProviderCompletion>;
+
+  /**
+   * Returns a JSON response validated against the schema, sending repair prompts for invalid output
+   * @throws StructuredOutputError if the output is still invalid after all repair attempts
+   */
+  completeJson<T>(messages: ProviderMessage[], schema: JsonSchema, options?: ProviderRequestOptions): Promise<ProviderJsonCompletion<T>>;
+
+  /**
+   * Normalizes the provider's native usage report, returns undefined if none is available
+   */
+  toUsage(rawUsage: unknown): ProviderUsage | undefined;
+}
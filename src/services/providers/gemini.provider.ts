@@ -0,0 +1,145 @@
+import { Content, Part } from '@google/genai';
+import geminiService from '../gemini.service';
+import { buildDocumentContextMessages, insertDocumentContext } from '../../utils/documentContext';
+import { JsonSchema } from '../../utils/jsonSchema';
+import { requestStructuredOutput } from '../../utils/structuredOutput';
+import {
+  ChatProvider,
+  ModelLimits,
+  ProviderCompletion,
+  ProviderJsonCompletion,
+  ProviderMessage,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+  ProviderUsage
+} from './chatProvider';
+
+/**
+ * Chat provider backed by Gemini on Vertex AI
+ */
+class GeminiProvider implements ChatProvider {
+  readonly name = 'gemini';
+  readonly defaultModel = 'gemini-2.5-pro-preview-03-25';
+  readonly models = ['gemini-2.5-pro-preview-03-25', 'gemini-2.0-flash'];
+  readonly modelLimits: Record<string, ModelLimits> = {
+    'gemini-2.5-pro-preview-03-25': { contextWindow: 1048576, charsPerToken: 4 },
+    'gemini-2.0-flash': { contextWindow: 1048576, charsPerToken: 4 }
+  };
+
+  async *stream(messages: ProviderMessage[], options: ProviderRequestOptions = {}): AsyncGenerator<ProviderStreamEvent> {
+    const { contents, systemInstruction } = this.toGeminiContents(messages, options);
+    const stream = await geminiService.generateContentStream(contents, {
+      model: options.model || this.defaultModel,
+      systemInstruction,
+      jsonMode: options.jsonMode
+    });
+
+    // Gemini reports cumulative usage on every chunk, only the final value is emitted
+    let lastUsage: ProviderUsage | undefined;
+    for await (const chunk of stream) {
+      // This SDK version takes no abort signal, leaving the loop stops reading and closes the response
+      if (options.signal?.aborted) {
+        return;
+      }
+      lastUsage = this.toUsage(chunk.usageMetadata) ?? lastUsage;
+
+      const text = chunk.text;
+      if (text) {
+        yield { type: 'delta', content: text };
+      }
+    }
+
+    if (lastUsage) {
+      yield { type: 'usage', usage: lastUsage };
+    }
+  }
+
+  async complete(messages: ProviderMessage[], options: ProviderRequestOptions = {}): Promise<ProviderCompletion> {
+    const model = options.model || this.defaultModel;
+    // This SDK version takes no abort signal, an aborted request is at least not started
+    options.signal?.throwIfAborted();
+    const { contents, systemInstruction } = this.toGeminiContents(messages, options);
+    const response = await geminiService.generateContent(contents, { model, systemInstruction, jsonMode: options.jsonMode });
+
+    const content = response.text;
+    if (!content) {
+      throw new Error('Gemini response did not contain expected content');
+    }
+
+    return { content, model, usage: this.toUsage(response.usageMetadata) };
+  }
+
+  async completeJson<T>(messages: ProviderMessage[], schema: JsonSchema, options: ProviderRequestOptions = {}): Promise<ProviderJsonCompletion<T>> {
+    const model = options.model || this.defaultModel;
+    const { data, usage, attempts } = await requestStructuredOutput<T>(
+      followUp => this.complete([...messages, ...followUp], { ...options, model, jsonMode: true }),
+      schema,
+      { label: `${this.name}/${model}`, language: options.language }
+    );
+    return { result: data, model, usage, attempts };
+  }
+
+  toUsage(rawUsage: unknown): ProviderUsage | undefined {
+    if (!rawUsage || typeof rawUsage !== 'object') {
+      return undefined;
+    }
+    const usage = rawUsage as { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+    return {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0
+    };
+  }
+
+  /**
+   * Converts provider messages to Gemini contents. System messages become the system
+   * instruction, assistant messages use the 'model' role and data URLs become inline data.
+   */
+  private toGeminiContents(
+    messages: ProviderMessage[],
+    options: ProviderRequestOptions
+  ): { contents: Content[]; systemInstruction?: string } {
+    const documentContext = options.documents && options.documents.length > 0
+      ? buildDocumentContextMessages(options.documents)
+      : [];
+    const allMessages = insertDocumentContext(messages, documentContext);
+
+    const systemParts: string[] = [];
+    const contents: Content[] = [];
+
+    for (const message of allMessages) {
+      if (message.role === 'system') {
+        systemParts.push(typeof message.content === 'string'
+          ? message.content
+          : message.content.map(chunk => chunk.type === 'text' ? chunk.text : '').join('\n'));
+        continue;
+      }
+
+      const parts: Part[] = typeof message.content === 'string'
+        ? [{ text: message.content }]
+        : message.content.map(chunk => chunk.type === 'text'
+          ? { text: chunk.text }
+          : this.toInlineDataPart(chunk.imageUrl));
+
+      contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+    }
+
+    return {
+      contents,
+      systemInstruction: systemParts.length > 0 ? systemParts.join('\n\n') : undefined
+    };
+  }
+
+  /**
+   * Converts a data URL into an inline data part, non-data URLs are passed as file data
+   */
+  private toInlineDataPart(imageUrl: string): Part {
+    const match = imageUrl.match(/^data:([^;]+);base64,(.*)$/);
+    if (match) {
+      return { inlineData: { mimeType: match[1], data: match[2] } };
+    }
+    return { fileData: { fileUri: imageUrl, mimeType: 'image/jpeg' } };
+  }
+}
+
+export default new GeminiProvider();
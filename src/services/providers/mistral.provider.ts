@@ -0,0 +1,95 @@
+import mistralService from '../mistral.service';
+import { JsonSchema } from '../../utils/jsonSchema';
+import {
+  ChatProvider,
+  ModelLimits,
+  ProviderCompletion,
+  ProviderJsonCompletion,
+  ProviderMessage,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+  ProviderUsage
+} from './chatProvider';
+
+/**
+ * Chat provider backed by the Mistral chat API
+ */
+class MistralProvider implements ChatProvider {
+  readonly name = 'mistral';
+  readonly defaultModel = 'mistral-medium-latest';
+  readonly models = ['mistral-medium-latest', 'mistral-large-latest', 'mistral-small-latest'];
+  readonly modelLimits: Record<string, ModelLimits> = {
+    'mistral-medium-latest': { contextWindow: 128000, charsPerToken: 3.5 },
+    'mistral-large-latest': { contextWindow: 128000, charsPerToken: 3.5 },
+    'mistral-small-latest': { contextWindow: 32000, charsPerToken: 3.5 }
+  };
+
+  async *stream(messages: ProviderMessage[], options: ProviderRequestOptions = {}): AsyncGenerator<ProviderStreamEvent> {
+    const stream = await mistralService.sendMessageStream(
+      messages,
+      options.documents,
+      options.model || this.defaultModel,
+      options.jsonMode,
+      options.signal
+    );
+
+    for await (const chunk of stream) {
+      if (options.signal?.aborted) {
+        return;
+      }
+
+      const usage = this.toUsage(chunk?.data?.usage);
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+
+      const content = chunk?.data?.choices?.[0]?.delta?.content;
+      if (content) {
+        // Delta content may be text or content chunks; only text is forwarded
+        const text = typeof content === 'string'
+          ? content
+          : content.map(part => part.type === 'text' ? part.text : '').join('');
+        if (text) {
+          yield { type: 'delta', content: text };
+        }
+      }
+    }
+  }
+
+  async complete(messages: ProviderMessage[], options: ProviderRequestOptions = {}): Promise<ProviderCompletion> {
+    const model = options.model || this.defaultModel;
+    const { content, usage } = await mistralService.getChatCompletion(messages, options.documents, {
+      model,
+      jsonMode: options.jsonMode,
+      signal: options.signal
+    });
+    return { content, model, usage: this.toUsage(usage) };
+  }
+
+  async completeJson<T>(messages: ProviderMessage[], schema: JsonSchema, options: ProviderRequestOptions = {}): Promise<ProviderJsonCompletion<T>> {
+    const model = options.model || this.defaultModel;
+    const { result, usage, attempts } = await mistralService.getStructuredJsonResponse<T>(
+      messages,
+      schema,
+      options.documents,
+      model,
+      options.language,
+      options.signal
+    );
+    return { result, model, usage: this.toUsage(usage), attempts };
+  }
+
+  toUsage(rawUsage: unknown): ProviderUsage | undefined {
+    if (!rawUsage || typeof rawUsage !== 'object') {
+      return undefined;
+    }
+    const usage = rawUsage as { promptTokens?: number; completionTokens?: number; totalTokens?: number };
+    return {
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      totalTokens: usage.totalTokens ?? 0
+    };
+  }
+}
+
+export default new MistralProvider();
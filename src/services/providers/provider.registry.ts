@@ -0,0 +1,71 @@
+import { ChatProvider } from './chatProvider';
+import mistralProvider from './mistral.provider';
+import geminiProvider from './gemini.provider';
+
+/**
+ * Error thrown when a requested provider or model is not available
+ */
+export class UnknownProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownProviderError';
+  }
+}
+
+/**
+ * Registry of available chat providers. Routes resolve the provider/model requested
+ * by the client here instead of importing a specific service.
+ */
+class ProviderRegistry {
+  private providers = new Map<string, ChatProvider>();
+  private defaultProviderName: string;
+
+  constructor(defaultProviderName: string) {
+    this.defaultProviderName = defaultProviderName;
+  }
+
+  /**
+   * Registers a provider under its name, replacing any provider with the same name
+   */
+  register(provider: ChatProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Lists the registered providers with their models
+   */
+  list(): Array<{ name: string; defaultModel: string; models: string[] }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      models: provider.models
+    }));
+  }
+
+  /**
+   * Resolves a provider and model, falling back to the defaults when not specified
+   * @param providerName Optional provider name
+   * @param model Optional model name, must be offered by the provider
+   * @returns The provider and the model to use
+   * @throws UnknownProviderError if the provider or model is not available
+   */
+  resolve(providerName?: string, model?: string): { provider: ChatProvider; model: string } {
+    const name = providerName || this.defaultProviderName;
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new UnknownProviderError(`Unknown provider '${name}'. Available providers: ${Array.from(this.providers.keys()).join(', ')}`);
+    }
+
+    if (model && !provider.models.includes(model)) {
+      throw new UnknownProviderError(`Model '${model}' is not available for provider '${name}'. Available models: ${provider.models.join(', ')}`);
+    }
+
+    return { provider, model: model || provider.defaultModel };
+  }
+}
+
+const providerRegistry = new ProviderRegistry(mistralProvider.name);
+providerRegistry.register(mistralProvider);
+providerRegistry.register(geminiProvider);
+
+export default providerRegistry;
@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto';
+import config from '../config/env';
+import supabaseService from './supabase.service';
+import usageService, { UsageDetails } from './usage.service';
+import rbacService, { RbacUser } from './rbac.service';
+import { ProviderUsage } from './providers/chatProvider';
+import { QuotaConfig, QuotaLimits, QuotaReservation, QuotaStatus, QuotaWindow, QuotaWindowStatus } from '../dto/quota.dto';
+
+/**
+ * The parts of the authenticated user that determine the budget
+ */
+export interface QuotaUser extends RbacUser {
+  id: string;
+}
+
+/**
+ * Raised when a request would exceed one of the user's token budgets
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly status: QuotaStatus,
+    public readonly window: QuotaWindowStatus,
+    public readonly requestedTokens: number
+  ) {
+    super(`Token quota exceeded for the ${window.window} window`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const DEFAULT_ROLE = 'default';
+
+/**
+ * Start of the current window and of the next one, in UTC
+ */
+const getWindowBounds = (window: QuotaWindow, now: Date): { start: Date, end: Date } => {
+  if (window === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+};
+
+/**
+ * Enforces per-user and per-role token budgets on top of the user_usage table.
+ * Requests reserve an estimated cost before calling a model and settle against the
+ * actual usage afterwards, so concurrent requests cannot overspend the budget.
+ * Reservations are held in memory and therefore only cover requests of this process.
+ */
+class QuotaService {
+  private reservations = new Map<string, QuotaReservation>();
+
+  constructor(private quotaConfig: QuotaConfig | null) {}
+
+  /**
+   * Whether budgets are enforced (QUOTA_LIMITS is set)
+   */
+  get enabled(): boolean {
+    return this.quotaConfig !== null;
+  }
+
+  /**
+   * Role used to look up the budget, resolved the same way as for permissions
+   */
+  getRole(user: QuotaUser): string {
+    return rbacService.getRole(user);
+  }
+
+  /**
+   * Resolves the limits of a user: user override, then role, then the default role
+   */
+  getLimits(user: QuotaUser): QuotaLimits {
+    if (!this.quotaConfig) {
+      return {};
+    }
+    return this.quotaConfig.users?.[user.id]
+      ?? this.quotaConfig.roles[this.getRole(user)]
+      ?? this.quotaConfig.roles[DEFAULT_ROLE]
+      ?? {};
+  }
+
+  /**
+   * Gets the current usage and remaining budget of a user
+   * @param user Authenticated user
+   * @param jwt JWT token for user-specific access
+   * @returns Budget state per window
+   */
+  async getStatus(user: QuotaUser, jwt: string): Promise<QuotaStatus> {
+    const { used, bounds } = await this.readUsage(user, jwt);
+    return this.buildStatus(user, used, bounds);
+  }
+
+  /**
+   * Reserves the estimated cost of a request
+   * @param user Authenticated user
+   * @param usageType Usage type recorded when settling
+   * @param estimatedTokens Estimated prompt and completion tokens
+   * @param jwt JWT token for user-specific access
+   * @returns Reservation and budget state including the reservation
+   * @throws QuotaExceededError if the estimate does not fit into a window
+   */
+  async reserve(
+    user: QuotaUser,
+    usageType: QuotaReservation['usageType'],
+    estimatedTokens: number,
+    jwt: string
+  ): Promise<{ reservation: QuotaReservation, status: QuotaStatus }> {
+    const reservation: QuotaReservation = { id: randomUUID(), userId: user.id, usageType, estimatedTokens, jwt };
+
+    if (!this.enabled) {
+      return { reservation, status: this.buildStatus(user, { daily: 0, monthly: 0 }) };
+    }
+
+    // The open reservations are counted after the usage has been read, and checking and registering
+    // happen without an await in between, so concurrent requests see each other's reservations
+    const { used, bounds } = await this.readUsage(user, jwt);
+    const status = this.buildStatus(user, used, bounds);
+    const exceeded = status.windows.find(window => window.remaining !== null && window.remaining < estimatedTokens);
+    if (exceeded) {
+      console.log(`[QUOTA] User ${user.id} exceeds ${exceeded.window} budget (requested ${estimatedTokens}, remaining ${exceeded.remaining})`);
+      throw new QuotaExceededError(status, exceeded, estimatedTokens);
+    }
+
+    this.reservations.set(reservation.id, reservation);
+    status.windows.forEach(window => {
+      window.reserved += estimatedTokens;
+      window.remaining = window.limit === null ? null : window.remaining! - estimatedTokens;
+    });
+
+    return { reservation, status };
+  }
+
+  /**
+   * Records the actual usage of a request and releases its reservation.
+   * Without a usage report the estimate is recorded as prompt tokens.
+   * @param reservation Reservation returned by reserve
+   * @param usage Actual usage reported by the provider
+   * @param details Provider, model and related session/documents of the call
+   */
+  async settle(reservation: QuotaReservation, usage: ProviderUsage | undefined, details: UsageDetails): Promise<void> {
+    const settledUsage: ProviderUsage = usage ?? {
+      promptTokens: reservation.estimatedTokens,
+      completionTokens: 0,
+      totalTokens: reservation.estimatedTokens
+    };
+    try {
+      await usageService.record(reservation.userId, reservation.usageType, settledUsage, details, reservation.jwt);
+      console.log(`[QUOTA] Settled ${settledUsage.totalTokens} tokens for ${reservation.usageType} (estimated ${reservation.estimatedTokens})`);
+    } finally {
+      this.release(reservation);
+    }
+  }
+
+  /**
+   * Releases a reservation without recording usage, e.g. when the model was never called
+   * @param reservation Reservation returned by reserve
+   */
+  release(reservation: QuotaReservation): void {
+    this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * Reads the recorded usage of the current windows
+   */
+  private async readUsage(
+    user: QuotaUser,
+    jwt: string
+  ): Promise<{ used: Record<QuotaWindow, number>, bounds: Record<QuotaWindow, { start: Date, end: Date }> }> {
+    const now = new Date();
+    const daily = getWindowBounds('daily', now);
+    const monthly = getWindowBounds('monthly', now);
+
+    const usage = await supabaseService.getUserTokenUsage(user.id, daily.start, monthly.start, jwt);
+    if (!usage) {
+      // Usage could not be read: requests are not blocked because of a database problem
+      console.warn(`[QUOTA] Could not read usage of user ${user.id}, treating it as 0`);
+    }
+
+    return { used: { daily: usage?.daily ?? 0, monthly: usage?.monthly ?? 0 }, bounds: { daily, monthly } };
+  }
+
+  /**
+   * Builds the per-window status from the recorded usage and the open reservations
+   */
+  private buildStatus(
+    user: QuotaUser,
+    used: Record<QuotaWindow, number>,
+    bounds: Record<QuotaWindow, { start: Date, end: Date }> = {
+      daily: getWindowBounds('daily', new Date()),
+      monthly: getWindowBounds('monthly', new Date())
+    }
+  ): QuotaStatus {
+    const limits = this.getLimits(user);
+    const reserved = Array.from(this.reservations.values())
+      .filter(reservation => reservation.userId === user.id)
+      .reduce((sum, reservation) => sum + reservation.estimatedTokens, 0);
+
+    const windows = (['daily', 'monthly'] as QuotaWindow[]).map((window): QuotaWindowStatus => {
+      const limit = limits[window] ?? null;
+      return {
+        window,
+        limit,
+        used: used[window],
+        reserved,
+        remaining: limit === null ? null : Math.max(0, limit - used[window] - reserved),
+        resetsAt: bounds[window].end
+      };
+    });
+
+    return { userId: user.id, role: this.getRole(user), windows };
+  }
+}
+
+export default new QuotaService(config.quotaLimits);
@@ -0,0 +1,53 @@
+import config from '../config/env';
+import { NON_DELEGABLE_PERMISSIONS, Permission, PermissionMatrix } from '../dto/rbac.dto';
+
+/**
+ * The parts of the authenticated user that determine the role
+ */
+export interface RbacUser {
+  user_role?: string;
+  app_metadata?: any;
+  scopes?: string[]; // Set for API keys
+}
+
+const DEFAULT_ROLE = 'default';
+
+/**
+ * Resolves roles and permissions from the permission matrix
+ */
+class RbacService {
+  constructor(private matrix: PermissionMatrix) {}
+
+  /**
+   * Role of a user: the user_role claim, then app_metadata.role, then 'default'.
+   * The standard `role` claim ('authenticated') is not an application role.
+   */
+  getRole(user: RbacUser): string {
+    return user.user_role || user.app_metadata?.role || DEFAULT_ROLE;
+  }
+
+  /**
+   * Permissions granted to a role, roles missing from the matrix get the default role's permissions
+   */
+  getPermissions(role: string): Array<Permission | '*'> {
+    return this.matrix.roles[role] ?? this.matrix.roles[DEFAULT_ROLE] ?? [];
+  }
+
+  /**
+   * Checks whether a user holds a permission. API keys additionally need the permission in their scopes.
+   */
+  hasPermission(user: RbacUser, permission: Permission): boolean {
+    const permissions = this.getPermissions(this.getRole(user));
+    if (!permissions.includes('*') && !permissions.includes(permission)) {
+      return false;
+    }
+
+    if (user.scopes) {
+      return !NON_DELEGABLE_PERMISSIONS.includes(permission)
+        && (user.scopes.includes('*') || user.scopes.includes(permission));
+    }
+    return true;
+  }
+}
+
+export default new RbacService(config.permissionMatrix);
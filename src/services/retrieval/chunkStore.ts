@@ -0,0 +1,92 @@
+import config from '../../config/env';
+import supabaseService from '../supabase.service';
+import { DocumentChunk } from '../../dto/retrieval.dto';
+
+/**
+ * Storage backend for embedded document chunks, partitioned by chat session.
+ * The JWT is passed through for stores that need user-scoped database access.
+ */
+export interface ChunkStore {
+  getIndexedDocumentKeys(sessionId: string, embedder: string, jwt: string): Promise<Set<string>>;
+  addChunks(chunks: DocumentChunk[], jwt: string): Promise<void>;
+  getChunks(sessionId: string, embedder: string, jwt: string): Promise<DocumentChunk[]>;
+}
+
+/**
+ * Process-local chunk store, evicting the least recently used session once full.
+ * Evicted sessions and sessions of earlier processes are re-indexed on their next turn.
+ */
+export class InMemoryChunkStore implements ChunkStore {
+  private chunksBySession = new Map<string, DocumentChunk[]>();
+
+  constructor(private maxSessions: number) {}
+
+  async getIndexedDocumentKeys(sessionId: string, embedder: string): Promise<Set<string>> {
+    const chunks = await this.getChunks(sessionId, embedder);
+    return new Set(chunks.map(chunk => chunk.documentKey));
+  }
+
+  async addChunks(chunks: DocumentChunk[]): Promise<void> {
+    chunks.forEach(chunk => {
+      const sessionChunks = this.touch(chunk.sessionId) || [];
+      sessionChunks.push(chunk);
+      this.chunksBySession.set(chunk.sessionId, sessionChunks);
+    });
+
+    while (this.chunksBySession.size > this.maxSessions) {
+      const oldestSessionId = this.chunksBySession.keys().next().value;
+      if (oldestSessionId === undefined) {
+        break;
+      }
+      this.chunksBySession.delete(oldestSessionId);
+    }
+  }
+
+  async getChunks(sessionId: string, embedder: string): Promise<DocumentChunk[]> {
+    return (this.touch(sessionId) || []).filter(chunk => chunk.embedder === embedder);
+  }
+
+  /**
+   * Re-inserts a session's chunks to mark them as most recently used
+   */
+  private touch(sessionId: string): DocumentChunk[] | undefined {
+    const sessionChunks = this.chunksBySession.get(sessionId);
+    if (sessionChunks) {
+      this.chunksBySession.delete(sessionId);
+      this.chunksBySession.set(sessionId, sessionChunks);
+    }
+    return sessionChunks;
+  }
+}
+
+/**
+ * Chunk store persisted in the Supabase document_chunks table
+ */
+export class SupabaseChunkStore implements ChunkStore {
+  async getIndexedDocumentKeys(sessionId: string, embedder: string, jwt: string): Promise<Set<string>> {
+    return new Set(await supabaseService.getIndexedDocumentKeys(sessionId, embedder, jwt));
+  }
+
+  async addChunks(chunks: DocumentChunk[], jwt: string): Promise<void> {
+    const saved = await supabaseService.insertDocumentChunks(chunks, jwt);
+    if (!saved) {
+      throw new Error('Failed to store document chunks');
+    }
+  }
+
+  async getChunks(sessionId: string, embedder: string, jwt: string): Promise<DocumentChunk[]> {
+    return supabaseService.getDocumentChunks(sessionId, embedder, jwt);
+  }
+}
+
+/**
+ * Creates the chunk store selected by the RETRIEVAL_STORE environment variable
+ */
+export const createChunkStore = (): ChunkStore => {
+  if (config.retrievalStore === 'supabase') {
+    console.log('[RETRIEVAL] Using Supabase chunk store');
+    return new SupabaseChunkStore();
+  }
+  console.log('[RETRIEVAL] Using in-memory chunk store');
+  return new InMemoryChunkStore(config.retrievalMemoryMaxSessions);
+};
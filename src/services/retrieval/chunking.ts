@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { OCRResponse } from '../../dto/ocr.dto';
+
+/**
+ * A piece of page markdown before embedding
+ */
+export interface TextChunk {
+  pageIndex: number;
+  chunkIndex: number;
+  content: string;
+}
+
+/**
+ * Computes a stable key for an OCR'd document from its page markdown, so the same
+ * document is only indexed once per session even if it was uploaded under another name.
+ * @param document OCR result
+ * @returns Hex encoded SHA-256
+ */
+export const getDocumentKey = (document: OCRResponse): string => {
+  const hash = createHash('sha256');
+  (document.pages || []).forEach(page => {
+    hash.update(`${page.index}\n`);
+    hash.update(page.markdown || '');
+  });
+  return hash.digest('hex');
+};
+
+/**
+ * Splits the markdown of every page into chunks of at most `maxChars` characters.
+ * Paragraphs are kept together where possible; consecutive chunks of the same page
+ * overlap by up to `overlapChars` characters so passages spanning a boundary stay retrievable.
+ * Chunks never span pages, so each chunk can be attributed to exactly one page.
+ * @param document OCR result
+ * @param maxChars Maximum chunk length
+ * @param overlapChars Overlap between consecutive chunks of a page
+ * @returns Chunks in document order
+ */
+export const chunkDocument = (document: OCRResponse, maxChars: number = 1200, overlapChars: number = 200): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  (document.pages || []).forEach(page => {
+    const markdown = (page.markdown || '').trim();
+    if (!markdown) {
+      return;
+    }
+
+    // Break overly long paragraphs into hard slices first
+    const paragraphs = markdown
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0)
+      .flatMap(paragraph => {
+        if (paragraph.length <= maxChars) {
+          return [paragraph];
+        }
+        const slices: string[] = [];
+        for (let start = 0; start < paragraph.length; start += maxChars - overlapChars) {
+          slices.push(paragraph.slice(start, start + maxChars));
+        }
+        return slices;
+      });
+
+    let current = '';
+    let chunkIndex = 0;
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > maxChars) {
+        chunks.push({ pageIndex: page.index, chunkIndex: chunkIndex++, content: current });
+        // Carry the tail of the previous chunk over as overlap
+        const tail = current.slice(-overlapChars);
+        current = tail.length + paragraph.length + 2 <= maxChars ? `${tail}\n\n${paragraph}` : paragraph;
+      } else {
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+    }
+
+    if (current) {
+      chunks.push({ pageIndex: page.index, chunkIndex: chunkIndex++, content: current });
+    }
+  });
+
+  return chunks;
+};
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
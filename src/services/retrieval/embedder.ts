@@ -0,0 +1,115 @@
+import config from '../../config/env';
+import mistralService from '../mistral.service';
+import { ProviderUsage } from '../providers/chatProvider';
+
+/**
+ * Vectors of an embedding request and the tokens it consumed
+ */
+export interface EmbeddingResult {
+  embeddings: number[][];
+  usage?: ProviderUsage; // Only set by embedders that call a model
+}
+
+/**
+ * Turns texts into vectors for similarity search
+ */
+export interface Embedder {
+  /**
+   * Unique name stored with each vector, vectors of different embedders are never compared
+   */
+  readonly name: string;
+  readonly provider: string;
+  readonly model: string;
+  /**
+   * Whether embedding calls a model, whose tokens count against the user's quota
+   */
+  readonly metered: boolean;
+  embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingResult>;
+}
+
+/**
+ * Embedder backed by the Mistral embeddings API
+ */
+export class MistralEmbedder implements Embedder {
+  readonly name: string;
+  readonly provider = 'mistral';
+  readonly metered = true;
+  private batchSize = 32;
+
+  constructor(readonly model: string = 'mistral-embed') {
+    this.name = `mistral:${model}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingResult> {
+    const embeddings: number[][] = [];
+    const usage: ProviderUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize);
+      const response = await mistralService.createEmbeddings(batch, this.model, signal);
+      embeddings.push(...response.embeddings);
+      usage.promptTokens += response.usage?.promptTokens ?? 0;
+      usage.totalTokens += response.usage?.totalTokens ?? 0;
+    }
+    return { embeddings, usage };
+  }
+}
+
+/**
+ * Deterministic embedder that hashes word tokens into a fixed number of buckets.
+ * It needs no network access, which makes it suitable for tests and local development,
+ * but it only captures lexical overlap.
+ */
+export class LocalHashEmbedder implements Embedder {
+  readonly name: string;
+  readonly provider = 'local';
+  readonly model: string;
+  readonly metered = false;
+
+  constructor(private dimensions: number = 256) {
+    this.name = `local-hash:${dimensions}`;
+    this.model = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { embeddings: texts.map(text => this.embedText(text)) };
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    tokens.forEach(token => {
+      const hash = this.fnv1a(token);
+      // Use one hash bit as sign to reduce the bias of collisions
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Creates the embedder selected by the RETRIEVAL_EMBEDDER environment variable
+ */
+export const createEmbedder = (): Embedder => {
+  if (config.retrievalEmbedder === 'local') {
+    console.log('[RETRIEVAL] Using local hash embedder');
+    return new LocalHashEmbedder();
+  }
+  console.log('[RETRIEVAL] Using Mistral embedder');
+  return new MistralEmbedder();
+};
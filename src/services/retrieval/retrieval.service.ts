@@ -0,0 +1,149 @@
+import config from '../../config/env';
+import { OCRResponse } from '../../dto/ocr.dto';
+import { DocumentChunk, RetrievedChunk } from '../../dto/retrieval.dto';
+import { ChunkStore, createChunkStore } from './chunkStore';
+import { Embedder, EmbeddingResult, createEmbedder } from './embedder';
+import { chunkDocument, cosineSimilarity, getDocumentKey } from './chunking';
+import quotaService, { QuotaUser } from '../quota.service';
+import { estimateTokens } from '../../utils/tokenEstimate';
+
+/**
+ * Indexes OCR'd documents of a chat session and selects the chunks most relevant to a query,
+ * so chat turns only carry the relevant excerpts instead of every page.
+ */
+class RetrievalService {
+  constructor(private embedder: Embedder, private store: ChunkStore, private topK: number) {}
+
+  /**
+   * Chunks and embeds documents that are not yet indexed for the session
+   * @param sessionId Chat session ID
+   * @param user Owner of the session, whose quota the embedding tokens count against
+   * @param documents OCR results of the session
+   * @param jwt JWT token for user-specific access
+   * @param signal Optional signal aborting the embedding requests
+   * @returns Number of newly indexed documents
+   * @throws QuotaExceededError if embedding a document does not fit into the user's budget
+   */
+  async indexDocuments(
+    sessionId: string,
+    user: QuotaUser,
+    documents: OCRResponse[],
+    jwt: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const indexedKeys = await this.store.getIndexedDocumentKeys(sessionId, this.embedder.name, jwt);
+    let indexedCount = 0;
+
+    for (const document of documents) {
+      const documentKey = getDocumentKey(document);
+      if (indexedKeys.has(documentKey)) {
+        continue;
+      }
+
+      const textChunks = chunkDocument(document);
+      if (textChunks.length === 0) {
+        console.warn(`[RETRIEVAL] Document ${document.fileName ?? documentKey} has no text to index`);
+        continue;
+      }
+
+      const embeddings = await this.embed(textChunks.map(chunk => chunk.content), sessionId, user, jwt, signal);
+      const chunks: DocumentChunk[] = textChunks.map((chunk, i) => ({
+        sessionId,
+        userId: user.id,
+        documentKey,
+        documentName: document.fileName ?? 'Unknown Document',
+        pageIndex: chunk.pageIndex,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        embedder: this.embedder.name,
+        embedding: embeddings[i]
+      }));
+
+      await this.store.addChunks(chunks, jwt);
+      indexedKeys.add(documentKey);
+      indexedCount++;
+      console.log(`[RETRIEVAL] Indexed ${chunks.length} chunks of ${document.fileName ?? documentKey} for session ${sessionId}`);
+    }
+
+    return indexedCount;
+  }
+
+  /**
+   * Returns the top-k chunks of the session's documents for a query, indexing documents first if needed
+   * @param sessionId Chat session ID
+   * @param user Owner of the session, whose quota the embedding tokens count against
+   * @param documents OCR results of the session
+   * @param query The user's prompt
+   * @param jwt JWT token for user-specific access
+   * @param signal Optional signal aborting the embedding requests
+   * @param topK Optional number of chunks, defaults to RETRIEVAL_TOP_K
+   * @returns Chunks ordered by relevance
+   * @throws QuotaExceededError if the embeddings do not fit into the user's budget
+   */
+  async retrieve(
+    sessionId: string,
+    user: QuotaUser,
+    documents: OCRResponse[],
+    query: string,
+    jwt: string,
+    signal?: AbortSignal,
+    topK: number = this.topK
+  ): Promise<RetrievedChunk[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    await this.indexDocuments(sessionId, user, documents, jwt, signal);
+
+    // Only consider documents that are still part of the session
+    const documentKeys = new Set(documents.map(getDocumentKey));
+    const chunks = (await this.store.getChunks(sessionId, this.embedder.name, jwt))
+      .filter(chunk => documentKeys.has(chunk.documentKey));
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await this.embed([query], sessionId, user, jwt, signal);
+
+    return chunks
+      .map(chunk => ({
+        documentKey: chunk.documentKey,
+        documentName: chunk.documentName,
+        pageIndex: chunk.pageIndex,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding)
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Embeds texts. For embedders that call a model the estimated tokens are reserved against the
+   * user's quota first and settled with the reported usage afterwards.
+   */
+  private async embed(texts: string[], sessionId: string, user: QuotaUser, jwt: string, signal?: AbortSignal): Promise<number[][]> {
+    if (!this.embedder.metered) {
+      return (await this.embedder.embed(texts, signal)).embeddings;
+    }
+
+    const estimatedTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+    const { reservation } = await quotaService.reserve(user, 'embedding', estimatedTokens, jwt);
+    let result: EmbeddingResult;
+    try {
+      result = await this.embedder.embed(texts, signal);
+    } catch (error) {
+      quotaService.release(reservation);
+      throw error;
+    }
+
+    await quotaService.settle(reservation, result.usage, {
+      provider: this.embedder.provider,
+      model: this.embedder.model,
+      sessionId
+    });
+    return result.embeddings;
+  }
+}
+
+export default new RetrievalService(createEmbedder(), createChunkStore(), config.retrievalTopK);
@@ -2,11 +2,47 @@ import { createClient } from '@supabase/supabase-js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { randomUUID } from 'crypto';
 import config from '../config/env';
-import { CreateDocumentDto, CreateDocumentAnnotationsDto, Document, DocumentAnnotations, Annotation } from '../dto/document.dto';
-import { ChatHistoryDto, Content, ChatSessionDto, MistralMessage } from '../dto/chat.dto';
-import { OCRResponse } from '../dto/ocr.dto';
+import { CreateDocumentDto, CreateDocumentAnnotationsDto, Document, DocumentAnnotations, Annotation, DocumentWithOcr, DocumentWithOcrSummary, UpdateDocumentDto } from '../dto/document.dto';
+import { ChatContextSummary, ChatHistoryDto, Content, ChatSessionDto, ChatSessionSummaryDto, MistralMessage } from '../dto/chat.dto';
+import { OCRResponse, OcrJobDto, OcrJobStatus } from '../dto/ocr.dto';
 import { DocumentAnalysisResult } from '../dto/analyze.dto';
+import { DocumentChunk } from '../dto/retrieval.dto';
+import { UsageRecordDto, UsageReportRow } from '../dto/usage.dto';
+import { AuditEventDto } from '../dto/rbac.dto';
+import { ApiKeyDto, CreateApiKeyDto } from '../dto/apiKey.dto';
+import { DocumentComparison } from '../dto/comparison.dto';
+import { AnalysisProfile, AnalysisProfileInputDto } from '../dto/analysisProfile.dto';
+import { summarizeActiveBranch } from '../utils/messageTree';
+
+/**
+ * Document columns without the (potentially large) OCR result
+ */
+const API_KEY_COLUMNS = 'id, user_id, name, prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+const DOCUMENT_COLUMNS = 'id, user_id, file_path, file_name, content_hash, mime_type, page_count, ocr_status, language, created_at, updated_at';
+
+/**
+ * Attempts of a chat session update before a conflict is reported
+ */
+const CHAT_SESSION_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Upper bound of the random delay before a conflicting chat session update is retried,
+ * so concurrent writers do not collide again right away
+ */
+const CHAT_SESSION_RETRY_MAX_DELAY_MS = 50;
+
+/**
+ * Error thrown when a chat session kept being changed by other requests while an update was retried
+ */
+export class ChatSessionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatSessionConflictError';
+  }
+}
 
 class SupabaseService {
   private supabase;
@@ -46,9 +82,9 @@ class SupabaseService {
    */
   async downloadFile(filePath: string, jwt: string, bucketName: string = 'document-storage'): Promise<string> {
     try {
-      // Create a temporary file path
+      // Create a unique temporary file path, concurrent downloads may share a file name
       const tempDir = os.tmpdir();
-      const tempFilePath = path.join(tempDir, path.basename(filePath));
+      const tempFilePath = path.join(tempDir, `${randomUUID()}-${path.basename(filePath)}`);
 
       // Create an authenticated client with the JWT
       const authClient = this.createAuthClient(jwt);
@@ -124,7 +160,7 @@ class SupabaseService {
    * @param filePath Path to the file
    * @returns MIME type string
    */
-  private getMimeType(filePath: string): string {
+  getMimeType(filePath: string): string {
     const extension = path.extname(filePath).toLowerCase();
 
     switch (extension) {
@@ -164,9 +200,11 @@ class SupabaseService {
         .insert({
           user_id: documentData.userId,
           file_path: documentData.filePath,
-          file_name: documentData.fileName
+          file_name: documentData.fileName,
+          mime_type: documentData.mimeType ?? null,
+          content_hash: documentData.contentHash ?? null
         })
-        .select()
+        .select(DOCUMENT_COLUMNS)
         .single();
 
       if (error) {
@@ -174,14 +212,7 @@ class SupabaseService {
         return null;
       }
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        filePath: data.file_path,
-        fileName: data.file_name,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return this.mapDocument(data);
     } catch (error) {
       console.error('Error creating document:', error);
       return null;
@@ -202,7 +233,9 @@ class SupabaseService {
         .from('document_annotations')
         .insert({
           document_id: annotationsData.documentId,
-          annotations: annotationsData.annotations
+          annotations: annotationsData.annotations,
+          profile_id: annotationsData.profileId ?? null,
+          prompt_version: annotationsData.promptVersion ?? null
         })
         .select()
         .single();
@@ -236,7 +269,7 @@ class SupabaseService {
 
       const { data, error } = await authClient
         .from('documents')
-        .select('*')
+        .select(DOCUMENT_COLUMNS)
         .eq('user_id', userId);
 
       if (error) {
@@ -244,14 +277,7 @@ class SupabaseService {
         return [];
       }
 
-      return data.map(doc => ({
-        id: doc.id,
-        userId: doc.user_id,
-        filePath: doc.file_path,
-        fileName: doc.file_name,
-        createdAt: new Date(doc.created_at),
-        updatedAt: new Date(doc.updated_at)
-      }));
+      return data.map(doc => this.mapDocument(doc));
     } catch (error) {
       console.error('Error getting documents:', error);
       return [];
@@ -304,7 +330,7 @@ class SupabaseService {
 
       const { data, error } = await authClient
         .from('documents')
-        .select('*')
+        .select(DOCUMENT_COLUMNS)
         .eq('file_path', filePath)
         .eq('user_id', userId);
 
@@ -313,374 +339,748 @@ class SupabaseService {
         return [];
       }
 
-      return data.map(doc => ({
-        id: doc.id,
-        userId: doc.user_id,
-        filePath: doc.file_path,
-        fileName: doc.file_name,
-        createdAt: new Date(doc.created_at),
-        updatedAt: new Date(doc.updated_at)
-      }));
+      return data.map(doc => this.mapDocument(doc));
     } catch (error) {
       console.error('Error getting documents by path:', error);
       return [];
     }
   }
 
-  // --- Chat Session Methods ---
+  /**
+   * Maps a documents row to the document DTO
+   */
+  private mapDocument(data: any): Document {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      filePath: data.file_path,
+      fileName: data.file_name,
+      contentHash: data.content_hash ?? null,
+      mimeType: data.mime_type ?? null,
+      pageCount: data.page_count ?? null,
+      ocrStatus: data.ocr_status ?? 'pending',
+      language: data.language ?? null,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at)
+    };
+  }
 
   /**
-   * Gets a chat session by ID
-   * @param sessionId ID of the chat session
+   * Maps a documents row including the OCR result
+   */
+  private mapDocumentWithOcr(data: any): DocumentWithOcr {
+    return {
+      ...this.mapDocument(data),
+      ocrResult: data.ocr_result ?? null,
+      ocrIncludesImages: data.ocr_includes_images ?? false
+    };
+  }
+
+  /**
+   * Gets a document by ID
+   * @param documentId Document ID
    * @param jwt JWT token for user-specific access
-   * @returns Chat session or null
+   * @returns Document including its OCR result, or null
    */
-  async getChatSessionById(sessionId: string, jwt: string): Promise<ChatSessionDto | null> {
+  async getDocumentById(documentId: string, jwt: string): Promise<DocumentWithOcr | null> {
     try {
       const authClient = this.createAuthClient(jwt);
 
       const { data, error } = await authClient
-        .from('chat_sessions')
+        .from('documents')
         .select('*')
-        .eq('id', sessionId)
-        .single();
+        .eq('id', documentId)
+        .maybeSingle();
 
       if (error) {
-        // If error is 'PGRST116', it means no rows found, which is expected if the session doesn't exist.
-        if (error.code !== 'PGRST116') {
-          console.error('Error getting chat session:', error);
-        }
+        console.error('Error getting document:', error);
         return null;
       }
 
-      // Ensure messages and documents are arrays, even if null in DB
-      const messages = Array.isArray(data.messages) ? data.messages : [];
-      const documents = Array.isArray(data.documents) ? data.documents : [];
-
-
-      return {
-        id: data.id,
-        userId: data.user_id,
-        messages: messages,
-        documents: documents,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return data ? this.mapDocumentWithOcr(data) : null;
     } catch (error) {
-      console.error('Error getting chat session:', error);
+      console.error('Error getting document:', error);
       return null;
     }
   }
 
   /**
-   * Creates a new chat session record in the database
-   * @param userId User ID
+   * Gets a page of documents for a user, most recently updated first (without OCR results)
    * @param userId User ID
-   * @param initialMessages Initial messages array
-   * @param initialDocuments Initial documents array
-   * @param jwt JWT token for user-specific access (used to create authenticated client)
-   * @returns Created chat session or null
+   * @param limit Maximum number of documents to return
+   * @param offset Number of documents to skip
+   * @param jwt JWT token for user-specific access
+   * @returns Documents and the total number of documents for the user
    */
-  async createChatSession(userId: string, initialMessages: MistralMessage[], initialDocuments: OCRResponse[], jwt: string): Promise<ChatSessionDto | null> {
+  async getDocumentsPageByUserId(
+    userId: string,
+    limit: number,
+    offset: number,
+    jwt: string
+  ): Promise<{ documents: Document[], total: number }> {
     try {
       const authClient = this.createAuthClient(jwt);
 
-      const { data, error } = await authClient
-        .from('chat_sessions')
-        .insert({
-          user_id: userId, // Use the passed userId parameter
-          messages: initialMessages,
-          documents: initialDocuments
-        })
-        .select()
-        .single();
+      const { data, error, count } = await authClient
+        .from('documents')
+        .select(DOCUMENT_COLUMNS, { count: 'exact' })
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .range(offset, offset + limit - 1);
 
       if (error) {
-        console.error('Error creating chat session:', error);
-        return null;
+        console.error('Error getting documents page:', error);
+        return { documents: [], total: 0 };
       }
 
-      // Ensure messages and documents are arrays after creation
-      const messages = Array.isArray(data.messages) ? data.messages : [];
-      const documents = Array.isArray(data.documents) ? data.documents : [];
-
-      return {
-        id: data.id,
-        userId: data.user_id,
-        messages: messages,
-        documents: documents,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      const documents = (data || []).map(doc => this.mapDocument(doc));
+      return { documents, total: count ?? documents.length };
     } catch (error) {
-      console.error('Error creating chat session:', error);
-      return null;
+      console.error('Error getting documents page:', error);
+      return { documents: [], total: 0 };
     }
   }
 
-   /**
-   * Updates an existing chat session record in the database (appends messages/documents)
-   * @param sessionId Chat session ID
-   * @param newMessages Messages to append
-   * @param newDocuments Documents to append
+  /**
+   * Updates metadata and OCR state of a document
+   * @param documentId Document ID
+   * @param update Fields to update
    * @param jwt JWT token for user-specific access
-   * @returns Updated chat session or null
+   * @returns Updated document or null
    */
-   async updateChatSession(sessionId: string, newMessages: MistralMessage[], newDocuments: OCRResponse[], jwt: string): Promise<ChatSessionDto | null> {
+  async updateDocument(documentId: string, update: UpdateDocumentDto, jwt: string): Promise<Document | null> {
     try {
       const authClient = this.createAuthClient(jwt);
 
-      // Fetch the current session to append data
-      const currentSession = await this.getChatSessionById(sessionId, jwt);
-      if (!currentSession) {
-        console.error(`Chat session with ID ${sessionId} not found for update.`);
-        return null;
-      }
-
-      // Ensure current messages/documents are arrays before spreading
-      const currentMessages = Array.isArray(currentSession.messages) ? currentSession.messages : [];
-      const currentDocuments = Array.isArray(currentSession.documents) ? currentSession.documents : [];
-
-      const updatedMessages = [...currentMessages, ...newMessages];
-      const updatedDocuments = [...currentDocuments, ...newDocuments];
-
       const { data, error } = await authClient
-        .from('chat_sessions')
+        .from('documents')
         .update({
-          messages: updatedMessages,
-          documents: updatedDocuments
-          // updated_at is handled by the trigger
+          ...(update.contentHash !== undefined ? { content_hash: update.contentHash } : {}),
+          ...(update.mimeType !== undefined ? { mime_type: update.mimeType } : {}),
+          ...(update.pageCount !== undefined ? { page_count: update.pageCount } : {}),
+          ...(update.ocrStatus !== undefined ? { ocr_status: update.ocrStatus } : {}),
+          ...(update.ocrResult !== undefined ? { ocr_result: update.ocrResult } : {}),
+          ...(update.ocrIncludesImages !== undefined ? { ocr_includes_images: update.ocrIncludesImages } : {}),
+          ...(update.language !== undefined ? { language: update.language } : {}),
+          updated_at: new Date().toISOString()
         })
-        .eq('id', sessionId)
-        .select()
+        .eq('id', documentId)
+        .select(DOCUMENT_COLUMNS)
         .single();
 
       if (error) {
-        console.error('Error updating chat session:', error);
+        console.error('Error updating document:', error);
         return null;
       }
 
-      // Ensure messages and documents are arrays after update
-      const messages = Array.isArray(data.messages) ? data.messages : [];
-      const documents = Array.isArray(data.documents) ? data.documents : [];
-
-      return {
-        id: data.id,
-        userId: data.user_id,
-        messages: messages,
-        documents: documents,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return this.mapDocument(data);
     } catch (error) {
-      console.error('Error updating chat session:', error);
+      console.error('Error updating document:', error);
       return null;
     }
   }
 
   /**
-   * Updates only the documents of an existing chat session record in the database
+   * Links documents to a chat session. Existing links are kept.
    * @param sessionId Chat session ID
-   * @param documents Documents to set
+   * @param documentIds Document IDs to link
    * @param jwt JWT token for user-specific access
-   * @returns Updated chat session or null
+   * @returns Success status
    */
-  async updateChatSessionDocuments(sessionId: string, documents: OCRResponse[], jwt: string): Promise<ChatSessionDto | null> {
+  async linkDocumentsToChatSession(sessionId: string, documentIds: string[], jwt: string): Promise<boolean> {
     try {
-      const authClient = this.createAuthClient(jwt);
-
-      // Fetch the current session
-      const currentSession = await this.getChatSessionById(sessionId, jwt);
-      if (!currentSession) {
-        console.error(`Chat session with ID ${sessionId} not found for document update.`);
-        return null;
+      if (documentIds.length === 0) {
+        return true;
       }
 
-      const { data, error } = await authClient
-        .from('chat_sessions')
-        .update({
-          documents: documents
-          // updated_at is handled by the trigger
-        })
-        .eq('id', sessionId)
-        .select()
-        .single();
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('chat_session_documents')
+        .upsert(
+          documentIds.map(documentId => ({ session_id: sessionId, document_id: documentId })),
+          { onConflict: 'session_id,document_id', ignoreDuplicates: true }
+        );
 
       if (error) {
-        console.error('Error updating chat session documents:', error);
-        return null;
+        console.error('Error linking documents to chat session:', error);
+        return false;
       }
 
-      // Ensure messages and documents are arrays after update
-      const messages = Array.isArray(data.messages) ? data.messages : [];
-      const updatedDocuments = Array.isArray(data.documents) ? data.documents : [];
-
-      return {
-        id: data.id,
-        userId: data.user_id,
-        messages: messages,
-        documents: updatedDocuments,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return true;
     } catch (error) {
-      console.error('Error updating chat session documents:', error);
-      return null;
+      console.error('Error linking documents to chat session:', error);
+      return false;
     }
   }
 
   /**
-   * Gets document records associated with a chat session
-   * @param chatId Chat session ID
+   * Gets the documents linked to a chat session in the order they were added
+   * @param sessionId Chat session ID
+   * @param jwt JWT token for user-specific access
+   * @returns Linked documents including their OCR results
+   */
+  async getChatSessionDocuments(sessionId: string, jwt: string): Promise<DocumentWithOcr[]> {
+    const documents = await this.selectChatSessionDocuments(sessionId, '*', jwt);
+    return documents.map(document => this.mapDocumentWithOcr(document));
+  }
+
+  /**
+   * Gets the documents linked to a chat session in the order they were added, reading only the
+   * model and usage of their OCR results instead of the pages
+   * @param sessionId Chat session ID
    * @param jwt JWT token for user-specific access
-   * @returns Array of document records
+   * @returns Linked documents with OCR summaries
+   */
+  async getChatSessionDocumentSummaries(sessionId: string, jwt: string): Promise<DocumentWithOcrSummary[]> {
+    const documents = await this.selectChatSessionDocuments(
+      sessionId,
+      `${DOCUMENT_COLUMNS}, ocr_model:ocr_result->>model, ocr_usage_info:ocr_result->usageInfo`,
+      jwt
+    );
+    return documents.map(document => ({
+      ...this.mapDocument(document),
+      ocrModel: document.ocr_model ?? null,
+      ocrPagesProcessed: document.ocr_usage_info?.pagesProcessed ?? 0,
+      ocrDocSizeBytes: document.ocr_usage_info?.docSizeBytes ?? null
+    }));
+  }
+
+  /**
+   * Selects the given columns of the documents linked to a chat session, in the order they were added
    */
-  async getChatDocumentsBySessionId(chatId: string, jwt: string): Promise<any[]> {
+  private async selectChatSessionDocuments(sessionId: string, columns: string, jwt: string): Promise<any[]> {
     try {
       const authClient = this.createAuthClient(jwt);
 
       const { data, error } = await authClient
-        .from('chat_documents')
-        .select('*')
-        .eq('chat_id', chatId);
+        .from('chat_session_documents')
+        .select(`created_at, document:documents(${columns})`)
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
 
       if (error) {
-        console.error('Error getting chat documents:', error);
+        console.error('Error getting chat session documents:', error);
         return [];
       }
 
-      return data || [];
+      return (data || [])
+        .map((item: any) => item.document)
+        .filter((document: any) => !!document);
     } catch (error) {
-      console.error('Error getting chat documents:', error);
+      console.error('Error getting chat session documents:', error);
       return [];
     }
   }
 
-  // --- Old Chat History Methods (Consider removing or refactoring if chat_sessions replaces this) ---
-
   /**
-   * Gets a chat history by ID
-   * @param chatId ID of the chat history
+   * Gets the IDs of chat sessions a document is linked to
+   * @param documentId Document ID
    * @param jwt JWT token for user-specific access
-   * @returns Chat history or null
+   * @returns Chat session IDs
    */
-  async getChatHistoryById(chatId: string, jwt: string): Promise<ChatHistoryDto | null> {
+  async getDocumentChatSessionIds(documentId: string, jwt: string): Promise<string[]> {
     try {
       const authClient = this.createAuthClient(jwt);
 
       const { data, error } = await authClient
-        .from('chat_history')
-        .select('*')
-        .eq('id', chatId)
-        .single();
+        .from('chat_session_documents')
+        .select('session_id')
+        .eq('document_id', documentId);
 
       if (error) {
-        console.error('Error getting chat history:', error);
-        return null;
+        console.error('Error getting document chat sessions:', error);
+        return [];
       }
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        history: data.history,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return (data || []).map((item: any) => item.session_id);
     } catch (error) {
-      console.error('Error getting chat history:', error);
-      return null;
+      console.error('Error getting document chat sessions:', error);
+      return [];
     }
   }
 
+  // --- Chat Session Methods ---
+
   /**
-   * Creates a new chat history record in the database
-   * @param chatId Chat ID
-   * @param userId User ID
-   * @param history Initial chat history content
+   * Maps a chat_sessions row to the session DTO, with messages and documents as arrays even if null in DB
+   */
+  private mapChatSession(data: any): ChatSessionDto {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      title: data.title ?? null,
+      messages: Array.isArray(data.messages) ? data.messages : [],
+      documents: Array.isArray(data.documents) ? data.documents : [],
+      activeMessageId: data.active_message_id ?? null,
+      contextSummary: data.context_summary ?? null,
+      version: data.version ?? 0,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at)
+    };
+  }
+
+  /**
+   * Computes the chat list columns of a session from its messages and active message
+   */
+  private chatListColumns(messages: MistralMessage[], activeMessageId: string | null): Record<string, unknown> {
+    const { messageCount, lastMessagePreview } = summarizeActiveBranch(messages, activeMessageId);
+    return { message_count: messageCount, last_message_preview: lastMessagePreview };
+  }
+
+  /**
+   * Gets a chat session by ID
+   * @param sessionId ID of the chat session
    * @param jwt JWT token for user-specific access
-   * @returns Created chat history or null
+   * @returns Chat session or null
    */
-  async createChatHistory(chatId: string, userId: string, history: Content[], jwt: string): Promise<ChatHistoryDto | null> {
+  async getChatSessionById(sessionId: string, jwt: string): Promise<ChatSessionDto | null> {
     try {
       const authClient = this.createAuthClient(jwt);
 
       const { data, error } = await authClient
-        .from('chat_history')
-        .insert({
-          id: chatId,
-          user_id: userId,
-          history: history
-        })
-        .select()
+        .from('chat_sessions')
+        .select('*')
+        .eq('id', sessionId)
         .single();
 
       if (error) {
-        console.error('Error creating chat history:', error);
+        // If error is 'PGRST116', it means no rows found, which is expected if the session doesn't exist.
+        if (error.code !== 'PGRST116') {
+          console.error('Error getting chat session:', error);
+        }
         return null;
       }
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        history: data.history,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return this.mapChatSession(data);
     } catch (error) {
-      console.error('Error creating chat history:', error);
+      console.error('Error getting chat session:', error);
       return null;
     }
   }
 
   /**
-   * Updates an existing chat history record in the database
-   * @param chatId Chat history ID
-   * @param history Updated chat history content
-   * @param jwt JWT token for user-specific access
-   * @returns Updated chat history or null
+   * Creates a new chat session record in the database
+   * @param userId User ID
+   * @param userId User ID
+   * @param initialMessages Initial messages array
+   * @param initialDocuments Initial documents array
+   * @param jwt JWT token for user-specific access (used to create authenticated client)
+   * @returns Created chat session or null
    */
-  async updateChatHistory(chatId: string, history: Content[], jwt: string): Promise<ChatHistoryDto | null> {
+  async createChatSession(userId: string, initialMessages: MistralMessage[], initialDocuments: OCRResponse[], jwt: string): Promise<ChatSessionDto | null> {
     try {
       const authClient = this.createAuthClient(jwt);
 
       const { data, error } = await authClient
-        .from('chat_history')
-        .update({
-          history: history
+        .from('chat_sessions')
+        .insert({
+          user_id: userId, // Use the passed userId parameter
+          messages: initialMessages,
+          documents: initialDocuments,
+          ...this.chatListColumns(initialMessages, null)
         })
-        .eq('id', chatId)
         .select()
         .single();
 
       if (error) {
-        console.error('Error updating chat history:', error);
+        console.error('Error creating chat session:', error);
         return null;
       }
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        history: data.history,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      return this.mapChatSession(data);
     } catch (error) {
-      console.error('Error updating chat history:', error);
+      console.error('Error creating chat session:', error);
       return null;
     }
   }
 
   /**
-   * Gets all chat histories for a user
-   * @param userId User ID
+   * Updates an existing chat session record in the database (appends messages/documents)
+   * @param sessionId Chat session ID
+   * @param newMessages Messages to append
+   * @param newDocuments Documents to append
    * @param jwt JWT token for user-specific access
-   * @returns Array of chat histories
+   * @param activeMessageId Optional new last message of the active branch
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
    */
-  async getChatHistoriesByUserId(userId: string, jwt: string): Promise<ChatHistoryDto[]> {
-    try {
-      const authClient = this.createAuthClient(jwt);
+  async updateChatSession(
+    sessionId: string,
+    newMessages: MistralMessage[],
+    newDocuments: OCRResponse[],
+    jwt: string,
+    activeMessageId?: string
+  ): Promise<ChatSessionDto | null> {
+    return this.writeChatSession(sessionId, jwt, current => {
+      // Messages stored by an attempt whose response was lost are not appended twice
+      const storedIds = new Set(current.messages.map(message => message.id).filter(id => id !== undefined));
+      return {
+        messages: [...current.messages, ...newMessages.filter(message => !message.id || !storedIds.has(message.id))],
+        ...(newDocuments.length > 0 ? { documents: [...current.documents, ...newDocuments] } : {}),
+        ...(activeMessageId !== undefined ? { active_message_id: activeMessageId } : {})
+      };
+    });
+  }
 
-      const { data, error } = await authClient
+  /**
+   * Replaces a stored message of a chat session, e.g. an incomplete answer that was resumed
+   * @param sessionId Chat session ID
+   * @param message Message with the id of the message to replace
+   * @param jwt JWT token for user-specific access
+   * @param activeMessageId Optional new last message of the active branch
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  async replaceChatMessage(
+    sessionId: string,
+    message: MistralMessage,
+    jwt: string,
+    activeMessageId?: string
+  ): Promise<ChatSessionDto | null> {
+    return this.writeChatSession(sessionId, jwt, current => ({
+      messages: current.messages.map(stored => stored.id !== undefined && stored.id === message.id ? message : stored),
+      ...(activeMessageId !== undefined ? { active_message_id: activeMessageId } : {})
+    }));
+  }
+
+  /**
+   * Writes columns of a chat session computed from the stored session. The write only succeeds if the
+   * session is still at the version that was read, so concurrent requests cannot overwrite each other's
+   * changes; on a conflict the session is read again and the columns computed anew.
+   * @param sessionId Chat session ID
+   * @param jwt JWT token for user-specific access
+   * @param buildUpdate Computes the columns to write from the stored session
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  private async writeChatSession(
+    sessionId: string,
+    jwt: string,
+    buildUpdate: (current: ChatSessionDto) => Record<string, unknown>
+  ): Promise<ChatSessionDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      for (let attempt = 1; attempt <= CHAT_SESSION_UPDATE_ATTEMPTS; attempt++) {
+        // Fetch the current session to compute the update from
+        const currentSession = await this.getChatSessionById(sessionId, jwt);
+        if (!currentSession) {
+          console.error(`Chat session with ID ${sessionId} not found for update.`);
+          return null;
+        }
+
+        // Keep the chat list columns in step with the messages and the active message
+        const update = buildUpdate(currentSession);
+        if ('messages' in update || 'active_message_id' in update) {
+          Object.assign(update, this.chatListColumns(
+            'messages' in update ? update.messages as MistralMessage[] : currentSession.messages,
+            'active_message_id' in update ? update.active_message_id as string | null : currentSession.activeMessageId ?? null
+          ));
+        }
+
+        const { data, error } = await authClient
+          .from('chat_sessions')
+          .update(update) // updated_at and version are handled by triggers
+          .eq('id', sessionId)
+          .eq('version', currentSession.version)
+          .select()
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error updating chat session:', error);
+          return null;
+        }
+
+        if (!data) {
+          console.warn(`Chat session ${sessionId} changed since version ${currentSession.version}, retrying update (attempt ${attempt} of ${CHAT_SESSION_UPDATE_ATTEMPTS})`);
+          if (attempt < CHAT_SESSION_UPDATE_ATTEMPTS) {
+            await new Promise(resolve => setTimeout(resolve, Math.random() * CHAT_SESSION_RETRY_MAX_DELAY_MS));
+          }
+          continue;
+        }
+
+        return this.mapChatSession(data);
+      }
+
+      throw new ChatSessionConflictError(`Chat session ${sessionId} was changed by other requests during ${CHAT_SESSION_UPDATE_ATTEMPTS} update attempts`);
+    } catch (error) {
+      if (error instanceof ChatSessionConflictError) {
+        throw error;
+      }
+      console.error('Error updating chat session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Sets the last message of the active branch of a chat session
+   * @param sessionId Chat session ID
+   * @param activeMessageId Message ID
+   * @param jwt JWT token for user-specific access
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  async updateChatSessionActiveMessage(sessionId: string, activeMessageId: string, jwt: string): Promise<ChatSessionDto | null> {
+    return this.writeChatSession(sessionId, jwt, () => ({ active_message_id: activeMessageId }));
+  }
+
+  /**
+   * Stores the rolling summary of older messages of a chat session
+   * @param sessionId Chat session ID
+   * @param summary Summary replacing the previous one
+   * @param jwt JWT token for user-specific access
+   * @returns True if the summary was stored
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  async updateChatSessionSummary(sessionId: string, summary: ChatContextSummary, jwt: string): Promise<boolean> {
+    return (await this.writeChatSession(sessionId, jwt, () => ({ context_summary: summary }))) !== null;
+  }
+
+  /**
+   * Updates only the documents of an existing chat session record in the database
+   * @param sessionId Chat session ID
+   * @param documents Documents to set
+   * @param jwt JWT token for user-specific access
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  async updateChatSessionDocuments(sessionId: string, documents: OCRResponse[], jwt: string): Promise<ChatSessionDto | null> {
+    return this.writeChatSession(sessionId, jwt, () => ({ documents }));
+  }
+
+  /**
+   * Gets summaries of the user's chat sessions for the chat list, most recently updated first.
+   * Messages are only loaded for sessions not written since add_chat_session_list_columns.sql.
+   * @param userId User ID
+   * @param limit Maximum number of sessions
+   * @param offset Number of sessions to skip
+   * @param jwt JWT token for user-specific access
+   * @returns Session summaries and the total number of sessions
+   */
+  async getChatSessionsByUserId(
+    userId: string,
+    limit: number,
+    offset: number,
+    jwt: string
+  ): Promise<{ sessions: ChatSessionSummaryDto[], total: number }> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error, count } = await authClient
+        .from('chat_sessions')
+        .select('id, title, message_count, last_message_preview, created_at, updated_at', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error getting chat sessions:', error);
+        return { sessions: [], total: 0 };
+      }
+
+      // Sessions written before the list columns existed are summarized from their messages
+      const unsummarizedIds = (data || []).filter((item: any) => item.message_count === null).map((item: any) => item.id);
+      const computed = new Map<string, { messageCount: number, lastMessagePreview: string | null }>();
+      if (unsummarizedIds.length > 0) {
+        const { data: messageData, error: messageError } = await authClient
+          .from('chat_sessions')
+          .select('id, messages, active_message_id')
+          .in('id', unsummarizedIds);
+
+        if (messageError) {
+          console.error('Error getting chat session messages:', messageError);
+          return { sessions: [], total: 0 };
+        }
+
+        (messageData || []).forEach((item: any) => {
+          computed.set(item.id, summarizeActiveBranch(Array.isArray(item.messages) ? item.messages : [], item.active_message_id));
+        });
+      }
+
+      const sessions = (data || []).map((item: any) => {
+        const summary = computed.get(item.id);
+        return {
+          id: item.id,
+          title: item.title ?? null,
+          lastMessagePreview: summary ? summary.lastMessagePreview : item.last_message_preview ?? null,
+          messageCount: summary ? summary.messageCount : item.message_count ?? 0,
+          createdAt: new Date(item.created_at),
+          updatedAt: new Date(item.updated_at)
+        };
+      });
+
+      return { sessions, total: count ?? sessions.length };
+    } catch (error) {
+      console.error('Error getting chat sessions:', error);
+      return { sessions: [], total: 0 };
+    }
+  }
+
+  /**
+   * Updates the title of a chat session
+   * @param sessionId Chat session ID
+   * @param title New title
+   * @param jwt JWT token for user-specific access
+   * @returns Updated chat session or null
+   * @throws ChatSessionConflictError if the session kept changing for all attempts
+   */
+  async updateChatSessionTitle(sessionId: string, title: string, jwt: string): Promise<ChatSessionDto | null> {
+    return this.writeChatSession(sessionId, jwt, () => ({ title }));
+  }
+
+  /**
+   * Deletes a chat session. Analyses referencing the session are removed by the foreign key cascade.
+   * @param sessionId Chat session ID
+   * @param jwt JWT token for user-specific access
+   * @returns Success status
+   */
+  async deleteChatSession(sessionId: string, jwt: string): Promise<boolean> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('chat_sessions')
+        .delete()
+        .eq('id', sessionId);
+
+      if (error) {
+        console.error('Error deleting chat session:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting chat session:', error);
+      return false;
+    }
+  }
+
+  // --- Old Chat History Methods (Consider removing or refactoring if chat_sessions replaces this) ---
+
+  /**
+   * Gets a chat history by ID
+   * @param chatId ID of the chat history
+   * @param jwt JWT token for user-specific access
+   * @returns Chat history or null
+   */
+  async getChatHistoryById(chatId: string, jwt: string): Promise<ChatHistoryDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('chat_history')
+        .select('*')
+        .eq('id', chatId)
+        .single();
+
+      if (error) {
+        console.error('Error getting chat history:', error);
+        return null;
+      }
+
+      return {
+        id: data.id,
+        userId: data.user_id,
+        history: data.history,
+        createdAt: new Date(data.created_at),
+        updatedAt: new Date(data.updated_at)
+      };
+    } catch (error) {
+      console.error('Error getting chat history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates a new chat history record in the database
+   * @param chatId Chat ID
+   * @param userId User ID
+   * @param history Initial chat history content
+   * @param jwt JWT token for user-specific access
+   * @returns Created chat history or null
+   */
+  async createChatHistory(chatId: string, userId: string, history: Content[], jwt: string): Promise<ChatHistoryDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('chat_history')
+        .insert({
+          id: chatId,
+          user_id: userId,
+          history: history
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating chat history:', error);
+        return null;
+      }
+
+      return {
+        id: data.id,
+        userId: data.user_id,
+        history: data.history,
+        createdAt: new Date(data.created_at),
+        updatedAt: new Date(data.updated_at)
+      };
+    } catch (error) {
+      console.error('Error creating chat history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Updates an existing chat history record in the database
+   * @param chatId Chat history ID
+   * @param history Updated chat history content
+   * @param jwt JWT token for user-specific access
+   * @returns Updated chat history or null
+   */
+  async updateChatHistory(chatId: string, history: Content[], jwt: string): Promise<ChatHistoryDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('chat_history')
+        .update({
+          history: history
+        })
+        .eq('id', chatId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating chat history:', error);
+        return null;
+      }
+
+      return {
+        id: data.id,
+        userId: data.user_id,
+        history: data.history,
+        createdAt: new Date(data.created_at),
+        updatedAt: new Date(data.updated_at)
+      };
+    } catch (error) {
+      console.error('Error updating chat history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets all chat histories for a user
+   * @param userId User ID
+   * @param jwt JWT token for user-specific access
+   * @returns Array of chat histories
+   */
+  async getChatHistoriesByUserId(userId: string, jwt: string): Promise<ChatHistoryDto[]> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
         .from('chat_history')
         .select('*')
         .eq('user_id', userId)
@@ -742,7 +1142,9 @@ class SupabaseService {
    * @param userId User ID
    * @param prompt Prompt used for analysis
    * @param analysis Analysis result object
+   * @param documentIds IDs of the analyzed documents
    * @param jwt JWT token for user-specific access
+   * @param options Analysis profile and prompt template versions the analysis was run with
    * @returns Created document analysis or null
    */
   async createDocumentAnalysis(
@@ -750,7 +1152,9 @@ class SupabaseService {
     userId: string, 
     prompt: string, 
     analysis: any, 
-    jwt: string
+    documentIds: string[],
+    jwt: string,
+    options: { profileId?: string | null, promptVersion?: string | null } = {}
   ): Promise<DocumentAnalysisResult | null> {
     try {
       const authClient = this.createAuthClient(jwt);
@@ -761,7 +1165,10 @@ class SupabaseService {
           chat_id: chatId,
           user_id: userId,
           prompt: prompt,
-          analysis: analysis
+          analysis: analysis,
+          document_ids: documentIds,
+          profile_id: options.profileId ?? null,
+          prompt_version: options.promptVersion ?? null
         })
         .select()
         .single();
@@ -776,6 +1183,9 @@ class SupabaseService {
         chatId: data.chat_id,
         userId: data.user_id,
         prompt: data.prompt,
+        documentIds: data.document_ids ?? [],
+        profileId: data.profile_id ?? null,
+        promptVersion: data.prompt_version ?? null,
         analysis: data.analysis,
         createdAt: new Date(data.created_at)
       };
@@ -811,6 +1221,9 @@ class SupabaseService {
         chatId: item.chat_id,
         userId: item.user_id,
         prompt: item.prompt,
+        documentIds: item.document_ids ?? [],
+        profileId: item.profile_id ?? null,
+        promptVersion: item.prompt_version ?? null,
         analysis: item.analysis,
         createdAt: new Date(item.created_at)
       }));
@@ -821,37 +1234,1014 @@ class SupabaseService {
   }
 
   /**
-   * Tracks token usage for a user
-   * @param userId User ID
-   * @param usageType Type of usage ('chat' or 'analysis')
-   * @param tokenCount Number of tokens used
+   * Gets document analysis records that include a document
+   * @param documentId Document ID
    * @param jwt JWT token for user-specific access
-   * @returns Success status
+   * @returns Array of document analysis records, newest first
    */
-  async trackUserUsage(userId: string, usageType: 'chat' | 'analysis', tokenCount: number, jwt: string): Promise<boolean> {
+  async getDocumentAnalysesByDocumentId(documentId: string, jwt: string): Promise<DocumentAnalysisResult[]> {
     try {
-      console.log(`[SUPABASE] Tracking ${tokenCount} tokens for ${usageType} by user ${userId}`);
       const authClient = this.createAuthClient(jwt);
 
-      const { error } = await authClient
-        .from('user_usage')
-        .insert({
-          user_id: userId,
-          usage_type: usageType,
-          token_count: tokenCount
-        });
+      const { data, error } = await authClient
+        .from('document_analysis')
+        .select('*')
+        .contains('document_ids', [documentId])
+        .order('created_at', { ascending: false });
 
       if (error) {
-        console.error(`[SUPABASE] Error tracking user usage:`, error);
-        return false;
+        console.error('Error getting document analyses by document:', error);
+        return [];
       }
 
-      return true;
+      return data.map((item: any) => ({
+        id: item.id,
+        chatId: item.chat_id,
+        userId: item.user_id,
+        prompt: item.prompt,
+        documentIds: item.document_ids ?? [],
+        profileId: item.profile_id ?? null,
+        promptVersion: item.prompt_version ?? null,
+        analysis: item.analysis,
+        createdAt: new Date(item.created_at)
+      }));
+    } catch (error) {
+      console.error('Error getting document analyses by document:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a cached OCR result by its cache key
+   * @param cacheKey Key derived from the file content hash, OCR model and image flag
+   * @param serviceRoleKey Service role key, the cache is shared and not accessible to users
+   * @returns Cached OCR result or null
+   */
+  async getOcrCacheEntry(cacheKey: string, serviceRoleKey: string): Promise<OCRResponse | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('ocr_cache')
+        .select('result')
+        .eq('cache_key', cacheKey)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error getting OCR cache entry:', error);
+        return null;
+      }
+
+      return data ? data.result as OCRResponse : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error getting OCR cache entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores an OCR result in the cache. Existing entries for the same key are kept.
+   * @param entry Cache key, content hash, OCR settings and result
+   * @param serviceRoleKey Service role key, the cache is shared and not accessible to users
+   * @returns Success status
+   */
+  async saveOcrCacheEntry(
+    entry: { cacheKey: string, contentHash: string, model: string, includeImageBase64: boolean, result: OCRResponse },
+    serviceRoleKey: string
+  ): Promise<boolean> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { error } = await authClient
+        .from('ocr_cache')
+        .upsert({
+          cache_key: entry.cacheKey,
+          content_hash: entry.contentHash,
+          model: entry.model,
+          include_image_base64: entry.includeImageBase64,
+          result: entry.result
+        }, { onConflict: 'cache_key', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('[SUPABASE] Error saving OCR cache entry:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[SUPABASE] Error saving OCR cache entry:', error);
+      return false;
+    }
+  }
+
+  // --- OCR Job Methods ---
+
+  /**
+   * Maps an ocr_jobs row to the job DTO
+   */
+  private mapOcrJob(data: any): OcrJobDto {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      filePath: data.file_path,
+      includeImageBase64: data.include_image_base64,
+      status: data.status,
+      progress: data.progress,
+      stage: data.stage ?? null,
+      result: data.result ?? null,
+      cacheHit: data.cache_hit ?? null,
+      error: data.error ?? null,
+      attempts: data.attempts ?? 0,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at)
+    };
+  }
+
+  /**
+   * Creates a queued OCR job
+   * @param userId User ID
+   * @param filePath Path to the file in the bucket
+   * @param includeImageBase64 Whether extracted images should be included
+   * @param jwt JWT token for user-specific access
+   * @returns Created job or null
+   */
+  async createOcrJob(userId: string, filePath: string, includeImageBase64: boolean, jwt: string): Promise<OcrJobDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('ocr_jobs')
+        .insert({
+          user_id: userId,
+          file_path: filePath,
+          include_image_base64: includeImageBase64,
+          status: 'queued',
+          progress: 0
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[SUPABASE] Error creating OCR job:', error);
+        return null;
+      }
+
+      return this.mapOcrJob(data);
+    } catch (error) {
+      console.error('[SUPABASE] Error creating OCR job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Updates the status, progress or outcome of an OCR job
+   * @param jobId Job ID
+   * @param update Fields to update
+   * @param jwt JWT token for user-specific access (or the service role key)
+   * @returns Success status
+   */
+  async updateOcrJob(
+    jobId: string,
+    update: { status?: OcrJobStatus, progress?: number, stage?: string | null, result?: OCRResponse | null, cacheHit?: boolean | null, error?: string | null },
+    jwt: string
+  ): Promise<boolean> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('ocr_jobs')
+        .update({
+          ...(update.status !== undefined ? { status: update.status } : {}),
+          ...(update.progress !== undefined ? { progress: update.progress } : {}),
+          ...(update.stage !== undefined ? { stage: update.stage } : {}),
+          ...(update.result !== undefined ? { result: update.result } : {}),
+          ...(update.cacheHit !== undefined ? { cache_hit: update.cacheHit } : {}),
+          ...(update.error !== undefined ? { error: update.error } : {})
+          // updated_at is handled by the trigger
+        })
+        .eq('id', jobId);
+
+      if (error) {
+        console.error('[SUPABASE] Error updating OCR job:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[SUPABASE] Error updating OCR job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Claims an OCR job for a worker. The update only applies while the job's attempt count is unchanged
+   * and it is queued or its last update is older than staleBefore, so of several workers racing for
+   * the same job exactly one gets it.
+   * @param job Job as last read
+   * @param staleBefore Processing jobs not updated since are considered abandoned
+   * @param jwt JWT token for user-specific access
+   * @returns The claimed job, or null if another worker claimed it first or it is still running
+   */
+  async claimOcrJob(job: OcrJobDto, staleBefore: Date, jwt: string): Promise<OcrJobDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('ocr_jobs')
+        .update({ status: 'processing', progress: 0, stage: 'starting', error: null, attempts: job.attempts + 1 })
+        .eq('id', job.id)
+        .eq('attempts', job.attempts)
+        .or(`status.eq.queued,and(status.eq.processing,updated_at.lt."${staleBefore.toISOString()}")`)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error claiming OCR job:', error);
+        return null;
+      }
+
+      return data ? this.mapOcrJob(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error claiming OCR job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets an OCR job by ID
+   * @param jobId Job ID
+   * @param jwt JWT token for user-specific access
+   * @returns Job or null
+   */
+  async getOcrJobById(jobId: string, jwt: string): Promise<OcrJobDto | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('ocr_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error getting OCR job:', error);
+        return null;
+      }
+
+      return data ? this.mapOcrJob(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error getting OCR job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets all queued or processing OCR jobs, oldest first. Requires the service role key
+   * since jobs of all users are returned.
+   * @param serviceRoleKey Supabase service role key
+   * @returns Unfinished jobs
+   */
+  async getUnfinishedOcrJobs(serviceRoleKey: string): Promise<OcrJobDto[]> {
+    try {
+      const serviceClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await serviceClient
+        .from('ocr_jobs')
+        .select('*')
+        .in('status', ['queued', 'processing'])
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[SUPABASE] Error getting unfinished OCR jobs:', error);
+        return [];
+      }
+
+      return (data || []).map(item => this.mapOcrJob(item));
+    } catch (error) {
+      console.error('[SUPABASE] Error getting unfinished OCR jobs:', error);
+      return [];
+    }
+  }
+
+  // --- Document Chunk Methods ---
+
+  /**
+   * Gets the keys of documents already indexed for a chat session with the given embedder
+   * @param sessionId Chat session ID
+   * @param embedder Embedder name
+   * @param jwt JWT token for user-specific access
+   * @returns Distinct document keys
+   */
+  async getIndexedDocumentKeys(sessionId: string, embedder: string, jwt: string): Promise<string[]> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('document_chunks')
+        .select('document_key')
+        .eq('session_id', sessionId)
+        .eq('embedder', embedder);
+
+      if (error) {
+        console.error('[SUPABASE] Error getting indexed document keys:', error);
+        return [];
+      }
+
+      return Array.from(new Set((data || []).map((item: any) => item.document_key as string)));
+    } catch (error) {
+      console.error('[SUPABASE] Error getting indexed document keys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stores embedded document chunks
+   * @param chunks Chunks to insert
+   * @param jwt JWT token for user-specific access
+   * @returns Success status
+   */
+  async insertDocumentChunks(chunks: DocumentChunk[], jwt: string): Promise<boolean> {
+    try {
+      if (chunks.length === 0) {
+        return true;
+      }
+
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('document_chunks')
+        .insert(chunks.map(chunk => ({
+          session_id: chunk.sessionId,
+          user_id: chunk.userId,
+          document_key: chunk.documentKey,
+          document_name: chunk.documentName,
+          page_index: chunk.pageIndex,
+          chunk_index: chunk.chunkIndex,
+          content: chunk.content,
+          embedder: chunk.embedder,
+          embedding: chunk.embedding
+        })));
+
+      if (error) {
+        console.error('[SUPABASE] Error inserting document chunks:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[SUPABASE] Error inserting document chunks:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets all chunks of a chat session produced by the given embedder
+   * @param sessionId Chat session ID
+   * @param embedder Embedder name
+   * @param jwt JWT token for user-specific access
+   * @returns Document chunks
+   */
+  async getDocumentChunks(sessionId: string, embedder: string, jwt: string): Promise<DocumentChunk[]> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('document_chunks')
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('embedder', embedder);
+
+      if (error) {
+        console.error('[SUPABASE] Error getting document chunks:', error);
+        return [];
+      }
+
+      return (data || []).map((item: any) => ({
+        sessionId: item.session_id,
+        userId: item.user_id,
+        documentKey: item.document_key,
+        documentName: item.document_name,
+        pageIndex: item.page_index,
+        chunkIndex: item.chunk_index,
+        content: item.content,
+        embedder: item.embedder,
+        embedding: item.embedding
+      }));
+    } catch (error) {
+      console.error('[SUPABASE] Error getting document chunks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Sums the tokens a user consumed since the start of the current day and month
+   * @param userId User ID
+   * @param dayStart Start of the daily window
+   * @param monthStart Start of the monthly window
+   * @param jwt JWT token for user-specific access
+   * @returns Token totals per window, or null if they could not be read
+   */
+  async getUserTokenUsage(
+    userId: string,
+    dayStart: Date,
+    monthStart: Date,
+    jwt: string
+  ): Promise<{ daily: number, monthly: number } | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient.rpc('get_user_token_usage', {
+        p_user_id: userId,
+        p_day_start: dayStart.toISOString(),
+        p_month_start: monthStart.toISOString()
+      });
+
+      if (error) {
+        console.error(`[SUPABASE] Error getting user token usage:`, error);
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        daily: Number(row?.daily_tokens ?? 0),
+        monthly: Number(row?.monthly_tokens ?? 0)
+      };
+    } catch (error) {
+      console.error(`[SUPABASE] Error getting user token usage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Records the usage of a single model call
+   * @param record Provider, model, token counts, OCR pages and related session/documents
+   * @param jwt Service role key, or the user's JWT token when no key is set
+   * @returns Success status
+   */
+  async trackUserUsage(record: UsageRecordDto, jwt: string): Promise<boolean> {
+    try {
+      console.log(`[SUPABASE] Tracking ${record.totalTokens} tokens${record.ocrPages ? ` and ${record.ocrPages} OCR pages` : ''} for ${record.usageType} (${record.provider}/${record.model}) by user ${record.userId}`);
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('user_usage')
+        .insert({
+          user_id: record.userId,
+          usage_type: record.usageType,
+          token_count: record.totalTokens,
+          provider: record.provider,
+          model: record.model,
+          prompt_tokens: record.promptTokens,
+          completion_tokens: record.completionTokens,
+          ocr_pages: record.ocrPages ?? 0,
+          session_id: record.sessionId ?? null,
+          document_ids: record.documentIds ?? []
+        });
+
+      if (error) {
+        console.error(`[SUPABASE] Error tracking user usage:`, error);
+        return false;
+      }
+
+      return true;
     } catch (error) {
       console.error(`[SUPABASE] Error tracking user usage:`, error);
       return false;
     }
   }
+
+  /**
+   * Gets usage aggregated per user, day, provider, model and operation.
+   * RLS limits the rows to the caller's own usage unless the service role key is used.
+   * @param from Start of the range (inclusive)
+   * @param to End of the range (exclusive)
+   * @param userId Optional user to restrict the report to
+   * @param jwt JWT token (or service role key) for access
+   * @returns Aggregated rows ordered by day
+   */
+  async getUsageReport(from: Date, to: Date, userId: string | null, jwt: string): Promise<UsageReportRow[]> {
+    const authClient = this.createAuthClient(jwt);
+
+    const { data, error } = await authClient.rpc('get_usage_report', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_user_id: userId
+    });
+
+    if (error) {
+      console.error(`[SUPABASE] Error getting usage report:`, error);
+      throw new Error('Failed to load the usage report');
+    }
+
+    return (data || []).map((row: any) => ({
+      userId: row.user_id,
+      day: row.day,
+      provider: row.provider,
+      model: row.model,
+      usageType: row.usage_type,
+      requestCount: Number(row.request_count),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      totalTokens: Number(row.total_tokens),
+      ocrPages: Number(row.ocr_pages)
+    }));
+  }
+
+  // --- Audit Log Methods ---
+
+  /**
+   * Writes an entry to the audit log
+   * @param event Audit event
+   * @param jwt Service role key, users cannot write the audit log
+   * @returns True if the entry was written
+   */
+  async insertAuditEvent(event: AuditEventDto, jwt: string): Promise<boolean> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { error } = await authClient
+        .from('audit_log')
+        .insert({
+          event: event.event,
+          user_id: event.userId,
+          role: event.role,
+          method: event.method,
+          path: event.path,
+          reason: event.reason,
+          required: event.required,
+          ip: event.ip ?? null,
+          created_at: event.createdAt.toISOString()
+        });
+
+      if (error) {
+        console.error('[SUPABASE] Error writing audit event:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[SUPABASE] Error writing audit event:', error);
+      return false;
+    }
+  }
+
+  // --- API Key Methods ---
+
+  /**
+   * Maps an api_keys row to its DTO
+   */
+  private mapApiKey(row: any): ApiKeyDto {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: row.scopes ?? [],
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Stores a new API key
+   * @param keyData Key metadata and hash
+   * @param serviceRoleKey Service role key, users cannot write api_keys themselves
+   * @returns Created key or null
+   */
+  async createApiKey(keyData: CreateApiKeyDto, serviceRoleKey: string): Promise<ApiKeyDto | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('api_keys')
+        .insert({
+          user_id: keyData.userId,
+          name: keyData.name,
+          prefix: keyData.prefix,
+          key_hash: keyData.keyHash,
+          scopes: keyData.scopes,
+          expires_at: keyData.expiresAt ? keyData.expiresAt.toISOString() : null
+        })
+        .select(API_KEY_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error('[SUPABASE] Error creating API key:', error);
+        return null;
+      }
+
+      return this.mapApiKey(data);
+    } catch (error) {
+      console.error('[SUPABASE] Error creating API key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the API keys of a user, newest first
+   * @param userId User ID
+   * @param jwt JWT token for user-specific access
+   * @returns API keys including revoked ones
+   */
+  async getApiKeysByUserId(userId: string, jwt: string): Promise<ApiKeyDto[]> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('api_keys')
+        .select(API_KEY_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[SUPABASE] Error getting API keys:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapApiKey(row));
+    } catch (error) {
+      console.error('[SUPABASE] Error getting API keys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Revokes an API key of a user
+   * @param keyId API key ID
+   * @param userId Owner of the key, only their keys are revoked
+   * @param serviceRoleKey Service role key, users cannot write api_keys themselves
+   * @returns Revoked key or null if it does not exist or was already revoked
+   */
+  async revokeApiKey(keyId: string, userId: string, serviceRoleKey: string): Promise<ApiKeyDto | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', keyId)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .select(API_KEY_COLUMNS)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error revoking API key:', error);
+        return null;
+      }
+
+      return data ? this.mapApiKey(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error revoking API key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Looks up an API key by the hash of its secret
+   * @param keyHash SHA-256 of the key
+   * @param serviceRoleKey Service role key, the owner is not known before the lookup
+   * @returns API key or null if no key has this hash
+   */
+  async getApiKeyByHash(keyHash: string, serviceRoleKey: string): Promise<ApiKeyDto | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('api_keys')
+        .select(API_KEY_COLUMNS)
+        .eq('key_hash', keyHash)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error looking up API key:', error);
+        return null;
+      }
+
+      return data ? this.mapApiKey(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error looking up API key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the app_metadata of a user, which holds the user's current role
+   * @param userId User ID
+   * @param serviceRoleKey Service role key, required by the auth admin API
+   * @returns app_metadata or null if the user does not exist or the lookup failed
+   */
+  async getUserAppMetadata(userId: string, serviceRoleKey: string): Promise<Record<string, any> | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient.auth.admin.getUserById(userId);
+
+      if (error) {
+        console.error('[SUPABASE] Error getting user:', error);
+        return null;
+      }
+
+      return data.user ? data.user.app_metadata ?? {} : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error getting user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records the last use of an API key
+   * @param keyId API key ID
+   * @param serviceRoleKey Service role key
+   */
+  async touchApiKey(keyId: string, serviceRoleKey: string): Promise<void> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { error } = await authClient
+        .from('api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', keyId);
+
+      if (error) {
+        console.error('[SUPABASE] Error updating API key last use:', error);
+      }
+    } catch (error) {
+      console.error('[SUPABASE] Error updating API key last use:', error);
+    }
+  }
+
+  // --- Document Comparison Methods ---
+
+  /**
+   * Maps a document_comparisons row to its DTO
+   */
+  private mapDocumentComparison(row: any): DocumentComparison {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      baseDocumentId: row.base_document_id,
+      revisedDocumentId: row.revised_document_id,
+      prompt: row.prompt,
+      changes: row.changes ?? [],
+      unchangedCount: row.unchanged_count,
+      provider: row.provider,
+      model: row.model,
+      tokenUsage: row.token_usage,
+      promptVersion: row.prompt_version ?? null,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Stores the comparison of two contract versions
+   * @param comparison Comparison result
+   * @param jwt JWT token for user-specific access
+   * @returns Stored comparison or null
+   */
+  async createDocumentComparison(comparison: DocumentComparison, jwt: string): Promise<DocumentComparison | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('document_comparisons')
+        .insert({
+          user_id: comparison.userId,
+          base_document_id: comparison.baseDocumentId,
+          revised_document_id: comparison.revisedDocumentId,
+          prompt: comparison.prompt,
+          changes: comparison.changes,
+          unchanged_count: comparison.unchangedCount,
+          provider: comparison.provider,
+          model: comparison.model,
+          token_usage: comparison.tokenUsage ?? null,
+          prompt_version: comparison.promptVersion ?? null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating document comparison:', error);
+        return null;
+      }
+
+      return this.mapDocumentComparison(data);
+    } catch (error) {
+      console.error('Error creating document comparison:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets a stored comparison
+   * @param comparisonId Comparison ID
+   * @param jwt JWT token for user-specific access
+   * @returns Comparison or null if not found
+   */
+  async getDocumentComparisonById(comparisonId: string, jwt: string): Promise<DocumentComparison | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('document_comparisons')
+        .select('*')
+        .eq('id', comparisonId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error getting document comparison:', error);
+        return null;
+      }
+
+      return data ? this.mapDocumentComparison(data) : null;
+    } catch (error) {
+      console.error('Error getting document comparison:', error);
+      return null;
+    }
+  }
+
+  // --- Analysis Profile Methods ---
+
+  /**
+   * Maps an analysis_profiles row to its DTO
+   */
+  private mapAnalysisProfile(row: any): AnalysisProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      systemPrompt: row.system_prompt,
+      severityGuidance: row.severity_guidance,
+      requiredChecks: row.required_checks ?? [],
+      outputSchema: row.output_schema,
+      isActive: row.is_active,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Maps profile input to analysis_profiles columns, leaving out fields that were not provided
+   */
+  private toAnalysisProfileRow(profile: Partial<AnalysisProfileInputDto>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    if (profile.name !== undefined) row.name = profile.name;
+    if (profile.description !== undefined) row.description = profile.description;
+    if (profile.systemPrompt !== undefined) row.system_prompt = profile.systemPrompt;
+    if (profile.severityGuidance !== undefined) row.severity_guidance = profile.severityGuidance;
+    if (profile.requiredChecks !== undefined) row.required_checks = profile.requiredChecks;
+    if (profile.outputSchema !== undefined) row.output_schema = profile.outputSchema;
+    if (profile.isActive !== undefined) row.is_active = profile.isActive;
+    return row;
+  }
+
+  /**
+   * Lists analysis profiles by name
+   * @param includeInactive Whether deactivated profiles are included
+   * @param jwt JWT token or service role key
+   * @returns Analysis profiles
+   */
+  async getAnalysisProfiles(includeInactive: boolean, jwt: string): Promise<AnalysisProfile[]> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      let query = authClient
+        .from('analysis_profiles')
+        .select('*')
+        .order('name', { ascending: true });
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('[SUPABASE] Error listing analysis profiles:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapAnalysisProfile(row));
+    } catch (error) {
+      console.error('[SUPABASE] Error listing analysis profiles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets an analysis profile
+   * @param profileId Profile ID
+   * @param jwt JWT token or service role key
+   * @returns Profile or null if not found
+   */
+  async getAnalysisProfileById(profileId: string, jwt: string): Promise<AnalysisProfile | null> {
+    try {
+      const authClient = this.createAuthClient(jwt);
+
+      const { data, error } = await authClient
+        .from('analysis_profiles')
+        .select('*')
+        .eq('id', profileId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error getting analysis profile:', error);
+        return null;
+      }
+
+      return data ? this.mapAnalysisProfile(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error getting analysis profile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates an analysis profile
+   * @param profile Profile data
+   * @param serviceRoleKey Service role key, users cannot write profiles
+   * @returns Created profile or null
+   */
+  async createAnalysisProfile(profile: AnalysisProfileInputDto, serviceRoleKey: string): Promise<AnalysisProfile | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('analysis_profiles')
+        .insert(this.toAnalysisProfileRow(profile))
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[SUPABASE] Error creating analysis profile:', error);
+        return null;
+      }
+
+      return this.mapAnalysisProfile(data);
+    } catch (error) {
+      console.error('[SUPABASE] Error creating analysis profile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Updates an analysis profile
+   * @param profileId Profile ID
+   * @param profile Fields to change
+   * @param serviceRoleKey Service role key, users cannot write profiles
+   * @returns Updated profile or null if not found
+   */
+  async updateAnalysisProfile(profileId: string, profile: Partial<AnalysisProfileInputDto>, serviceRoleKey: string): Promise<AnalysisProfile | null> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('analysis_profiles')
+        .update({ ...this.toAnalysisProfileRow(profile), updated_at: new Date().toISOString() })
+        .eq('id', profileId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SUPABASE] Error updating analysis profile:', error);
+        return null;
+      }
+
+      return data ? this.mapAnalysisProfile(data) : null;
+    } catch (error) {
+      console.error('[SUPABASE] Error updating analysis profile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Deletes an analysis profile, analyses keep their results but lose the profile reference
+   * @param profileId Profile ID
+   * @param serviceRoleKey Service role key, users cannot write profiles
+   * @returns True if a profile was deleted
+   */
+  async deleteAnalysisProfile(profileId: string, serviceRoleKey: string): Promise<boolean> {
+    try {
+      const authClient = this.createAuthClient(serviceRoleKey);
+
+      const { data, error } = await authClient
+        .from('analysis_profiles')
+        .delete()
+        .eq('id', profileId)
+        .select('id');
+
+      if (error) {
+        console.error('[SUPABASE] Error deleting analysis profile:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('[SUPABASE] Error deleting analysis profile:', error);
+      return false;
+    }
+  }
 }
 
 export default new SupabaseService();
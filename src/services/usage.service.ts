@@ -0,0 +1,154 @@
+import config from '../config/env';
+import supabaseService from './supabase.service';
+import { ProviderUsage } from './providers/chatProvider';
+import { UsageRecordDto, UsageReportRow, UsageSummaryDto, UsageTotals, UsageType } from '../dto/usage.dto';
+
+/**
+ * Provider, model and related records of a model call
+ */
+export interface UsageDetails {
+  provider: string;
+  model: string;
+  sessionId?: string | null;
+  documentIds?: string[];
+}
+
+const CSV_COLUMNS: Array<keyof UsageReportRow> = [
+  'userId',
+  'day',
+  'provider',
+  'model',
+  'usageType',
+  'requestCount',
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'ocrPages'
+];
+
+const emptyTotals = (): UsageTotals => ({
+  requestCount: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  ocrPages: 0
+});
+
+const addTotals = (totals: UsageTotals, row: UsageTotals): void => {
+  totals.requestCount += row.requestCount;
+  totals.promptTokens += row.promptTokens;
+  totals.completionTokens += row.completionTokens;
+  totals.totalTokens += row.totalTokens;
+  totals.ocrPages += row.ocrPages;
+};
+
+/**
+ * Groups report rows by a key and sums their counters
+ */
+const groupRows = <K extends object>(rows: UsageReportRow[], getKey: (row: UsageReportRow) => K): Array<K & UsageTotals> => {
+  const groups = new Map<string, K & UsageTotals>();
+  rows.forEach(row => {
+    const key = getKey(row);
+    const id = JSON.stringify(key);
+    if (!groups.has(id)) {
+      groups.set(id, { ...key, ...emptyTotals() });
+    }
+    addTotals(groups.get(id)!, row);
+  });
+  return Array.from(groups.values());
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Records every model call and builds usage reports for users and admins
+ */
+class UsageService {
+  /**
+   * Records the usage of a model call. Failures are logged and never fail the request.
+   * Usage is written with the service role key if set, otherwise with the user's token
+   * (quotas require the key, see config/env.ts).
+   * @param userId User ID
+   * @param usageType Operation of the call
+   * @param usage Token usage reported by the provider
+   * @param details Provider, model and related session/documents
+   * @param jwt JWT token of the user, used without a service role key
+   * @param ocrPages Number of pages processed by OCR
+   */
+  async record(
+    userId: string,
+    usageType: UsageType,
+    usage: ProviderUsage | undefined,
+    details: UsageDetails,
+    jwt: string,
+    ocrPages: number = 0
+  ): Promise<void> {
+
+    const record: UsageRecordDto = {
+      userId,
+      usageType,
+      provider: details.provider,
+      model: details.model,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      totalTokens: usage?.totalTokens ?? 0,
+      ocrPages,
+      sessionId: details.sessionId ?? null,
+      documentIds: details.documentIds ?? []
+    };
+
+    const tracked = await supabaseService.trackUserUsage(record, config.supabaseServiceRoleKey || jwt);
+    if (!tracked) {
+      console.warn(`[USAGE] Could not record ${usageType} usage of user ${userId}`);
+    }
+  }
+
+  /**
+   * Gets the aggregated usage rows of a date range
+   * @param from First day (inclusive)
+   * @param to Last day (inclusive)
+   * @param userId Optional user filter
+   * @param jwt JWT token or service role key
+   * @returns Rows per user, day, provider, model and operation
+   */
+  async getReport(from: Date, to: Date, userId: string | null, jwt: string): Promise<UsageReportRow[]> {
+    const end = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+    return supabaseService.getUsageReport(from, end, userId, jwt);
+  }
+
+  /**
+   * Summarizes report rows into totals and per-model, per-operation and per-day breakdowns
+   * @param rows Report rows
+   * @param from First day of the range
+   * @param to Last day of the range
+   * @returns Usage summary
+   */
+  summarize(rows: UsageReportRow[], from: string, to: string): UsageSummaryDto {
+    const totals = emptyTotals();
+    rows.forEach(row => addTotals(totals, row));
+
+    return {
+      from,
+      to,
+      totals,
+      byModel: groupRows(rows, row => ({ provider: row.provider, model: row.model })),
+      byOperation: groupRows(rows, row => ({ usageType: row.usageType })),
+      byDay: groupRows(rows, row => ({ day: row.day }))
+    };
+  }
+
+  /**
+   * Serializes report rows as CSV with a header line
+   * @param rows Report rows
+   * @returns CSV text
+   */
+  toCsv(rows: UsageReportRow[]): string {
+    const lines = rows.map(row => CSV_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+  }
+}
+
+export default new UsageService();
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { initEventStream, StreamUsage, wantsEventStream } from './sse';
+
+/**
+ * Wire formats of a streamed analysis:
+ * - sse: Server-Sent Events (`Accept: text/event-stream`)
+ * - ndjson: one JSON object `{ "event": ..., "data": ... }` per line (`Accept: application/x-ndjson`)
+ */
+export type AnalysisStreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Payloads of the events sent while an analysis is streamed
+ */
+export interface AnalysisStreamEvents {
+  annotation: { index: number; annotation: unknown };
+  usage: StreamUsage;
+  error: { message: string; details?: string[] };
+  done: {
+    recordId: string | null;
+    count: number; // Annotations sent and stored
+    skipped: string[]; // Validation errors of annotations that were dropped
+    [key: string]: unknown; // Route-specific summary fields
+  };
+}
+
+export type AnalysisStreamEventName = keyof AnalysisStreamEvents;
+
+/**
+ * Determines whether the client asked for a streamed analysis and in which format
+ * @param req Incoming request
+ * @returns Stream format, or null for a regular JSON response
+ */
+export const getAnalysisStreamFormat = (req: Request<any, any, any, any>): AnalysisStreamFormat | null => {
+  if (wantsEventStream(req)) {
+    return 'sse';
+  }
+  const accept = req.headers.accept;
+  return typeof accept === 'string' && accept.includes('application/x-ndjson') ? 'ndjson' : null;
+};
+
+/**
+ * Sets the response headers of a streamed analysis and flushes them
+ * @param res Response
+ * @param format Stream format
+ */
+export const initAnalysisStream = (res: Response, format: AnalysisStreamFormat): void => {
+  if (format === 'sse') {
+    initEventStream(res);
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+};
+
+/**
+ * Writes a single event of a streamed analysis. Ignored once the response has ended.
+ * @param res Streamed response
+ * @param format Stream format
+ * @param event Event name
+ * @param data Event payload
+ */
+export const sendAnalysisEvent = <E extends AnalysisStreamEventName>(
+  res: Response,
+  format: AnalysisStreamFormat,
+  event: E,
+  data: AnalysisStreamEvents[E]
+): void => {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(format === 'sse'
+    ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    : `${JSON.stringify({ event, data })}\n`);
+};
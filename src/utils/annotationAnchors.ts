@@ -0,0 +1,152 @@
+import { OCRPageObject, OCRResponse } from '../dto/ocr.dto';
+import { Annotation, AnnotationAnchor, AnnotationAnchorStatus } from './types';
+
+/**
+ * Page markdown with whitespace runs collapsed, mapping each normalized character back to the original offset
+ */
+interface NormalizedText {
+    text: string;
+    offsets: number[];
+}
+
+const normalizeWhitespace = (value: string): NormalizedText => {
+    let text = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < value.length; i++) {
+        if (/\s/.test(value[i])) {
+            if (text.length === 0 || text[text.length - 1] === ' ') {
+                continue;
+            }
+            text += ' ';
+        } else {
+            text += value[i];
+        }
+        offsets.push(i);
+    }
+
+    return { text, offsets };
+};
+
+/**
+ * Finds a quote in the page markdown, tolerating whitespace differences (line breaks from OCR).
+ * If the quote occurs several times, the occurrence closest to the suggested offset wins.
+ * @returns Offsets of the quote in the original markdown, or null if it does not occur
+ */
+const findQuote = (markdown: string, quote: string, suggestedOffset?: number): { startOffset: number, endOffset: number } | null => {
+    const page = normalizeWhitespace(markdown);
+    const needle = normalizeWhitespace(quote.trim()).text;
+    if (!needle) {
+        return null;
+    }
+
+    let best: { startOffset: number, endOffset: number } | null = null;
+    for (let index = page.text.indexOf(needle); index !== -1; index = page.text.indexOf(needle, index + 1)) {
+        const candidate = {
+            startOffset: page.offsets[index],
+            endOffset: page.offsets[index + needle.length - 1] + 1
+        };
+        if (suggestedOffset === undefined) {
+            return candidate;
+        }
+        if (!best || Math.abs(candidate.startOffset - suggestedOffset) < Math.abs(best.startOffset - suggestedOffset)) {
+            best = candidate;
+        }
+    }
+
+    return best;
+};
+
+/**
+ * Finds the page an anchor refers to. Without a document name the page index must be unambiguous.
+ */
+const findPage = (anchor: AnnotationAnchor, documents: OCRResponse[]): OCRPageObject | string => {
+    const candidates = anchor.document
+        ? documents.filter(document => document.fileName === anchor.document)
+        : documents;
+
+    if (candidates.length === 0) {
+        return `Document "${anchor.document}" was not analyzed`;
+    }
+
+    const pages = candidates
+        .map(document => document.pages?.find(page => page.index === anchor.pageIndex))
+        .filter((page): page is OCRPageObject => !!page);
+
+    if (pages.length === 0) {
+        return `Page index ${anchor.pageIndex} does not exist`;
+    }
+    if (pages.length > 1) {
+        return `Page index ${anchor.pageIndex} is ambiguous without a document name`;
+    }
+
+    return pages[0];
+};
+
+/**
+ * Result of verifying an anchor: the anchor with corrected offsets, or the reason it was not found
+ */
+export interface ResolvedAnchor {
+    anchor?: AnnotationAnchor;
+    anchorStatus: AnnotationAnchorStatus;
+    anchorError?: string;
+}
+
+/**
+ * Verifies an anchor against the OCR'd pages
+ * @param anchor Anchor as returned by the model
+ * @param documents Documents the anchor refers to
+ * @returns Anchor with corrected offsets and its status
+ */
+export const resolveAnchor = (anchor: AnnotationAnchor | undefined, documents: OCRResponse[]): ResolvedAnchor => {
+    if (!anchor || !Number.isInteger(anchor.pageIndex) || typeof anchor.quote !== 'string' || !anchor.quote.trim()) {
+        return { anchor, anchorStatus: 'unanchored', anchorError: 'No page index and quote provided' };
+    }
+
+    const page = findPage(anchor, documents);
+    if (typeof page === 'string') {
+        return { anchor, anchorStatus: 'unanchored', anchorError: page };
+    }
+
+    // Offsets from the model are kept if they match exactly, otherwise the quote is searched on the page
+    const { startOffset, endOffset } = anchor;
+    if (
+        startOffset !== undefined &&
+        endOffset !== undefined &&
+        page.markdown.slice(startOffset, endOffset) === anchor.quote
+    ) {
+        return { anchor, anchorStatus: 'anchored' };
+    }
+
+    const found = findQuote(page.markdown, anchor.quote, startOffset);
+    if (!found) {
+        return { anchor, anchorStatus: 'unanchored', anchorError: `Quote not found on page index ${anchor.pageIndex}` };
+    }
+
+    return { anchor: { ...anchor, ...found }, anchorStatus: 'anchored' };
+};
+
+/**
+ * Verifies an annotation's anchor against the OCR'd pages
+ * @param annotation Annotation as returned by the model
+ * @param documents Documents the annotation was generated from
+ * @returns Annotation with corrected offsets and its anchor status
+ */
+export const resolveAnnotationAnchor = (annotation: Annotation, documents: OCRResponse[]): Annotation => {
+    const { anchor, anchorStatus, anchorError } = resolveAnchor(annotation.anchor, documents);
+    return {
+        ...annotation,
+        ...(anchor ? { anchor } : {}),
+        anchorStatus,
+        ...(anchorError ? { anchorError } : {})
+    };
+};
+
+/**
+ * Verifies the anchors of all annotations, flagging annotations whose quote is not on the stated page
+ * @param annotations Annotations as returned by the model
+ * @param documents Documents the annotations were generated from
+ * @returns Annotations with anchor status
+ */
+export const resolveAnnotationAnchors = (annotations: Annotation[], documents: OCRResponse[]): Annotation[] =>
+    annotations.map(annotation => resolveAnnotationAnchor(annotation, documents));
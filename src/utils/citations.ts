@@ -0,0 +1,94 @@
+import { Citation } from '../dto/chat.dto';
+import { OCRResponse } from '../dto/ocr.dto';
+import { RetrievedChunk } from '../dto/retrieval.dto';
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Matches references like [doc:vertrag.pdf#p3] in model output
+ */
+const CITATION_PATTERN = /\[doc:([^\]#]+)#p(\d+)\]/g;
+
+/**
+ * Text of a page (or page excerpt) that can be cited
+ */
+export interface CitationSource {
+  documentName: string;
+  pageIndex: number;
+  text: string;
+}
+
+/**
+ * Removes characters that would break the reference syntax from a document name
+ */
+const sanitizeDocumentName = (documentName: string): string =>
+  documentName.replace(/[\[\]#]/g, '_').trim();
+
+/**
+ * Formats the stable reference for a page, e.g. [doc:vertrag.pdf#p3].
+ * Page numbers in references start at 1, page indexes start at 0.
+ * @param documentName Document file name
+ * @param pageIndex Page index starting from 0
+ * @returns Reference string
+ */
+export const formatCitationRef = (documentName: string, pageIndex: number): string =>
+  `[doc:${sanitizeDocumentName(documentName)}#p${pageIndex + 1}]`;
+
+/**
+ * Builds citation sources from retrieved chunks
+ */
+export const citationSourcesFromChunks = (chunks: RetrievedChunk[]): CitationSource[] =>
+  chunks.map(chunk => ({ documentName: chunk.documentName, pageIndex: chunk.pageIndex, text: chunk.content }));
+
+/**
+ * Builds citation sources from the pages of OCR'd documents
+ */
+export const citationSourcesFromDocuments = (documents: OCRResponse[]): CitationSource[] =>
+  documents.flatMap(document => (document.pages || []).map(page => ({
+    documentName: document.fileName ?? 'Unknown Document',
+    pageIndex: page.index,
+    text: page.markdown
+  })));
+
+/**
+ * Extracts the page references cited in a model response. References to pages that
+ * were not part of the provided context are dropped, duplicates are reported once.
+ * @param responseText Full model response
+ * @param sources Pages or excerpts that were provided as context
+ * @returns Citations in order of first appearance
+ */
+export const extractCitations = (responseText: string, sources: CitationSource[]): Citation[] => {
+  // Several excerpts may come from the same page, keep them all for the snippet
+  const sourcesByRef = new Map<string, CitationSource[]>();
+  sources.forEach(source => {
+    const ref = formatCitationRef(source.documentName, source.pageIndex);
+    sourcesByRef.set(ref, [...(sourcesByRef.get(ref) || []), source]);
+  });
+
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of responseText.matchAll(CITATION_PATTERN)) {
+    const ref = match[0];
+    if (seen.has(ref)) {
+      continue;
+    }
+    seen.add(ref);
+
+    const matchingSources = sourcesByRef.get(ref);
+    if (!matchingSources) {
+      console.warn(`[CITATIONS] Dropping reference to unknown page ${ref}`);
+      continue;
+    }
+
+    const text = matchingSources.map(source => source.text).join(' ').replace(/\s+/g, ' ').trim();
+    citations.push({
+      reference: ref,
+      document: matchingSources[0].documentName,
+      pageIndex: matchingSources[0].pageIndex,
+      snippet: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text
+    });
+  }
+
+  return citations;
+};
@@ -0,0 +1,229 @@
+import { MistralMessage } from '../dto/chat.dto';
+import { OCRPageObject, OCRResponse } from '../dto/ocr.dto';
+import { RetrievedChunk } from '../dto/retrieval.dto';
+import { ModelLimits } from '../services/providers/chatProvider';
+import { estimateMessageTokens, estimateTokens } from './tokenEstimate';
+
+/**
+ * Share of the context window left unused because token counts are only estimated
+ */
+const SAFETY_MARGIN = 0.1;
+
+/**
+ * Share of the prompt budget document context keeps when the conversation needs the room
+ */
+const DOCUMENT_SHARE = 0.5;
+
+/**
+ * Tokens counted per page image, whose size in tokens is only known afterwards
+ */
+const IMAGE_TOKENS = 800;
+
+/**
+ * Tokens reserved for the rolling summary when older messages are summarized
+ */
+export const SUMMARY_TOKENS = 1000;
+
+/**
+ * Error thrown when the system prompt and the new prompt alone exceed the model's context window
+ */
+export class ContextBudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContextBudgetError';
+  }
+}
+
+/**
+ * Everything competing for the context window of a chat turn
+ */
+export interface ContextBudgetInput {
+  limits: ModelLimits;
+  completionTokens: number; // Reserved for the answer
+  systemPrompt: string;
+  summary: string | null; // Rolling summary of the messages before history
+  history: MistralMessage[]; // Messages not covered by the summary, in conversation order
+  prompt: string;
+  chunks?: RetrievedChunk[]; // Retrieved document excerpts
+  documents?: OCRResponse[]; // Full documents, used when retrieval failed
+}
+
+/**
+ * What to send so the turn fits into the context window
+ */
+export interface ContextPlan {
+  history: MistralMessage[]; // Most recent messages, sent as they are
+  summarize: MistralMessage[]; // Older messages to fold into the rolling summary, empty if everything fits
+  chunks: RetrievedChunk[]; // Excerpts that fit, in their original order
+  documents: OCRResponse[]; // Documents with the pages that fit
+  documentsTrimmed: boolean; // Whether excerpts or pages were left out
+  estimatedTokens: number; // Prompt tokens of the plan
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const estimatePageTokens = (page: OCRPageObject, charsPerToken: number): number =>
+  estimateTokens(page.markdown, charsPerToken) + (page.images ?? []).filter(image => image.imageBase64).length * IMAGE_TOKENS;
+
+/**
+ * Prompt tokens left for context once the answer and the fixed parts of a request are counted
+ * @param limits The model's limits
+ * @param completionTokens Tokens reserved for the answer
+ * @param fixedParts Prompt parts that are always sent in full
+ * @returns Tokens left for context
+ * @throws ContextBudgetError if the fixed parts do not fit on their own
+ */
+export const contextRoom = (limits: ModelLimits, completionTokens: number, fixedParts: string[]): number => {
+  const budget = Math.floor(limits.contextWindow * (1 - SAFETY_MARGIN)) - completionTokens;
+  const fixedTokens = sum(fixedParts.map(part => estimateTokens(part, limits.charsPerToken)));
+  if (fixedTokens > budget) {
+    throw new ContextBudgetError('The prompt is too long for the context window of the selected model');
+  }
+  return budget - fixedTokens;
+};
+
+/**
+ * Shortens texts so they fit into the budget together. Texts below an equal share of the budget
+ * are kept whole, the room they leave is shared by the longer texts, which are cut off at their share.
+ * @param texts Texts to fit
+ * @param budget Tokens available for all texts
+ * @param charsPerToken Characters per token of the model's tokenizer
+ * @returns The texts in their original order, shortened texts end with an ellipsis
+ */
+export const fitTexts = (texts: string[], budget: number, charsPerToken: number): string[] => {
+  const fitted = [...texts];
+  let remaining = budget;
+  let count = texts.length;
+  texts
+    .map((text, index) => ({ index, tokens: estimateTokens(text, charsPerToken) }))
+    .sort((a, b) => a.tokens - b.tokens)
+    .forEach(({ index, tokens }) => {
+      const share = Math.floor(remaining / count);
+      count--;
+      if (tokens <= share) {
+        remaining -= tokens;
+        return;
+      }
+      fitted[index] = `${texts[index].slice(0, Math.max(0, share * charsPerToken - 1))}…`;
+      remaining -= share;
+    });
+  return fitted;
+};
+
+/**
+ * Keeps the highest-scoring excerpts that fit into the budget
+ */
+const fitChunks = (chunks: RetrievedChunk[], budget: number, charsPerToken: number): { chunks: RetrievedChunk[], tokens: number } => {
+  const kept = new Set<RetrievedChunk>();
+  let tokens = 0;
+  [...chunks].sort((a, b) => b.score - a.score).forEach(chunk => {
+    const chunkTokens = estimateTokens(chunk.content, charsPerToken);
+    if (tokens + chunkTokens <= budget) {
+      kept.add(chunk);
+      tokens += chunkTokens;
+    }
+  });
+  return { chunks: chunks.filter(chunk => kept.has(chunk)), tokens };
+};
+
+/**
+ * Keeps the pages that fit into the budget, taking the first page of every document before
+ * the second of any, so each document keeps its beginning. Kept pages keep their index for citations.
+ */
+const fitDocuments = (documents: OCRResponse[], budget: number, charsPerToken: number): { documents: OCRResponse[], tokens: number } => {
+  const kept = documents.map(() => new Set<OCRPageObject>());
+  const maxPages = Math.max(0, ...documents.map(document => document.pages?.length ?? 0));
+  let tokens = 0;
+  for (let position = 0; position < maxPages; position++) {
+    documents.forEach((document, documentIndex) => {
+      const page = document.pages?.[position];
+      const pageTokens = page ? estimatePageTokens(page, charsPerToken) : 0;
+      if (page && tokens + pageTokens <= budget) {
+        kept[documentIndex].add(page);
+        tokens += pageTokens;
+      }
+    });
+  }
+  return {
+    documents: documents
+      .map((document, documentIndex) => ({ ...document, pages: (document.pages ?? []).filter(page => kept[documentIndex].has(page)) }))
+      .filter(document => document.pages.length > 0),
+    tokens
+  };
+};
+
+/**
+ * Splits the context window of a chat turn between the prompt, the conversation and document context.
+ * If everything fits, nothing is left out. Otherwise document context gives way to the conversation
+ * down to DOCUMENT_SHARE of the budget, and the oldest messages that still do not fit are returned
+ * for summarizing. The kept history always starts with a user message.
+ * @param input Prompt parts and the model's limits
+ * @returns Plan of what to send
+ * @throws ContextBudgetError if the system prompt and the prompt do not fit on their own
+ */
+export const planContext = (input: ContextBudgetInput): ContextPlan => {
+  const { limits, history } = input;
+  const chunks = input.chunks ?? [];
+  const documents = input.documents ?? [];
+  const charsPerToken = limits.charsPerToken;
+
+  const room = contextRoom(limits, input.completionTokens, [input.systemPrompt, input.prompt]);
+  const fixedTokens = estimateTokens(input.systemPrompt, charsPerToken) + estimateTokens(input.prompt, charsPerToken);
+  const summaryTokens = input.summary ? estimateTokens(input.summary, charsPerToken) : 0;
+  const historyTokens = history.map(message => estimateMessageTokens(message, charsPerToken));
+  const chunkTokens = sum(chunks.map(chunk => estimateTokens(chunk.content, charsPerToken)));
+  const documentTokens = sum(documents.map(document => sum((document.pages ?? []).map(page => estimatePageTokens(page, charsPerToken)))));
+  const conversationTokens = summaryTokens + sum(historyTokens);
+
+  if (conversationTokens + chunkTokens + documentTokens <= room) {
+    return {
+      history,
+      summarize: [],
+      chunks,
+      documents,
+      documentsTrimmed: false,
+      estimatedTokens: fixedTokens + conversationTokens + chunkTokens + documentTokens
+    };
+  }
+
+  // Document context keeps at least its share, or whatever the full conversation leaves over
+  const documentBudget = Math.max(Math.floor(room * DOCUMENT_SHARE), room - conversationTokens);
+  const fittedChunks = fitChunks(chunks, documentBudget, charsPerToken);
+  const fittedDocuments = fitDocuments(documents, documentBudget - fittedChunks.tokens, charsPerToken);
+  const contextTokens = fittedChunks.tokens + fittedDocuments.tokens;
+  const documentsTrimmed = fittedChunks.chunks.length < chunks.length
+    || sum(fittedDocuments.documents.map(document => document.pages.length)) < sum(documents.map(document => document.pages?.length ?? 0));
+
+  if (conversationTokens + contextTokens <= room) {
+    return {
+      history,
+      summarize: [],
+      chunks: fittedChunks.chunks,
+      documents: fittedDocuments.documents,
+      documentsTrimmed,
+      estimatedTokens: fixedTokens + conversationTokens + contextTokens
+    };
+  }
+
+  // Keep the most recent messages and leave room for the new summary
+  const historyBudget = room - contextTokens - Math.max(summaryTokens, SUMMARY_TOKENS);
+  let start = history.length;
+  let keptTokens = 0;
+  while (start > 0 && keptTokens + historyTokens[start - 1] <= historyBudget) {
+    start--;
+    keptTokens += historyTokens[start];
+  }
+  while (start < history.length && history[start].role !== 'user') {
+    keptTokens -= historyTokens[start];
+    start++;
+  }
+
+  return {
+    history: history.slice(start),
+    summarize: history.slice(0, start),
+    chunks: fittedChunks.chunks,
+    documents: fittedDocuments.documents,
+    documentsTrimmed,
+    estimatedTokens: fixedTokens + Math.max(summaryTokens, SUMMARY_TOKENS) + keptTokens + contextTokens
+  };
+};
@@ -0,0 +1,104 @@
+import { ContentChunk, MistralMessage } from '../dto/chat.dto';
+import { OCRResponse, OCRPageObject } from '../dto/ocr.dto';
+import { RetrievedChunk } from '../dto/retrieval.dto';
+import { formatCitationRef } from './citations';
+
+/**
+ * Builds one multimodal user message per OCR'd document, containing the markdown
+ * and images of every page wrapped in document header/footer markers.
+ * Shared by all chat providers so documents are presented to every model the same way.
+ * @param processedDocuments OCR results to turn into context messages
+ * @returns Context messages, documents without pages are skipped
+ */
+export const buildDocumentContextMessages = (processedDocuments: OCRResponse[]): MistralMessage[] => {
+    const documentContextMessages: MistralMessage[] = [];
+
+    processedDocuments.forEach((doc) => {
+        const docName = doc.fileName ?? 'Unknown Document';
+
+        if (!doc.pages || doc.pages.length === 0) {
+            console.warn(`[CONTEXT] Document ${docName} has no pages to process`);
+            return;
+        }
+
+        // Create multimodal content with both text and images
+        const multimodalContent: ContentChunk[] = [];
+
+        // Add document header as text
+        multimodalContent.push({ type: 'text', text: `--- Document Context: ${docName} ---` });
+
+        // Process each page
+        doc.pages.forEach((page: OCRPageObject) => {
+            // Add page text, prefixed with its stable citation reference
+            multimodalContent.push({ type: 'text', text: `${formatCitationRef(docName, page.index)}\n${page.markdown}` });
+
+            // Add page images if available
+            if (page.images && page.images.length > 0) {
+                page.images.forEach(image => {
+                    if (image.imageBase64) {
+                        multimodalContent.push({
+                            type: 'image_url',
+                            imageUrl: image.imageBase64.startsWith('data:')
+                                ? image.imageBase64
+                                : `data:image/jpeg;base64,${image.imageBase64}`
+                        });
+                    }
+                });
+            }
+        });
+
+        // Add document footer as text
+        multimodalContent.push({ type: 'text', text: `--- End Document Context: ${docName} ---` });
+
+        documentContextMessages.push({ role: 'user', content: multimodalContent });
+    });
+
+    return documentContextMessages;
+};
+
+/**
+ * Builds a single user message with retrieved document excerpts, each tagged with
+ * its citation reference. Excerpts are grouped in document and page order.
+ * @param chunks Retrieved chunks
+ * @returns Context message
+ */
+export const buildRetrievedContextMessage = (chunks: RetrievedChunk[]): MistralMessage => {
+    const orderedChunks = [...chunks].sort((a, b) =>
+        a.documentName.localeCompare(b.documentName) || a.pageIndex - b.pageIndex || a.chunkIndex - b.chunkIndex
+    );
+
+    const excerpts = orderedChunks.map(chunk =>
+        `${formatCitationRef(chunk.documentName, chunk.pageIndex)}\n${chunk.content}`
+    );
+
+    return {
+        role: 'user',
+        content: [
+            '--- Relevant Document Excerpts ---',
+            ...excerpts,
+            '--- End Relevant Document Excerpts ---'
+        ].join('\n\n')
+    };
+};
+
+/**
+ * Inserts document context messages before the final user message, or appends them
+ * if the conversation does not end with a user message.
+ * @param messages Conversation to insert into (not modified)
+ * @param contextMessages Document context messages
+ * @returns New message array including the context
+ */
+export const insertDocumentContext = <T extends { role: string }>(messages: T[], contextMessages: T[]): T[] => {
+    const result = [...messages];
+    const lastIndex = result.length - 1;
+
+    if (lastIndex >= 0 && result[lastIndex].role === 'user') {
+        // Insert before the last user message
+        result.splice(lastIndex, 0, ...contextMessages);
+    } else {
+        // Fallback: Append at the end
+        result.push(...contextMessages);
+    }
+
+    return result;
+};
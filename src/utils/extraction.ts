@@ -0,0 +1,171 @@
+import { BUILT_IN_EXTRACTION_SCHEMAS } from '../config/extractionSchemas';
+import { ExtractionFieldDefinition, ExtractionFieldType, ExtractionSchemaDefinition } from '../dto/extraction.dto';
+import { JsonObjectSchema, JsonSchema } from './jsonSchema';
+
+const FIELD_TYPES: ExtractionFieldType[] = ['string', 'number', 'boolean', 'date', 'duration', 'money', 'object'];
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+const MAX_FIELDS = 50;
+const MAX_DEPTH = 2;
+
+/**
+ * Finds a built-in extraction schema by its ID
+ */
+export const findExtractionSchema = (id: string): ExtractionSchemaDefinition | undefined =>
+    BUILT_IN_EXTRACTION_SCHEMAS.find(schema => schema.id === id);
+
+/**
+ * Validates the fields of a user-defined extraction schema
+ * @param fields Field definitions from the request
+ * @param path Path of the fields, used in error messages
+ * @param depth Nesting level, object fields may be nested once
+ * @returns Validation errors, empty if valid
+ */
+const validateFields = (fields: unknown, path: string, depth: number): string[] => {
+    if (!Array.isArray(fields) || fields.length === 0) {
+        return [`${path}: must be a non-empty array`];
+    }
+    if (fields.length > MAX_FIELDS) {
+        return [`${path}: must not contain more than ${MAX_FIELDS} fields`];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    fields.forEach((field, index) => {
+        const fieldPath = `${path}[${index}]`;
+        if (!field || typeof field !== 'object') {
+            errors.push(`${fieldPath}: must be an object`);
+            return;
+        }
+
+        const { name, type, description, multiple, fields: nestedFields } = field as Record<string, unknown>;
+        const enumValues = (field as Record<string, unknown>).enum;
+        if (typeof name !== 'string' || !FIELD_NAME.test(name)) {
+            errors.push(`${fieldPath}.name: must start with a letter and contain only letters, digits and underscores`);
+        } else if (names.has(name)) {
+            errors.push(`${fieldPath}.name: duplicate field "${name}"`);
+        } else {
+            names.add(name);
+        }
+        if (!FIELD_TYPES.includes(type as ExtractionFieldType)) {
+            errors.push(`${fieldPath}.type: must be one of ${FIELD_TYPES.join(', ')}`);
+        }
+        if (typeof description !== 'string' || !description.trim()) {
+            errors.push(`${fieldPath}.description: must be a non-empty string`);
+        }
+        if (multiple !== undefined && typeof multiple !== 'boolean') {
+            errors.push(`${fieldPath}.multiple: must be a boolean`);
+        }
+        if (enumValues !== undefined && (type !== 'string' || !Array.isArray(enumValues) || enumValues.some(value => typeof value !== 'string'))) {
+            errors.push(`${fieldPath}.enum: only allowed for string fields and must be an array of strings`);
+        }
+        if (type === 'object') {
+            errors.push(...(depth >= MAX_DEPTH
+                ? [`${fieldPath}.type: object fields cannot contain further object fields`]
+                : validateFields(nestedFields, `${fieldPath}.fields`, depth + 1)));
+        } else if (nestedFields !== undefined) {
+            errors.push(`${fieldPath}.fields: only allowed for object fields`);
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Validates a user-defined extraction schema
+ * @param schema Schema from the request
+ * @returns Validation errors, empty if valid
+ */
+export const validateExtractionSchemaDefinition = (schema: unknown): string[] => {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        return ['schema: must be an object'];
+    }
+
+    const { id, name, description, fields } = schema as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof id !== 'string' || !id.trim()) {
+        errors.push('schema.id: must be a non-empty string');
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+        errors.push('schema.name: must be a non-empty string');
+    }
+    if (description !== undefined && typeof description !== 'string') {
+        errors.push('schema.description: must be a string');
+    }
+    return [...errors, ...validateFields(fields, 'schema.fields', 1)];
+};
+
+/**
+ * JSON schema of a single field value, null is accepted for values not found in the document
+ */
+const buildValueSchema = (field: ExtractionFieldDefinition): JsonSchema => {
+    let schema: JsonSchema;
+    switch (field.type) {
+        case 'number':
+            schema = { type: 'number' };
+            break;
+        case 'boolean':
+            schema = { type: 'boolean' };
+            break;
+        case 'date':
+            schema = { type: 'string', pattern: '\\d{4}-\\d{2}-\\d{2}', description: 'YYYY-MM-DD' };
+            break;
+        case 'duration':
+            schema = { type: 'string', pattern: 'P(\\d+Y)?(\\d+M)?(\\d+W)?(\\d+D)?', description: 'ISO 8601 duration, e.g. P3M' };
+            break;
+        case 'money':
+            schema = {
+                type: 'object',
+                properties: {
+                    amount: { type: 'number' },
+                    currency: { type: 'string', pattern: '[A-Z]{3}', description: 'ISO 4217 code, e.g. EUR' }
+                },
+                required: ['amount', 'currency']
+            };
+            break;
+        case 'object':
+            schema = {
+                type: 'object',
+                properties: Object.fromEntries((field.fields ?? []).map(nested => [nested.name, buildValueSchema(nested)])),
+                required: (field.fields ?? []).map(nested => nested.name)
+            };
+            break;
+        default:
+            schema = field.enum ? { type: 'string', enum: field.enum } : { type: 'string' };
+    }
+
+    if (field.multiple) {
+        return { type: 'array', items: schema, nullable: true, description: field.description };
+    }
+    return { ...schema, nullable: true, description: field.description };
+};
+
+/**
+ * Builds the JSON schema the model's extraction must satisfy: one entry per field with
+ * the value, a confidence and the page and quote the value was taken from
+ * @param definition Extraction schema
+ * @returns JSON schema for requestStructuredOutput
+ */
+export const buildExtractionResponseSchema = (definition: ExtractionSchemaDefinition): JsonObjectSchema => ({
+    type: 'object',
+    properties: Object.fromEntries(definition.fields.map(field => [field.name, {
+        type: 'object',
+        properties: {
+            value: buildValueSchema(field),
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            pageIndex: { type: 'integer', minimum: 0, nullable: true },
+            quote: { type: 'string', nullable: true }
+        },
+        required: ['value', 'confidence', 'pageIndex', 'quote']
+    } as JsonSchema])),
+    required: definition.fields.map(field => field.name)
+});
+
+/**
+ * Lists the fields of a schema for the extraction prompt, one line per field
+ */
+export const describeExtractionFields = (fields: ExtractionFieldDefinition[], indent: string = ''): string =>
+    fields.map(field => {
+        const type = `${field.type}${field.multiple ? '[]' : ''}${field.enum ? ` (${field.enum.join(' | ')})` : ''}`;
+        const line = `${indent}- ${field.name} (${type}): ${field.description}`;
+        return field.fields ? `${line}\n${describeExtractionFields(field.fields, `${indent}  `)}` : line;
+    }).join('\n');
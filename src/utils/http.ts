@@ -0,0 +1,18 @@
+import { Response } from 'express';
+
+/**
+ * Adds headers to Access-Control-Expose-Headers, keeping the ones already exposed
+ * @param res Response
+ * @param headers Header names readable by browser clients
+ */
+export const exposeHeaders = (res: Response, ...headers: string[]): void => {
+  const current = res.getHeader('Access-Control-Expose-Headers');
+  const exposed = new Set(
+    String(current ?? '')
+      .split(',')
+      .map(header => header.trim())
+      .filter(header => header.length > 0)
+  );
+  headers.forEach(header => exposed.add(header));
+  res.setHeader('Access-Control-Expose-Headers', Array.from(exposed).join(', '));
+};
@@ -0,0 +1,113 @@
+/**
+ * An element of the streamed array, parsed as soon as it was closed
+ */
+export interface StreamedArrayElement {
+  index: number; // Position in the array, counting unparseable elements
+  value?: unknown; // Parsed element, unset if it was not valid JSON
+  error?: string;
+}
+
+/**
+ * Incrementally parses a JSON array from model output arriving in chunks and returns every
+ * object or array element once its closing bracket has arrived.
+ *
+ * Text before the JSON (e.g. a Markdown code fence) is skipped. If the output starts with an
+ * object, as JSON mode may force, the first array inside it is streamed instead, e.g. the
+ * annotations of `{ "annotations": [...] }`. Primitive elements are ignored.
+ */
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0; // Next character of the buffer to scan
+  private depth = 0; // Nesting depth of objects and arrays at the current position
+  private inString = false;
+  private escaped = false;
+  private started = false; // Whether the first { or [ was seen
+  private arrayDepth: number | null = null; // Depth inside the streamed array
+  private elementStart: number | null = null; // Buffer offset of the element being read
+  private elementCount = 0;
+  private closed = false;
+
+  /**
+   * Whether the streamed array has been closed
+   */
+  get complete(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Full output received so far
+   */
+  get content(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Adds the next chunk of output
+   * @param chunk Text as received from the model
+   * @returns Elements completed by this chunk
+   */
+  push(chunk: string): StreamedArrayElement[] {
+    this.buffer += chunk;
+    const elements: StreamedArrayElement[] = [];
+
+    for (; this.position < this.buffer.length && !this.closed; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        // Skip everything before the JSON value
+        if (char !== '{' && char !== '[') {
+          continue;
+        }
+        this.started = true;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          break;
+        case '{':
+        case '[':
+          if (this.arrayDepth === null && char === '[' && this.depth <= 1) {
+            // The top-level array, or the first array directly inside a wrapping object
+            this.arrayDepth = this.depth + 1;
+          } else if (this.depth === this.arrayDepth && this.elementStart === null) {
+            this.elementStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.arrayDepth !== null && this.depth === this.arrayDepth - 1) {
+            this.closed = true;
+          } else if (this.depth === this.arrayDepth && this.elementStart !== null) {
+            elements.push(this.parseElement(this.buffer.slice(this.elementStart, this.position + 1)));
+            this.elementStart = null;
+          }
+          break;
+      }
+    }
+
+    return elements;
+  }
+
+  private parseElement(text: string): StreamedArrayElement {
+    const index = this.elementCount++;
+    try {
+      return { index, value: JSON.parse(text) };
+    } catch (error) {
+      return { index, error: `invalid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+    }
+  }
+}
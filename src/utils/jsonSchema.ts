@@ -0,0 +1,205 @@
+/**
+ * Subset of JSON Schema used to declare and validate structured model output.
+ * Schemas are plain objects so they can also be shown to the model verbatim.
+ */
+export type JsonSchema =
+  | JsonObjectSchema
+  | JsonArraySchema
+  | JsonStringSchema
+  | JsonNumberSchema
+  | JsonBooleanSchema;
+
+/**
+ * Options shared by all schema types
+ */
+interface JsonSchemaBase {
+  description?: string;
+  nullable?: boolean; // Also accept null
+}
+
+export interface JsonObjectSchema extends JsonSchemaBase {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean; // Defaults to true
+}
+
+export interface JsonArraySchema extends JsonSchemaBase {
+  type: 'array';
+  items: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface JsonStringSchema extends JsonSchemaBase {
+  type: 'string';
+  enum?: string[];
+  minLength?: number;
+  pattern?: string; // Regular expression the whole string must match
+}
+
+export interface JsonNumberSchema extends JsonSchemaBase {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface JsonBooleanSchema extends JsonSchemaBase {
+  type: 'boolean';
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Validates a value against a schema
+ * @param value Parsed JSON value
+ * @param schema Expected schema
+ * @param path JSON path of the value, used in error messages
+ * @returns Validation errors, e.g. `$[2].level: must be one of "info", "warning", "error"`; empty if valid
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  if (value === null && schema.nullable) {
+    return [];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describeType(value)}`];
+      }
+
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key}: is required`);
+        }
+      }
+
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties[key];
+        if (propertySchema) {
+          if (propertyValue !== undefined) {
+            errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+          }
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key}: is not allowed`);
+        }
+      }
+
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array, got ${describeType(value)}`];
+      }
+
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: must contain at most ${schema.maxItems} item(s)`);
+      }
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`));
+      });
+      return errors;
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path}: expected string, got ${describeType(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [`${path}: must be at least ${schema.minLength} character(s) long`];
+      }
+      if (schema.pattern !== undefined && !new RegExp(`^(?:${schema.pattern})$`).test(value)) {
+        return [`${path}: must match ${schema.pattern}`];
+      }
+      return [];
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return [`${path}: expected integer, got ${value}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path}: must be >= ${schema.minimum}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${path}: must be <= ${schema.maximum}`];
+      }
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describeType(value)}`];
+  }
+};
+
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+/**
+ * Checks that a value is a schema this module can validate against, e.g. a schema configured by an admin
+ * @param schema Schema definition
+ * @param path Path of the definition, used in error messages
+ * @returns Definition errors; empty if the schema is usable
+ */
+export const validateSchemaDefinition = (schema: unknown, path: string = '$'): string[] => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path}: must be a schema object`];
+  }
+
+  const definition = schema as Record<string, unknown>;
+  if (!SCHEMA_TYPES.includes(definition.type as string)) {
+    return [`${path}.type: must be one of ${SCHEMA_TYPES.join(', ')}`];
+  }
+
+  switch (definition.type) {
+    case 'object': {
+      const { properties, required } = definition;
+      if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+        return [`${path}.properties: must be an object`];
+      }
+      const errors = Object.entries(properties).flatMap(([key, property]) =>
+        validateSchemaDefinition(property, `${path}.properties.${key}`));
+      if (required !== undefined && (!Array.isArray(required) || required.some(key => typeof key !== 'string'))) {
+        errors.push(`${path}.required: must be an array of property names`);
+      }
+      return errors;
+    }
+    case 'array':
+      return validateSchemaDefinition(definition.items, `${path}.items`);
+    case 'string': {
+      const errors: string[] = [];
+      if (definition.enum !== undefined && (!Array.isArray(definition.enum) || definition.enum.some(option => typeof option !== 'string'))) {
+        errors.push(`${path}.enum: must be an array of strings`);
+      }
+      if (definition.pattern !== undefined) {
+        try {
+          new RegExp(String(definition.pattern));
+        } catch {
+          errors.push(`${path}.pattern: must be a valid regular expression`);
+        }
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+};
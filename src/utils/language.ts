@@ -0,0 +1,103 @@
+import { OCRResponse } from '../dto/ocr.dto';
+
+/**
+ * Languages prompts and responses are available in
+ */
+export const OUTPUT_LANGUAGES = ['de', 'en'] as const;
+
+export type OutputLanguage = typeof OUTPUT_LANGUAGES[number];
+
+/**
+ * Languages recognized in documents
+ */
+export const DOCUMENT_LANGUAGES = ['de', 'en', 'fr'] as const;
+
+export type DocumentLanguage = typeof DOCUMENT_LANGUAGES[number];
+
+export const isOutputLanguage = (value: unknown): value is OutputLanguage =>
+  typeof value === 'string' && (OUTPUT_LANGUAGES as readonly string[]).includes(value);
+
+/**
+ * Parses an Accept-Language header into primary language subtags ordered by preference
+ * @param header Header value, e.g. "de-AT,de;q=0.9,en;q=0.8"
+ * @returns Lowercase subtags, e.g. ['de', 'en']; '*' and entries with q=0 are dropped
+ */
+export const parseAcceptLanguage = (header: string | undefined): string[] => {
+  if (!header) {
+    return [];
+  }
+
+  return header.split(',')
+    .map((entry, index) => {
+      const [range, ...params] = entry.trim().split(';');
+      const quality = params.map(param => param.trim().match(/^q=([\d.]+)$/)).find(match => match);
+      return { language: range.trim().split('-')[0].toLowerCase(), quality: quality ? Number(quality[1]) : 1, index };
+    })
+    .filter(entry => entry.language && entry.language !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.language);
+};
+
+/**
+ * Picks the response language: an explicit request field wins over Accept-Language
+ * @param explicit Language from the request body or query, already validated
+ * @param acceptLanguage Accept-Language header
+ * @param fallback Language used if neither names a supported language
+ */
+export const resolveOutputLanguage = (
+  explicit: OutputLanguage | undefined,
+  acceptLanguage: string | undefined,
+  fallback: OutputLanguage
+): OutputLanguage =>
+  explicit ?? parseAcceptLanguage(acceptLanguage).find(isOutputLanguage) ?? fallback;
+
+/**
+ * Frequent function words per language. They are short and rarely shared, so counting them
+ * tells the languages apart reliably on a page of text.
+ */
+const STOPWORDS: Record<DocumentLanguage, Set<string>> = {
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'von', 'für', 'auf', 'dem', 'den', 'des', 'eine', 'einer', 'wird', 'werden', 'oder', 'zu', 'im', 'bei', 'nach', 'sich', 'durch']),
+  en: new Set(['the', 'and', 'of', 'to', 'is', 'in', 'that', 'for', 'with', 'by', 'shall', 'be', 'this', 'on', 'are', 'or', 'any', 'which', 'as', 'from', 'not', 'will', 'such', 'its']),
+  fr: new Set(['le', 'la', 'les', 'et', 'des', 'du', 'est', 'que', 'qui', 'pour', 'dans', 'une', 'par', 'sur', 'au', 'aux', 'ne', 'pas', 'sont', 'être', 'cette', 'ou', 'son', 'ses'])
+};
+
+/**
+ * Function words needed before a language is reported, shorter texts are too ambiguous
+ */
+const MIN_STOPWORD_HITS = 5;
+
+/**
+ * Number of characters sampled from a document
+ */
+const DETECTION_SAMPLE_LENGTH = 20000;
+
+/**
+ * Detects the language of a text by counting function words
+ * @param text Text, e.g. OCR markdown
+ * @returns Detected language, or null if the text is too short or in another language
+ */
+export const detectLanguage = (text: string): DocumentLanguage | null => {
+  const words = text.toLowerCase().match(/[a-zäöüßàâçéèêëîïôûùœ]+/g) ?? [];
+  const counts = DOCUMENT_LANGUAGES.map(language => ({
+    language,
+    hits: words.filter(word => STOPWORDS[language].has(word)).length
+  })).sort((a, b) => b.hits - a.hits);
+
+  return counts[0].hits >= MIN_STOPWORD_HITS && counts[0].hits > counts[1].hits ? counts[0].language : null;
+};
+
+/**
+ * Detects the language of an OCR'd document from the markdown of its first pages
+ * @param document OCR result
+ * @returns Detected language or null
+ */
+export const detectDocumentLanguage = (document: OCRResponse): DocumentLanguage | null => {
+  let sample = '';
+  for (const page of document.pages ?? []) {
+    if (sample.length >= DETECTION_SAMPLE_LENGTH) {
+      break;
+    }
+    sample += `${page.markdown}\n`;
+  }
+  return detectLanguage(sample.slice(0, DETECTION_SAMPLE_LENGTH));
+};
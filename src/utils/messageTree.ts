@@ -0,0 +1,136 @@
+import { MistralMessage } from '../dto/chat.dto';
+
+/**
+ * Characters of the last message shown in the chat list
+ */
+const PREVIEW_LENGTH = 120;
+
+/**
+ * A message with its tree position guaranteed
+ */
+export type TreeMessage = MistralMessage & { id: string; parentId: string | null };
+
+/**
+ * Position of a message among the alternatives sharing its parent
+ */
+export interface MessageBranchInfo {
+  siblingIds: string[]; // All alternatives in creation order, including the message itself
+  index: number; // Position of the message in siblingIds
+}
+
+/**
+ * Gives every message an id and a parent id. Messages stored before branching existed form a
+ * single chain and get ids derived from their position, which stay stable because messages are only appended.
+ * @param messages Messages as stored in chat_sessions.messages
+ * @returns Messages in stored order with id and parentId set
+ */
+export const normalizeMessages = (messages: MistralMessage[]): TreeMessage[] => {
+  const normalized: TreeMessage[] = [];
+  messages.forEach((message, index) => {
+    normalized.push({
+      ...message,
+      id: message.id ?? `legacy-${index}`,
+      parentId: message.parentId !== undefined ? message.parentId : (normalized[index - 1]?.id ?? null)
+    });
+  });
+  return normalized;
+};
+
+/**
+ * Gets the children of a message in creation (stored) order
+ * @param messages Normalized messages
+ * @param parentId Parent message id, null for root messages
+ */
+export const getChildren = (messages: TreeMessage[], parentId: string | null): TreeMessage[] =>
+  messages.filter(message => message.parentId === parentId);
+
+/**
+ * Follows the most recent child from a message down to a leaf
+ * @param messages Normalized messages
+ * @param messageId Message to start from
+ * @returns Id of the leaf, the message itself if it has no children
+ */
+export const findLatestLeaf = (messages: TreeMessage[], messageId: string): string => {
+  let leafId = messageId;
+  for (let children = getChildren(messages, leafId); children.length > 0; children = getChildren(messages, leafId)) {
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
+
+/**
+ * Gets the leaf of the active branch: the stored active message, or the last stored message
+ * @param messages Normalized messages
+ * @param activeMessageId Active message id stored on the session
+ * @returns Leaf id, or null for a session without messages
+ */
+export const getActiveLeafId = (messages: TreeMessage[], activeMessageId: string | null | undefined): string | null => {
+  if (activeMessageId && messages.some(message => message.id === activeMessageId)) {
+    return activeMessageId;
+  }
+  return messages.length > 0 ? messages[messages.length - 1].id : null;
+};
+
+/**
+ * Gets the messages from the root down to a message
+ * @param messages Normalized messages
+ * @param leafId Last message of the branch, null for an empty branch
+ * @returns Branch in conversation order
+ */
+export const getBranch = (messages: TreeMessage[], leafId: string | null): TreeMessage[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const branch: TreeMessage[] = [];
+  let message = leafId ? byId.get(leafId) : undefined;
+  // The length check guards against parent cycles in corrupted data
+  while (message && branch.length < messages.length) {
+    branch.unshift(message);
+    message = message.parentId ? byId.get(message.parentId) : undefined;
+  }
+  return branch;
+};
+
+/**
+ * Gets the alternatives of a message, used by clients to switch between branches
+ * @param messages Normalized messages
+ * @param message Message
+ */
+export const getBranchInfo = (messages: TreeMessage[], message: TreeMessage): MessageBranchInfo => {
+  const siblingIds = getChildren(messages, message.parentId).map(sibling => sibling.id);
+  return { siblingIds, index: siblingIds.indexOf(message.id) };
+};
+
+/**
+ * Builds a short plain-text preview of a message, flattening multimodal content to its text chunks
+ * @param message Message, undefined for an empty branch
+ * @returns Preview, or null without a message
+ */
+export const getMessagePreview = (message: MistralMessage | undefined): string | null => {
+  if (!message) {
+    return null;
+  }
+
+  const text = typeof message.content === 'string'
+    ? message.content
+    : message.content
+      .map(chunk => chunk.type === 'text' ? chunk.text : '')
+      .join(' ');
+  const normalized = text.replace(/\s+/g, ' ').trim();
+
+  return normalized.length > PREVIEW_LENGTH
+    ? `${normalized.slice(0, PREVIEW_LENGTH)}…`
+    : normalized;
+};
+
+/**
+ * Counts the messages of the active branch and previews its last message, as shown in the chat list
+ * @param messages Messages as stored in chat_sessions.messages
+ * @param activeMessageId Stored active message id
+ */
+export const summarizeActiveBranch = (
+  messages: MistralMessage[],
+  activeMessageId: string | null | undefined
+): { messageCount: number, lastMessagePreview: string | null } => {
+  const normalized = normalizeMessages(messages);
+  const branch = getBranch(normalized, getActiveLeafId(normalized, activeMessageId));
+  return { messageCount: branch.length, lastMessagePreview: getMessagePreview(branch[branch.length - 1]) };
+};
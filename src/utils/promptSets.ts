@@ -0,0 +1,42 @@
+import * as de from './prompts';
+import * as en from './prompts.en';
+import { DocumentLanguage, OutputLanguage } from './language';
+import { promptVersion, RenderedPrompt } from './promptTemplate';
+
+/**
+ * All prompts of one language. Typing the sets after the German one makes the compiler check
+ * that every language provides the same prompts with the same variables.
+ */
+export type PromptSet = typeof de;
+
+const PROMPT_SETS: Record<OutputLanguage, PromptSet> = { de, en };
+
+/**
+ * Gets the prompts for a response language
+ */
+export const getPrompts = (language: OutputLanguage): PromptSet => PROMPT_SETS[language];
+
+/**
+ * Renders the language instructions appended to the system prompt of document tasks:
+ * the languages the documents are written in and the language to answer in
+ * @param language Response language
+ * @param documentLanguages Detected language per document, null if unknown
+ * @returns Instructions and the versions of the templates used
+ */
+export const renderLanguageInstructions = (
+  language: OutputLanguage,
+  documentLanguages: Array<DocumentLanguage | null | undefined>
+): RenderedPrompt => {
+  const prompts = getPrompts(language);
+  const detected = Array.from(new Set(documentLanguages.filter((value): value is DocumentLanguage => !!value)));
+
+  if (detected.length === 0) {
+    return { text: prompts.responseLanguagePrompt.render({}), promptVersion: promptVersion(prompts.responseLanguagePrompt) };
+  }
+
+  const languages = detected.map(value => prompts.languageNames[value]).join(', ');
+  return {
+    text: `${prompts.documentLanguagePrompt.render({ languages })} ${prompts.responseLanguagePrompt.render({})}`,
+    promptVersion: promptVersion(prompts.documentLanguagePrompt, prompts.responseLanguagePrompt)
+  };
+};
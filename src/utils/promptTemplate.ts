@@ -0,0 +1,159 @@
+/**
+ * Types a prompt variable can have:
+ * - string: inserted as is
+ * - number: must be a finite number
+ * - list: array of strings, rendered as one "- item" line per entry
+ * - json: any JSON value, rendered pretty-printed
+ */
+export type PromptVariableType = 'string' | 'number' | 'list' | 'json';
+
+/**
+ * Declaration of a template variable
+ */
+export interface PromptVariable {
+  type: PromptVariableType;
+
+  /**
+   * Content from users or other untrusted sources. It is wrapped in USER_CONTENT_OPEN/CLOSE
+   * markers so the model can tell it apart from the instructions; markers inside the content are removed.
+   */
+  untrusted?: boolean;
+}
+
+type PromptVariableValue<T extends PromptVariableType> =
+  T extends 'number' ? number : T extends 'list' ? string[] : T extends 'json' ? unknown : string;
+
+/**
+ * Values required to render a template with the given variable declarations
+ */
+export type PromptValues<V extends Record<string, PromptVariable>> = {
+  [K in keyof V]: PromptVariableValue<V[K]['type']>;
+};
+
+/**
+ * Definition of one version of a prompt
+ */
+export interface PromptTemplateDefinition<V extends Record<string, PromptVariable>> {
+  id: string; // Stable name shared by all languages, e.g. 'document-analysis'
+  language: string; // Language of the text, e.g. 'de'
+  version: number; // Raised whenever the text or variables change
+  variables: V;
+  text: string; // Text with {{variable}} placeholders
+}
+
+/**
+ * Raised for templates whose placeholders do not match their declared variables and for invalid values
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly templateRef: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export const USER_CONTENT_OPEN = '<benutzereingabe>';
+export const USER_CONTENT_CLOSE = '</benutzereingabe>';
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+const USER_CONTENT_MARKER = /<\/?\s*benutzereingabe\s*>/gi;
+
+/**
+ * A versioned prompt with declared variables. All placeholders are replaced in a single pass,
+ * so inserted values are never scanned for further placeholders.
+ */
+export class PromptTemplate<V extends Record<string, PromptVariable> = {}> {
+  readonly id: string;
+  readonly language: string;
+  readonly version: number;
+  readonly variables: V;
+  private readonly text: string;
+
+  constructor(definition: PromptTemplateDefinition<V>) {
+    this.id = definition.id;
+    this.language = definition.language;
+    this.version = definition.version;
+    this.variables = definition.variables;
+    this.text = definition.text;
+
+    // Undeclared placeholders and unused declarations are programming errors, fail when the module loads
+    const placeholders = new Set((this.text.match(PLACEHOLDER) ?? []).map(placeholder => placeholder.slice(2, -2)));
+    const undeclared = Array.from(placeholders).filter(name => !(name in this.variables));
+    const unused = Object.keys(this.variables).filter(name => !placeholders.has(name));
+    if (undeclared.length > 0 || unused.length > 0) {
+      throw new PromptTemplateError(
+        `Prompt ${this.ref}: undeclared placeholders [${undeclared.join(', ')}], unused variables [${unused.join(', ')}]`,
+        this.ref
+      );
+    }
+  }
+
+  /**
+   * Identifier of this prompt version, e.g. 'document-analysis.de@2', recorded with the results it produced
+   */
+  get ref(): string {
+    return `${this.id}.${this.language}@${this.version}`;
+  }
+
+  /**
+   * Renders the prompt
+   * @param values Value of every declared variable
+   * @returns Prompt text
+   * @throws PromptTemplateError if a value is missing or has the wrong type
+   */
+  render(values: PromptValues<V>): string {
+    const formatted = new Map<string, string>();
+    for (const [name, variable] of Object.entries(this.variables)) {
+      formatted.set(name, this.format(name, variable, (values as Record<string, unknown>)[name]));
+    }
+
+    return this.text.replace(PLACEHOLDER, (_, name: string) => formatted.get(name)!);
+  }
+
+  private format(name: string, variable: PromptVariable, value: unknown): string {
+    let text: string;
+    switch (variable.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          throw new PromptTemplateError(`Prompt ${this.ref}: ${name} must be a string`, this.ref);
+        }
+        text = value;
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new PromptTemplateError(`Prompt ${this.ref}: ${name} must be a finite number`, this.ref);
+        }
+        text = String(value);
+        break;
+      case 'list':
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          throw new PromptTemplateError(`Prompt ${this.ref}: ${name} must be an array of strings`, this.ref);
+        }
+        text = value.map(item => `- ${item}`).join('\n');
+        break;
+      case 'json':
+        if (value === undefined) {
+          throw new PromptTemplateError(`Prompt ${this.ref}: ${name} is required`, this.ref);
+        }
+        text = JSON.stringify(value, null, 2);
+        break;
+    }
+
+    return variable.untrusted
+      ? `${USER_CONTENT_OPEN}\n${text.replace(USER_CONTENT_MARKER, '')}\n${USER_CONTENT_CLOSE}`
+      : text;
+  }
+}
+
+/**
+ * A rendered prompt and the template versions it was built from
+ */
+export interface RenderedPrompt {
+  text: string;
+  promptVersion: string;
+}
+
+/**
+ * Joins the refs of the templates that produced a prompt, e.g. 'required-checks.de@1,annotation-output-format.de@1'
+ */
+export const promptVersion = (...templates: Array<PromptTemplate<any>>): string =>
+  templates.map(template => template.ref).join(',');
@@ -0,0 +1,55 @@
+import { JsonArraySchema, JsonObjectSchema } from './jsonSchema';
+
+/**
+ * Schema of an annotation anchor, see AnnotationAnchor
+ */
+export const annotationAnchorSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    document: { type: 'string', description: 'File name of the document' },
+    pageIndex: { type: 'integer', minimum: 0, description: 'Page index starting from 0' },
+    quote: { type: 'string', minLength: 1, description: 'Verbatim text span from the page' },
+    startOffset: { type: 'integer', minimum: 0 },
+    endOffset: { type: 'integer', minimum: 0 }
+  },
+  required: ['pageIndex', 'quote']
+};
+
+/**
+ * Schema of a single annotation, see Annotation
+ */
+export const annotationSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    level: { type: 'string', enum: ['info', 'warning', 'error'] },
+    description: { type: 'string', minLength: 1, description: 'Explanation of the finding and a concrete suggestion' },
+    metadata: { type: 'string', description: 'Location in the document or legal references' },
+    anchor: annotationAnchorSchema
+  },
+  required: ['level', 'description', 'metadata']
+};
+
+/**
+ * Schema of an analysis result (Annotation[])
+ */
+export const analysisResultSchema: JsonArraySchema = {
+  type: 'array',
+  items: annotationSchema
+};
+
+/**
+ * Schema of the legal assessment of contract changes, one entry per change ID
+ */
+export const clauseAssessmentsSchema: JsonArraySchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      changeId: { type: 'string', minLength: 1, description: 'ID of the assessed change, e.g. "c1"' },
+      level: { type: 'string', enum: ['info', 'warning', 'error'] },
+      description: { type: 'string', minLength: 1, description: 'Legal assessment of the change' },
+      metadata: { type: 'string', description: 'Clause and legal references' }
+    },
+    required: ['changeId', 'level', 'description', 'metadata']
+  }
+};
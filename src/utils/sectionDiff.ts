@@ -0,0 +1,218 @@
+import { OCRResponse } from '../dto/ocr.dto';
+
+/**
+ * A section of a contract: a heading (clause number and/or title) and the text up to the next heading
+ */
+export interface ContractSection {
+    /**
+     * Heading as it appears in the document, empty for text before the first heading
+     */
+    heading: string;
+
+    /**
+     * Clause number from the heading (e.g. "5" for "§ 5", "3.2" for "3.2 Vergütung")
+     */
+    number: string | null;
+
+    /**
+     * Normalized heading without the number, used to match renumbered clauses
+     */
+    title: string;
+
+    /**
+     * Section text without the heading
+     */
+    text: string;
+
+    /**
+     * OCRPageObject.index of the page the section starts on
+     */
+    pageIndex: number;
+}
+
+/**
+ * How a section differs between the two versions
+ */
+export type SectionChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * A section of the base version aligned with its counterpart in the revised version
+ */
+export interface SectionAlignment {
+    type: SectionChangeType;
+    base: ContractSection | null;
+    revised: ContractSection | null;
+    similarity: number; // Word overlap of both texts from 0 to 1
+}
+
+/**
+ * Minimum word overlap for sections with different headings to be treated as the same clause
+ */
+const MIN_CONTENT_SIMILARITY = 0.5;
+
+/**
+ * Numbered lines longer than this are clause text rather than headings
+ */
+const MAX_HEADING_LENGTH = 100;
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+const CLAUSE_HEADING = /^(?:§+\s*|(?:art\.|artikel|ziffer|ziff\.|abschnitt|section|clause)\s*)(\d+(?:\.\d+)*)\.?\s*(.*)$/i;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+(\S.*)$/;
+
+/**
+ * Lower-cases a text and reduces it to words of letters and digits. Umlauts and accents are kept,
+ * so "für" and "fur" stay different words; NFC makes decomposed OCR output compare equal.
+ */
+const normalizeWords = (value: string): string =>
+    value.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const normalizeText = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses a heading line into number and title, or returns null if the line is not a heading
+ */
+const parseHeading = (line: string): { number: string | null, title: string } | null => {
+    const markdown = line.match(MARKDOWN_HEADING);
+    const candidate = (markdown ? markdown[1] : line).replace(/\*\*/g, '').trim();
+
+    const clause = candidate.match(CLAUSE_HEADING);
+    if (clause) {
+        return { number: clause[1], title: normalizeWords(clause[2]) };
+    }
+
+    const numbered = candidate.match(NUMBERED_HEADING);
+    if (numbered && candidate.length <= MAX_HEADING_LENGTH) {
+        return { number: numbered[1], title: normalizeWords(numbered[2]) };
+    }
+
+    return markdown ? { number: null, title: normalizeWords(candidate) } : null;
+};
+
+/**
+ * Splits the OCR markdown of a contract into sections at headings
+ * (markdown headings, "§ 5", "Artikel 5", "Ziffer 5" and short numbered lines such as "5. Haftung")
+ * @param document OCR result
+ * @returns Sections in document order, empty sections are dropped
+ */
+export const splitSections = (document: OCRResponse): ContractSection[] => {
+    const sections: ContractSection[] = [];
+    let current: ContractSection = { heading: '', number: null, title: '', text: '', pageIndex: document.pages?.[0]?.index ?? 0 };
+
+    (document.pages ?? []).forEach(page => {
+        page.markdown.split('\n').forEach(line => {
+            const trimmed = line.trim();
+            const heading = trimmed ? parseHeading(trimmed) : null;
+            if (!heading) {
+                current.text += `${line}\n`;
+                return;
+            }
+
+            sections.push(current);
+            current = { heading: trimmed.replace(/^#+\s*/, ''), number: heading.number, title: heading.title, text: '', pageIndex: page.index };
+        });
+    });
+    sections.push(current);
+
+    return sections
+        .map(section => ({ ...section, text: section.text.trim() }))
+        .filter(section => section.heading || section.text);
+};
+
+/**
+ * Word overlap (Jaccard index) of two texts
+ */
+export const textSimilarity = (a: string, b: string): number => {
+    const wordsA = new Set(normalizeWords(a).split(' ').filter(word => word));
+    const wordsB = new Set(normalizeWords(b).split(' ').filter(word => word));
+    if (wordsA.size === 0 && wordsB.size === 0) {
+        return 1;
+    }
+    const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+};
+
+/**
+ * Aligns the sections of two contract versions. Sections are matched by identical heading,
+ * then by title (renumbered clauses), then by content similarity (retitled clauses).
+ * Unmatched sections are reported as added or removed.
+ * @param base Sections of the original version
+ * @param revised Sections of the revised version
+ * @returns Alignments in the order of the revised version, removed sections at their original position
+ */
+export const alignSections = (base: ContractSection[], revised: ContractSection[]): SectionAlignment[] => {
+    const matches = new Map<number, number>(); // Revised index -> base index
+    const usedBase = new Set<number>();
+
+    const matchBy = (isMatch: (baseSection: ContractSection, revisedSection: ContractSection) => boolean): void => {
+        revised.forEach((revisedSection, revisedIndex) => {
+            if (matches.has(revisedIndex)) {
+                return;
+            }
+            const baseIndex = base.findIndex((baseSection, index) => !usedBase.has(index) && isMatch(baseSection, revisedSection));
+            if (baseIndex >= 0) {
+                matches.set(revisedIndex, baseIndex);
+                usedBase.add(baseIndex);
+            }
+        });
+    };
+
+    matchBy((b, r) => b.number === r.number && b.title === r.title);
+    matchBy((b, r) => !!b.title && b.title === r.title);
+
+    // Remaining sections are paired with the most similar unmatched section
+    revised.forEach((revisedSection, revisedIndex) => {
+        if (matches.has(revisedIndex)) {
+            return;
+        }
+        let best = -1;
+        let bestSimilarity = MIN_CONTENT_SIMILARITY;
+        base.forEach((baseSection, baseIndex) => {
+            if (usedBase.has(baseIndex)) {
+                return;
+            }
+            const similarity = textSimilarity(baseSection.text, revisedSection.text);
+            if (similarity >= bestSimilarity) {
+                best = baseIndex;
+                bestSimilarity = similarity;
+            }
+        });
+        if (best >= 0) {
+            matches.set(revisedIndex, best);
+            usedBase.add(best);
+        }
+    });
+
+    const alignments: SectionAlignment[] = [];
+    let nextBase = 0;
+    const emitRemovedUntil = (baseIndex: number): void => {
+        for (; nextBase < baseIndex; nextBase++) {
+            if (!usedBase.has(nextBase)) {
+                alignments.push({ type: 'removed', base: base[nextBase], revised: null, similarity: 0 });
+            }
+        }
+    };
+
+    revised.forEach((revisedSection, revisedIndex) => {
+        const baseIndex = matches.get(revisedIndex);
+        if (baseIndex === undefined) {
+            alignments.push({ type: 'added', base: null, revised: revisedSection, similarity: 0 });
+            return;
+        }
+
+        emitRemovedUntil(baseIndex);
+        nextBase = Math.max(nextBase, baseIndex + 1);
+
+        const baseSection = base[baseIndex];
+        const unchanged = normalizeText(baseSection.text) === normalizeText(revisedSection.text)
+            && normalizeWords(baseSection.title) === normalizeWords(revisedSection.title);
+        alignments.push({
+            type: unchanged ? 'unchanged' : 'changed',
+            base: baseSection,
+            revised: revisedSection,
+            similarity: unchanged ? 1 : textSimilarity(baseSection.text, revisedSection.text)
+        });
+    });
+    emitRemovedUntil(base.length);
+
+    return alignments;
+};
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { ProviderUsage } from '../services/providers/chatProvider';
+import { Citation } from '../dto/chat.dto';
+
+/**
+ * Token usage reported to SSE clients, normalized across providers
+ */
+export type StreamUsage = ProviderUsage;
+
+/**
+ * Payloads of the typed events sent in Server-Sent Events mode
+ */
+export interface ChatStreamEvents {
+  session: { chatId: string; userMessageId?: string; assistantMessageId?: string };
+  delta: { content: string };
+  document_processed: { filePath: string; fileName: string; documentId?: string; success: boolean; pageCount?: number; cacheHit?: boolean; error?: string };
+  citations: { citations: Citation[] };
+  usage: StreamUsage;
+  error: { message: string; incomplete?: boolean }; // incomplete: the partial answer was stored and can be resumed
+  done: { chatId: string };
+}
+
+export type ChatStreamEventName = keyof ChatStreamEvents;
+
+/**
+ * Checks whether the client opted into Server-Sent Events via the Accept header.
+ * Clients that don't ask for it keep receiving the plain-text stream.
+ * @param req Incoming request
+ * @returns True if the client accepts text/event-stream
+ */
+export const wantsEventStream = (req: Request<any, any, any, any>): boolean => {
+  const accept = req.headers.accept;
+  return typeof accept === 'string' && accept.includes('text/event-stream');
+};
+
+/**
+ * Sets the SSE response headers and flushes them so events can be sent immediately.
+ * @param res Response to turn into an event stream
+ */
+export const initEventStream = (res: Response): void => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+};
+
+/**
+ * Writes a single typed event to an SSE response. Ignored once the response has ended.
+ * @param res Event stream response
+ * @param event Event name
+ * @param data Event payload, serialized as JSON
+ */
+export const sendEvent = <E extends ChatStreamEventName>(res: Response, event: E, data: ChatStreamEvents[E]): void => {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
@@ -0,0 +1,222 @@
+import config from '../config/env';
+import { ProviderMessage, ProviderStreamEvent, ProviderUsage } from '../services/providers/chatProvider';
+import { JsonArraySchema, JsonSchema, validateJsonSchema } from './jsonSchema';
+import { JsonArrayStreamParser } from './jsonArrayStream';
+import { getPrompts } from './promptSets';
+import { OutputLanguage } from './language';
+
+/**
+ * Raised when the model output still does not match the schema after all repair attempts
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly attempts: number,
+    public readonly rawContent: string,
+    public readonly usage?: ProviderUsage // Tokens spent on all attempts
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Runs one completion. `followUp` holds the previous invalid answer and the repair
+ * request and must be appended to the original conversation.
+ */
+export type StructuredCompletion = (followUp: ProviderMessage[]) => Promise<{ content: string, usage?: ProviderUsage }>;
+
+/**
+ * Validated structured output
+ */
+export interface StructuredOutputResult<T> {
+  data: T;
+  usage?: ProviderUsage; // Summed over all attempts
+  attempts: number;
+}
+
+export interface StructuredOutputOptions {
+  /**
+   * Number of repair prompts sent after the first invalid answer
+   */
+  maxRepairAttempts?: number;
+
+  /**
+   * Name used in log messages
+   */
+  label?: string;
+
+  /**
+   * Language of the repair prompts, defaults to DEFAULT_LANGUAGE
+   */
+  language?: OutputLanguage;
+}
+
+/**
+ * Parses model output as JSON, tolerating Markdown code fences around it
+ * @param content Raw model output
+ * @returns Parsed value
+ */
+export const parseJsonContent = (content: string): unknown => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonString = fenced ? fenced[1].trim() : content.trim();
+  return JSON.parse(jsonString);
+};
+
+/**
+ * JSON mode may force a top-level object. If an array is expected and the model wrapped it
+ * in an object with a single array property (e.g. `{ "annotations": [...] }`), it is unwrapped.
+ */
+const unwrapArray = (value: unknown, schema: JsonSchema): unknown => {
+  if (schema.type !== 'array' || typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  const entries = Object.values(value);
+  return entries.length === 1 && Array.isArray(entries[0]) ? entries[0] : value;
+};
+
+/**
+ * Adds up the token usage of several model calls
+ * @param total Usage so far, undefined if none was reported
+ * @param usage Usage of the next call
+ * @returns Combined usage, undefined if neither reported any
+ */
+export const addUsage = (total: ProviderUsage | undefined, usage: ProviderUsage | undefined): ProviderUsage | undefined => {
+  if (!usage) {
+    return total;
+  }
+  if (!total) {
+    return { ...usage };
+  }
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+};
+
+/**
+ * Requests structured output and validates it against a schema. Invalid output is sent back
+ * to the model together with the validation errors until it is valid or the repair attempts are used up.
+ * @param complete Function running one completion
+ * @param schema Expected schema of the output
+ * @param options Repair attempts, log label and language
+ * @returns Typed data with the summed token usage
+ * @throws StructuredOutputError if no valid output was produced
+ */
+export const requestStructuredOutput = async <T>(
+  complete: StructuredCompletion,
+  schema: JsonSchema,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredOutputResult<T>> => {
+  const maxRepairAttempts = options.maxRepairAttempts ?? config.structuredOutputMaxRepairs;
+  const label = options.label ?? 'structured output';
+  const { structuredOutputRepairPrompt } = getPrompts(options.language ?? config.defaultLanguage);
+  const followUp: ProviderMessage[] = [];
+  let usage: ProviderUsage | undefined;
+  let errors: string[] = [];
+  let content = '';
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    const response = await complete(followUp);
+    content = response.content;
+    usage = addUsage(usage, response.usage);
+
+    try {
+      const value = unwrapArray(parseJsonContent(content), schema);
+      errors = validateJsonSchema(value, schema);
+      if (errors.length === 0) {
+        if (attempt > 1) {
+          console.log(`[STRUCTURED] ${label} valid after ${attempt - 1} repair attempt(s)`);
+        }
+        return { data: value as T, usage, attempts: attempt };
+      }
+    } catch (parseError) {
+      errors = [`$: invalid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})`];
+    }
+
+    console.warn(`[STRUCTURED] ${label} attempt ${attempt} invalid: ${errors.slice(0, 5).join('; ')}`);
+
+    // Only the latest invalid answer is kept so the conversation does not grow with every attempt
+    followUp.splice(0, followUp.length,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: structuredOutputRepairPrompt.render({ errors, schema })
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `Model output for ${label} did not match the schema after ${maxRepairAttempts + 1} attempt(s)`,
+    errors,
+    maxRepairAttempts + 1,
+    content,
+    usage
+  );
+};
+
+/**
+ * Result of a streamed structured array
+ */
+export interface StreamedArrayResult<T> {
+  items: T[]; // Valid items in the order they were streamed
+  skipped: string[]; // Validation errors of items that were dropped
+  usage?: ProviderUsage;
+}
+
+/**
+ * Streams a JSON array from the model and hands every item to `onItem` as soon as it is complete
+ * and valid against the item schema. Invalid items are dropped. Streamed output cannot be repaired,
+ * so no repair prompts are sent.
+ * @param stream Delta and usage events of a completion
+ * @param schema Expected schema of the whole array
+ * @param onItem Called with each valid item and its position among the valid items
+ * @param options Log label
+ * @returns Valid items, errors of dropped items and token usage
+ * @throws StructuredOutputError if the array was never closed or the valid items violate the array schema
+ */
+export const streamStructuredArray = async <T>(
+  stream: AsyncIterable<ProviderStreamEvent>,
+  schema: JsonArraySchema,
+  onItem: (item: T, index: number) => void | Promise<void>,
+  options: Pick<StructuredOutputOptions, 'label'> = {}
+): Promise<StreamedArrayResult<T>> => {
+  const label = options.label ?? 'structured output';
+  const parser = new JsonArrayStreamParser();
+  const items: T[] = [];
+  const skipped: string[] = [];
+  let usage: ProviderUsage | undefined;
+
+  for await (const event of stream) {
+    if (event.type === 'usage') {
+      usage = event.usage;
+      continue;
+    }
+
+    for (const element of parser.push(event.content)) {
+      const errors = element.error
+        ? [`$[${element.index}]: ${element.error}`]
+        : validateJsonSchema(element.value, schema.items, `$[${element.index}]`);
+      if (errors.length > 0) {
+        console.warn(`[STRUCTURED] ${label} item ${element.index} dropped: ${errors.slice(0, 5).join('; ')}`);
+        skipped.push(...errors);
+        continue;
+      }
+
+      items.push(element.value as T);
+      await onItem(element.value as T, items.length - 1);
+    }
+  }
+
+  const errors = parser.complete
+    ? validateJsonSchema(items, schema)
+    : ['$: the array was not closed, the output is incomplete'];
+  if (errors.length > 0) {
+    throw new StructuredOutputError(`Streamed output for ${label} did not match the schema`, errors, 1, parser.content, usage);
+  }
+
+  return { items, skipped, usage };
+};
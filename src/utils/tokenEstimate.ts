@@ -0,0 +1,58 @@
+import { MistralMessage } from '../dto/chat.dto';
+import { OCRResponse } from '../dto/ocr.dto';
+
+/**
+ * Rough number of characters per token for European languages, used when the model is not known
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens of a text
+ * @param text Text to estimate
+ * @param charsPerToken Characters per token of the model's tokenizer
+ * @returns Estimated token count
+ */
+export const estimateTokens = (text: string, charsPerToken: number = CHARS_PER_TOKEN): number => Math.ceil(text.length / charsPerToken);
+
+/**
+ * Estimates the tokens of the text of a message. Images are not counted.
+ * @param message Message to estimate
+ * @param charsPerToken Characters per token of the model's tokenizer
+ * @returns Estimated token count
+ */
+export const estimateMessageTokens = (message: MistralMessage, charsPerToken: number = CHARS_PER_TOKEN): number => {
+  const text = typeof message.content === 'string'
+    ? message.content
+    : message.content.map(chunk => chunk.type === 'text' ? chunk.text : '').join('');
+  return estimateTokens(text, charsPerToken);
+};
+
+/**
+ * Estimates the prompt tokens of a conversation including document context.
+ * Images are not counted.
+ * @param messages Conversation messages
+ * @param documents Optional documents added as context
+ * @param charsPerToken Characters per token of the model's tokenizer
+ * @returns Estimated token count
+ */
+export const estimatePromptTokens = (messages: MistralMessage[], documents: OCRResponse[] = [], charsPerToken: number = CHARS_PER_TOKEN): number => {
+  const messageTokens = messages.reduce((sum, message) => sum + estimateMessageTokens(message, charsPerToken), 0);
+
+  const documentTokens = documents.reduce((sum, document) =>
+    sum + (document.pages ?? []).reduce((pageSum, page) => pageSum + estimateTokens(page.markdown, charsPerToken), 0), 0);
+
+  return messageTokens + documentTokens;
+};
+
+/**
+ * Completion tokens reserved per operation before the actual usage is known
+ */
+export const EXPECTED_COMPLETION_TOKENS = {
+  chat: 1500,
+  analysis: 4000
+};
+
+/**
+ * Prompt tokens reserved per file sent inline to Gemini, whose size in tokens is only known afterwards
+ */
+export const INLINE_FILE_TOKENS = 8000;
@@ -8,7 +8,7 @@
 export type AnnotationLevel = 'info' | 'warning' | 'error';
 
 /**
- * Annotation structure as defined in analysisPromptDeutsch
+ * Annotation structure as defined in inlineAnalysisPrompt
  */
 export interface Annotation {
   /**
@@ -25,8 +25,58 @@ export interface Annotation {
    * Unique identifier for the location in the document that the annotation refers to
    */
   metadata: string;
+
+  /**
+   * Optional structured location of the annotated passage in the OCR result
+   */
+  anchor?: AnnotationAnchor;
+
+  /**
+   * Set by the anchor resolver: 'anchored' if the quoted span was found on the stated page
+   */
+  anchorStatus?: AnnotationAnchorStatus;
+
+  /**
+   * Reason why the annotation could not be anchored
+   */
+  anchorError?: string;
+}
+
+/**
+ * Location of an annotated passage within an OCR'd document
+ */
+export interface AnnotationAnchor {
+  /**
+   * File name of the document, required to disambiguate when several documents were analyzed
+   */
+  document?: string;
+
+  /**
+   * OCRPageObject.index of the page, starting from 0
+   */
+  pageIndex: number;
+
+  /**
+   * Verbatim text span from the page markdown
+   */
+  quote: string;
+
+  /**
+   * Character offset of the quote within the page markdown (inclusive)
+   */
+  startOffset?: number;
+
+  /**
+   * Character offset of the end of the quote within the page markdown (exclusive)
+   */
+  endOffset?: number;
 }
 
+/**
+ * Result of verifying an annotation anchor against the OCR result
+ */
+export type AnnotationAnchorStatus = 'anchored' | 'unanchored';
+
 /**
  * Combined type that can be used for either analysis response structure
  */
@@ -0,0 +1,117 @@
+import './support/env';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import supabaseService, { ChatSessionConflictError } from '../src/services/supabase.service';
+import { MistralMessage } from '../src/dto/chat.dto';
+import { InMemorySupabase } from './support/inMemorySupabase';
+
+const JWT = 'user-jwt';
+
+const exchange = (turn: string): MistralMessage[] => [
+  { id: `${turn}-user`, role: 'user', content: `Question ${turn}` },
+  { id: `${turn}-assistant`, parentId: `${turn}-user`, role: 'assistant', content: `Answer ${turn}` }
+];
+
+describe('chat session writes', () => {
+  let db: InMemorySupabase;
+  let sessionId: string;
+  const service = supabaseService as any;
+  const createAuthClient = service.createAuthClient;
+  const consoleWarn = console.warn;
+
+  before(() => {
+    service.createAuthClient = () => db;
+    console.warn = () => {}; // Retries are logged as warnings
+  });
+
+  after(() => {
+    service.createAuthClient = createAuthClient;
+    console.warn = consoleWarn;
+  });
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    // Same as the handle_chat_session_version trigger of add_chat_session_version.sql
+    db.onUpdate('chat_sessions', (oldRow, newRow) => ({ ...newRow, version: oldRow.version + 1 }));
+    const session = await supabaseService.createChatSession('user-1', [], [], JWT);
+    sessionId = session!.id;
+  });
+
+  const storedSession = () => db.tables.chat_sessions.find(row => row.id === sessionId)!;
+
+  it('keeps the messages of concurrent turns that read the same version', async () => {
+    await Promise.all(['a', 'b', 'c'].map(turn => supabaseService.updateChatSession(sessionId, exchange(turn), [], JWT)));
+
+    const ids = storedSession().messages.map((message: MistralMessage) => message.id).sort();
+    assert.deepEqual(ids, ['a-assistant', 'a-user', 'b-assistant', 'b-user', 'c-assistant', 'c-user']);
+    assert.equal(storedSession().version, 3);
+  });
+
+  it('reports a conflict if the session keeps changing, without losing the stored turns', async () => {
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT);
+
+    // Another request changes the session after every read
+    const getChatSessionById = service.getChatSessionById;
+    service.getChatSessionById = async (...args: unknown[]) => {
+      const session = await getChatSessionById.apply(service, args);
+      storedSession().version++;
+      return session;
+    };
+    try {
+      await assert.rejects(supabaseService.updateChatSession(sessionId, exchange('b'), [], JWT), ChatSessionConflictError);
+    } finally {
+      service.getChatSessionById = getChatSessionById;
+    }
+
+    const ids = (storedSession().messages as MistralMessage[]).map(message => message.id);
+    assert.deepEqual(ids, ['a-user', 'a-assistant']);
+  });
+
+  it('does not append a message twice when a write is repeated', async () => {
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT);
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT);
+
+    assert.equal(storedSession().messages.length, 2);
+  });
+
+  it('retries an append that raced a title and a summary change, keeping all of them', async () => {
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT);
+
+    await Promise.all([
+      supabaseService.updateChatSession(sessionId, exchange('b'), [], JWT, 'b-assistant'),
+      supabaseService.updateChatSessionTitle(sessionId, 'Contract review', JWT),
+      supabaseService.updateChatSessionSummary(sessionId, { content: 'Summary', throughMessageId: 'a-assistant', updatedAt: new Date().toISOString() }, JWT)
+    ]);
+
+    const stored = storedSession();
+    assert.equal(stored.messages.length, 4);
+    assert.equal(stored.title, 'Contract review');
+    assert.equal(stored.context_summary.content, 'Summary');
+    assert.equal(stored.active_message_id, 'b-assistant');
+    assert.equal(stored.version, 4);
+  });
+
+  it('replaces a message in place', async () => {
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT);
+
+    const resumed: MistralMessage = { id: 'a-assistant', parentId: 'a-user', role: 'assistant', content: 'Complete answer a' };
+    const updated = await supabaseService.replaceChatMessage(sessionId, resumed, JWT, 'a-assistant');
+
+    assert.deepEqual(updated!.messages.map(message => message.content), ['Question a', 'Complete answer a']);
+    assert.equal(updated!.activeMessageId, 'a-assistant');
+  });
+
+  it('keeps the chat list columns in step with the active branch', async () => {
+    assert.equal(storedSession().message_count, 0);
+    assert.equal(storedSession().last_message_preview, null);
+
+    await supabaseService.updateChatSession(sessionId, exchange('a'), [], JWT, 'a-assistant');
+    const regenerated: MistralMessage = { id: 'a-regenerated', parentId: 'a-user', role: 'assistant', content: 'Other answer a' };
+    await supabaseService.updateChatSession(sessionId, [regenerated], [], JWT, 'a-regenerated');
+    assert.equal(storedSession().message_count, 2);
+    assert.equal(storedSession().last_message_preview, 'Other answer a');
+
+    await supabaseService.updateChatSessionActiveMessage(sessionId, 'a-assistant', JWT);
+    assert.equal(storedSession().last_message_preview, 'Answer a');
+  });
+});
@@ -0,0 +1,45 @@
+import './support/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryChunkStore } from '../src/services/retrieval/chunkStore';
+import { DocumentChunk } from '../src/dto/retrieval.dto';
+
+const EMBEDDER = 'local';
+
+const chunk = (sessionId: string, documentKey = 'doc-1'): DocumentChunk => ({
+  sessionId,
+  userId: 'user-1',
+  documentKey,
+  documentName: `${documentKey}.pdf`,
+  pageIndex: 0,
+  chunkIndex: 0,
+  content: `Content of ${documentKey}`,
+  embedder: EMBEDDER,
+  embedding: [1, 0]
+});
+
+describe('in-memory chunk store', () => {
+  it('evicts the least recently used session once full', async () => {
+    const store = new InMemoryChunkStore(2);
+    await store.addChunks([chunk('session-1')]);
+    await store.addChunks([chunk('session-2')]);
+
+    // Reading session-1 makes session-2 the least recently used one
+    await store.getChunks('session-1', EMBEDDER);
+    await store.addChunks([chunk('session-3')]);
+
+    assert.equal((await store.getChunks('session-1', EMBEDDER)).length, 1);
+    assert.equal((await store.getChunks('session-2', EMBEDDER)).length, 0);
+    assert.equal((await store.getChunks('session-3', EMBEDDER)).length, 1);
+  });
+
+  it('keeps adding to a session without counting it twice', async () => {
+    const store = new InMemoryChunkStore(2);
+    await store.addChunks([chunk('session-1', 'doc-1')]);
+    await store.addChunks([chunk('session-2')]);
+    await store.addChunks([chunk('session-1', 'doc-2')]);
+
+    assert.deepEqual(await store.getIndexedDocumentKeys('session-1', EMBEDDER), new Set(['doc-1', 'doc-2']));
+    assert.equal((await store.getChunks('session-2', EMBEDDER)).length, 1);
+  });
+});
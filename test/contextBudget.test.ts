@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContextBudgetError, contextRoom, fitTexts } from '../src/utils/contextBudget';
+import { estimateTokens } from '../src/utils/tokenEstimate';
+
+describe('context budget', () => {
+  it('keeps texts whole when they fit', () => {
+    assert.deepEqual(fitTexts(['abcd', 'efgh'], 10, 4), ['abcd', 'efgh']);
+  });
+
+  it('shares the room left by short texts among the long ones', () => {
+    const short = 'a'.repeat(8); // 2 tokens
+    const long = 'b'.repeat(400); // 100 tokens
+    const fitted = fitTexts([long, short, long], 20, 4);
+
+    assert.equal(fitted[1], short);
+    assert.equal(estimateTokens(fitted[0], 4), 9);
+    assert.equal(estimateTokens(fitted[2], 4), 9);
+    assert.ok(fitted[0].endsWith('…'));
+  });
+
+  it('rejects fixed parts that do not fit on their own', () => {
+    const limits = { contextWindow: 100, charsPerToken: 4 };
+    assert.equal(contextRoom(limits, 40, ['a'.repeat(80)]), 30);
+    assert.throws(() => contextRoom(limits, 40, ['a'.repeat(400)]), ContextBudgetError);
+  });
+});
@@ -0,0 +1,60 @@
+import './support/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { JwksError, JwksKeyStore } from '../src/services/jwks.service';
+
+describe('JWKS key store', () => {
+  let directory: string;
+  const consoleLog = console.log;
+  const consoleWarn = console.warn;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+    console.log = () => {}; // Loads are logged
+    console.warn = () => {};
+  });
+
+  after(async () => {
+    console.log = consoleLog;
+    console.warn = consoleWarn;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('does not retry a failed load during the backoff period', async () => {
+    const file = path.join(directory, 'jwks.json');
+    const store = new JwksKeyStore({ type: 'file', path: file }, 60 * 1000);
+
+    await assert.rejects(store.getKey('key-1'), JwksError);
+
+    // The key set is available now, but the failure is still cached
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    await fs.writeFile(file, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] }));
+    await assert.rejects(store.getKey('key-1'), /Failed to load JWKS/);
+
+    // Once the backoff has passed the key set is loaded again
+    (store as any).failure.failedAt -= 60 * 1000;
+    const key = await store.getKey('key-1');
+    assert.equal(key.asymmetricKeyType, 'ec');
+  });
+
+  it('keeps using the cached keys when refreshing an expired key set fails', async () => {
+    const file = path.join(directory, 'refresh.json');
+    const store = new JwksKeyStore({ type: 'file', path: file }, 60 * 1000);
+
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    await fs.writeFile(file, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] }));
+    await store.getKey('key-1');
+
+    // The key set expired and cannot be loaded any more
+    await fs.writeFile(file, 'unavailable');
+    (store as any).loadedAt -= 2 * 60 * 1000;
+
+    const key = await store.getKey('key-1');
+    assert.equal(key.asymmetricKeyType, 'ec');
+    await assert.rejects(store.getKey('key-2'), /Failed to load JWKS/);
+  });
+});
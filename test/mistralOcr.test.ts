@@ -0,0 +1,54 @@
+import './support/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mistralService from '../src/services/mistral.service';
+
+type RequestOptions = { fetchOptions?: { signal?: AbortSignal } } | undefined;
+
+const rejectWhenAborted = (options: RequestOptions): Promise<never> | undefined => {
+  const signal = options?.fetchOptions?.signal;
+  return signal?.aborted ? Promise.reject(signal.reason) : undefined;
+};
+
+describe('Mistral OCR', () => {
+  const consoleLog = console.log;
+  const consoleError = console.error;
+
+  before(() => {
+    console.log = () => {}; // OCR steps are logged
+    console.error = () => {};
+  });
+
+  after(() => {
+    console.log = consoleLog;
+    console.error = consoleError;
+  });
+
+  it('deletes the uploaded file when the request is aborted after the upload', async () => {
+    const controller = new AbortController();
+    const deleted: string[] = [];
+    (mistralService as any).client = {
+      files: {
+        upload: async () => {
+          controller.abort(new Error('Client disconnected'));
+          return { id: 'file-1' };
+        },
+        getSignedUrl: async (_request: unknown, options: RequestOptions) =>
+          rejectWhenAborted(options) ?? { url: 'https://files.example/file-1' },
+        delete: async ({ fileId }: { fileId: string }) => {
+          deleted.push(fileId);
+          return { id: fileId, deleted: true };
+        }
+      },
+      ocr: {
+        process: async () => assert.fail('OCR must not run after an abort')
+      }
+    };
+
+    await assert.rejects(
+      mistralService.processDocumentOcr(Buffer.from('%PDF'), 'contract.pdf', false, undefined, controller.signal),
+      /Client disconnected/
+    );
+    assert.deepEqual(deleted, ['file-1']);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignSections, splitSections, textSimilarity } from '../src/utils/sectionDiff';
+import { OCRResponse } from '../src/dto/ocr.dto';
+
+const contract = (markdown: string): OCRResponse => ({ pages: [{ index: 0, markdown }] } as OCRResponse);
+
+describe('section diff', () => {
+  it('keeps umlauts and accents when comparing words', () => {
+    assert.equal(textSimilarity('für', 'fur'), 0);
+    assert.equal(textSimilarity('clé', 'cl'), 0);
+    assert.equal(textSimilarity('Haftung für Schäden', 'haftung FÜR schäden'), 1);
+  });
+
+  it('treats decomposed and composed umlauts as the same word', () => {
+    assert.equal(textSimilarity('f\u00fcr', 'fu\u0308r'), 1);
+  });
+
+  it('does not match clauses whose titles differ only by an umlaut', () => {
+    const base = splitSections(contract('§ 1 Gebühr\nText A'));
+    const revised = splitSections(contract('§ 2 Gebuhr\nText B'));
+    assert.deepEqual(alignSections(base, revised).map(alignment => alignment.type), ['added', 'removed']);
+  });
+});
@@ -0,0 +1,8 @@
+// Configuration read by src/config/env.ts at import time. Import this module before any module of src.
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY ??= 'test-anon-key';
+process.env.SUPABASE_JWT_SECRET ??= 'test-jwt-secret';
+process.env.GOOGLE_CLOUD_PROJECT ??= 'test-project';
+process.env.GOOGLE_CLOUD_LOCATION ??= 'europe-west1';
+process.env.GCP_SERVICE_ACCOUNT_KEY_JSON_B64 ??= Buffer.from('{}').toString('base64');
+process.env.MISTRAL_API_KEY ??= 'test-mistral-key';
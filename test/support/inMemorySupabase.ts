@@ -0,0 +1,118 @@
+type Row = Record<string, any>;
+
+type QueryResult = { data: any, error: { message: string, code?: string } | null };
+
+/**
+ * Trigger run on every updated row, like a BEFORE UPDATE trigger: gets the stored and the new row,
+ * returns the row to store
+ */
+export type UpdateTrigger = (oldRow: Row, newRow: Row) => Row;
+
+/**
+ * Waits for the next turn of the event loop. Every query does, so concurrent callers interleave
+ * between their reads and writes the way they do against a real database.
+ */
+const nextTick = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Query builder supporting the subset of the PostgREST client used by the services under test:
+ * select, insert and update with eq filters, returning many rows, single() or maybeSingle()
+ */
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' = 'select';
+  private values: Row = {};
+  private filters: Array<[string, unknown]> = [];
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private rows: Row[], private triggers: UpdateTrigger[]) {}
+
+  select(_columns?: string): this {
+    return this;
+  }
+
+  insert(values: Row): this {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return nextTick().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const matches = (row: Row) => this.filters.every(([column, value]) => row[column] === value);
+    let result: Row[];
+
+    if (this.operation === 'insert') {
+      const now = new Date().toISOString();
+      const row = { id: `row-${this.rows.length + 1}`, version: 0, created_at: now, updated_at: now, ...this.values };
+      this.rows.push(row);
+      result = [row];
+    } else if (this.operation === 'update') {
+      result = [];
+      this.rows.forEach((row, index) => {
+        if (matches(row)) {
+          const updated = this.triggers.reduce((next, trigger) => trigger(row, next), { ...row, ...this.values });
+          this.rows[index] = updated;
+          result.push(updated);
+        }
+      });
+    } else {
+      result = this.rows.filter(matches);
+    }
+
+    // Copies, so callers cannot change stored rows without a query
+    const copies = result.map(row => structuredClone(row));
+    if (this.cardinality === 'many') {
+      return { data: copies, error: null };
+    }
+    if (copies.length > 1 || (this.cardinality === 'single' && copies.length === 0)) {
+      return { data: null, error: { message: `Expected one row, found ${copies.length}`, code: 'PGRST116' } };
+    }
+    return { data: copies[0] ?? null, error: null };
+  }
+}
+
+/**
+ * In-memory stand-in for the Supabase client, holding one array of rows per table
+ */
+export class InMemorySupabase {
+  readonly tables: Record<string, Row[]> = {};
+  private triggers: Record<string, UpdateTrigger[]> = {};
+
+  /**
+   * Registers a trigger run on every update of a table
+   */
+  onUpdate(table: string, trigger: UpdateTrigger): void {
+    (this.triggers[table] ??= []).push(trigger);
+  }
+
+  from(table: string): InMemoryQuery {
+    return new InMemoryQuery(this.tables[table] ??= [], this.triggers[table] ?? []);
+  }
+}